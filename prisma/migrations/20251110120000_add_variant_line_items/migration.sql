@@ -0,0 +1,20 @@
+-- DropIndex
+DROP INDEX "CartItem_cartId_productId_key";
+
+-- AlterTable
+ALTER TABLE "CartItem" ADD COLUMN     "variantId" TEXT;
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "variantId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "CartItem_variantId_idx" ON "CartItem"("variantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CartItem_cartId_productId_variantId_key" ON "CartItem"("cartId", "productId", "variantId");
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CartItem" ADD CONSTRAINT "CartItem_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "failedLoginAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lockedUntil" TIMESTAMP(3),
+ADD COLUMN     "passwordResetRequests" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "passwordResetWindowStart" TIMESTAMP(3),
+ADD COLUMN     "unlockToken" TEXT,
+ADD COLUMN     "unlockTokenExpires" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_unlockToken_key" ON "User"("unlockToken");
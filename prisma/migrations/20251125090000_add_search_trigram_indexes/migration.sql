@@ -0,0 +1,14 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- CreateIndex
+CREATE INDEX "Category_name_idx" ON "Category" USING GIN ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Product_title_idx" ON "Product" USING GIN ("title" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Product_sku_idx" ON "Product" USING GIN ("sku" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "ProductVariant_sku_idx" ON "ProductVariant" USING GIN ("sku" gin_trgm_ops);
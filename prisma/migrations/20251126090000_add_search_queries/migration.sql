@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "SearchSource" AS ENUM ('SEARCH', 'SUGGESTIONS');
+
+-- CreateTable
+CREATE TABLE "SearchQuery" (
+    "id" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "source" "SearchSource" NOT NULL,
+    "resultCount" INTEGER NOT NULL,
+    "visitorHash" TEXT NOT NULL,
+    "clickedProductId" TEXT,
+    "clickedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SearchQuery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SearchQuery_createdAt_idx" ON "SearchQuery"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "SearchQuery_query_idx" ON "SearchQuery"("query");
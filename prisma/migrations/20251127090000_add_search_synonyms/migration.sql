@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "SearchSynonym" (
+    "id" TEXT NOT NULL,
+    "term" TEXT NOT NULL,
+    "synonyms" TEXT[],
+    "redirectCategoryId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SearchSynonym_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SearchSynonym_term_key" ON "SearchSynonym"("term");
+
+-- AddForeignKey
+ALTER TABLE "SearchSynonym" ADD CONSTRAINT "SearchSynonym_redirectCategoryId_fkey" FOREIGN KEY ("redirectCategoryId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
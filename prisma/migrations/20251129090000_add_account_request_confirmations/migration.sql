@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "deletionToken" TEXT,
+ADD COLUMN     "deletionTokenExpires" TIMESTAMP(3),
+ADD COLUMN     "exportToken" TEXT,
+ADD COLUMN     "exportAvailableAt" TIMESTAMP(3),
+ADD COLUMN     "exportTokenExpires" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_deletionToken_key" ON "User"("deletionToken");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_exportToken_key" ON "User"("exportToken");
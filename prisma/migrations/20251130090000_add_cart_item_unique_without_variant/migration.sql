@@ -0,0 +1,23 @@
+-- Merge duplicate lines without a variant into the oldest one. NULLs are distinct in
+-- "CartItem_cartId_productId_variantId_key", so it never stopped these duplicates.
+WITH "lines" AS (
+    SELECT "id",
+        ROW_NUMBER() OVER (PARTITION BY "cartId", "productId" ORDER BY "createdAt", "id") AS "position",
+        SUM("quantity") OVER (PARTITION BY "cartId", "productId") AS "total"
+    FROM "CartItem"
+    WHERE "variantId" IS NULL
+)
+UPDATE "CartItem" SET "quantity" = "lines"."total"
+FROM "lines"
+WHERE "CartItem"."id" = "lines"."id" AND "lines"."position" = 1;
+
+DELETE FROM "CartItem"
+USING (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "cartId", "productId" ORDER BY "createdAt", "id") AS "position"
+    FROM "CartItem"
+    WHERE "variantId" IS NULL
+) AS "lines"
+WHERE "CartItem"."id" = "lines"."id" AND "lines"."position" > 1;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CartItem_cartId_productId_no_variant_key" ON "CartItem"("cartId", "productId") WHERE "variantId" IS NULL;
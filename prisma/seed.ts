@@ -18,6 +18,16 @@ async function main() {
     },
   });
 
+  await prisma.staffRole.upsert({
+    where: { name: 'Warehouse' },
+    update: {},
+    create: {
+      name: 'Warehouse',
+      description: 'Fulfils and ships orders',
+      permissions: ['orders:fulfil'],
+    },
+  });
+
   const catNames = ['Apparel', 'Electronics', 'Home'];
   for (const name of catNames) {
     const slug = name.toLowerCase();
@@ -33,6 +33,8 @@ export function createApp() {
     }),
   );
   app.use(cors({ origin: process.env.CLIENT_URL || '*', credentials: true }));
+  // Payment providers sign the raw payload, so webhook bodies must not be JSON-parsed first
+  app.use('/api/v1/payments/:provider/webhook', express.raw({ type: 'application/json' }));
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
   app.use(morgan('dev'));
@@ -1,6 +1,15 @@
 import 'dotenv/config';
 import { z } from 'zod';
 
+const oidcProviderSchema = z.object({
+  // Used in URLs, e.g. /auth/oidc/google
+  name: z.string().regex(/^[a-z0-9-]+$/),
+  issuer: z.string().url(),
+  clientId: z.string().min(1),
+  clientSecret: z.string().min(1).optional(),
+  scopes: z.array(z.string()).default(['openid', 'email', 'profile']),
+});
+
 const envSchema = z.object({
   NODE_ENV: z.enum(['development', 'test', 'production']).default('development'),
   PORT: z.coerce.number().int().positive().default(4000),
@@ -14,6 +23,48 @@ const envSchema = z.object({
   JWT_REFRESH_EXPIRES: z.string().default('7d'),
   STRIPE_SECRET_KEY: z.string().optional(),
   STRIPE_WEBHOOK_SECRET: z.string().optional(),
+  PAYMENT_PROVIDER: z.enum(['STRIPE', 'FAKE']).optional(),
+  // No default: fake webhooks are rejected until a secret is configured
+  FAKE_PAYMENT_WEBHOOK_SECRET: z.string().min(16).optional(),
+  // Checkout sessions close with the reservation; Stripe allows 30 minutes to 24 hours
+  ORDER_RESERVATION_TTL_MINUTES: z.coerce.number().int().min(30).max(1440).default(30),
+  ORDER_SWEEP_INTERVAL_SECONDS: z.coerce.number().int().positive().default(60),
+  ACCOUNT_DELETION_GRACE_DAYS: z.coerce.number().int().nonnegative().default(14),
+  DATA_EXPORT_DELAY_HOURS: z.coerce.number().int().nonnegative().default(24),
+  CARRIER_API_KEY: z.string().min(16).optional(),
+  // Admins must enrol in TOTP two-factor authentication before they can use admin routes
+  ADMIN_2FA_REQUIRED: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+  TWO_FACTOR_ISSUER: z.string().min(1).default('Cozzy'),
+  LOGIN_MAX_FAILED_ATTEMPTS: z.coerce.number().int().positive().default(5),
+  LOGIN_LOCKOUT_MINUTES: z.coerce.number().int().positive().default(15),
+  PASSWORD_RESET_MAX_REQUESTS: z.coerce.number().int().positive().default(5),
+  // Comma-separated actions that need a verified email address; set to an empty string to disable
+  VERIFIED_EMAIL_REQUIRED_FOR: z
+    .string()
+    .default('orders,checkout,reviews,addresses')
+    .transform((value) =>
+      value
+        .split(',')
+        .map((action) => action.trim())
+        .filter(Boolean),
+    )
+    .pipe(z.array(z.enum(['orders', 'checkout', 'reviews', 'addresses']))),
+  // JSON array of OpenID Connect providers users can sign in with
+  OIDC_PROVIDERS: z
+    .string()
+    .default('[]')
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be a JSON array' });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.array(oidcProviderSchema)),
 });
 
 const parsed = envSchema.safeParse(process.env);
@@ -23,4 +74,5 @@ if (!parsed.success) {
 }
 
 export type Env = z.infer<typeof envSchema>;
+export type OidcProviderConfig = Env['OIDC_PROVIDERS'][number];
 export const env = parsed.data as Env;
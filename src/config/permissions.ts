@@ -0,0 +1,25 @@
+/**
+ * Named permissions that staff roles can grant. Admins implicitly hold all of them.
+ */
+export const PERMISSIONS = [
+  'catalog:write',
+  'orders:fulfil',
+  'orders:refund',
+  'coupons:manage',
+  'users:manage',
+  'analytics:read',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Scopes a personal API key can carry: `account` lets it act as its owner's customer account
+ * (orders, cart, reviews and so on); the permissions let it use the matching staff routes.
+ */
+export const API_KEY_SCOPES = ['account', ...PERMISSIONS] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
@@ -1,6 +1,7 @@
 import swaggerJsdoc from 'swagger-jsdoc';
 
 import { env } from './env';
+import { API_KEY_SCOPES, PERMISSIONS } from './permissions';
 
 const options: swaggerJsdoc.Options = {
   definition: {
@@ -77,6 +78,22 @@ const options: swaggerJsdoc.Options = {
               type: 'boolean',
               description: 'Whether the user has verified their email',
             },
+            suspendedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Set while an admin has suspended the account',
+            },
+            suspendedReason: {
+              type: 'string',
+              nullable: true,
+            },
+            staffRoleId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Staff role granting extra permissions',
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -181,7 +198,15 @@ const options: swaggerJsdoc.Options = {
             },
             status: {
               type: 'string',
-              enum: ['PENDING', 'PAID', 'CANCELLED', 'FULFILLED', 'REFUNDED'],
+              enum: [
+                'PENDING',
+                'PAID',
+                'CANCELLED',
+                'FULFILLED',
+                'SHIPPED',
+                'DELIVERED',
+                'REFUNDED',
+              ],
             },
             totalCents: {
               type: 'integer',
@@ -194,11 +219,16 @@ const options: swaggerJsdoc.Options = {
             },
             paymentProvider: {
               type: 'string',
+              enum: ['STRIPE', 'FAKE'],
             },
             paymentIntentId: {
               type: 'string',
               nullable: true,
             },
+            checkoutSessionId: {
+              type: 'string',
+              nullable: true,
+            },
             items: {
               type: 'array',
               items: {
@@ -210,6 +240,17 @@ const options: swaggerJsdoc.Options = {
               nullable: true,
               description: 'Shipping tracking number',
             },
+            carrier: {
+              type: 'string',
+              nullable: true,
+              description: 'Shipping carrier name',
+            },
+            trackingUrl: {
+              type: 'string',
+              format: 'uri',
+              nullable: true,
+              description: 'Carrier tracking page',
+            },
             shippedAt: {
               type: 'string',
               format: 'date-time',
@@ -222,6 +263,16 @@ const options: swaggerJsdoc.Options = {
               nullable: true,
               description: 'Date when order was delivered',
             },
+            refundedCents: {
+              type: 'integer',
+              description: 'Total amount refunded so far',
+            },
+            reservationExpiresAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Unpaid orders are cancelled and their stock released after this time',
+            },
             statusHistory: {
               type: 'array',
               items: {
@@ -257,6 +308,15 @@ const options: swaggerJsdoc.Options = {
             product: {
               $ref: '#/components/schemas/Product',
             },
+            variantId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Ordered product variant',
+            },
+            variant: {
+              $ref: '#/components/schemas/ProductVariant',
+            },
             quantity: {
               type: 'integer',
             },
@@ -268,6 +328,88 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        WebhookEvent: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            provider: {
+              type: 'string',
+              example: 'STRIPE',
+            },
+            eventId: {
+              type: 'string',
+              description: 'Provider event ID',
+            },
+            type: {
+              type: 'string',
+            },
+            payload: {
+              type: 'object',
+              description: 'Raw event as received from the provider',
+            },
+            status: {
+              type: 'string',
+              enum: ['RECEIVED', 'PROCESSED', 'FAILED'],
+            },
+            attempts: {
+              type: 'integer',
+            },
+            lastError: {
+              type: 'string',
+              nullable: true,
+            },
+            receivedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            claimedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When the latest processing attempt started',
+            },
+            processedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+          },
+        },
+        Refund: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            orderId: {
+              type: 'string',
+              format: 'uuid',
+            },
+            providerRefundId: {
+              type: 'string',
+              nullable: true,
+              description: 'Refund ID at the payment provider',
+            },
+            amountCents: {
+              type: 'integer',
+            },
+            reason: {
+              type: 'string',
+              nullable: true,
+            },
+            restocked: {
+              type: 'boolean',
+              description: 'Whether the refunded items were returned to stock',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
         Cart: {
           type: 'object',
           properties: {
@@ -321,6 +463,15 @@ const options: swaggerJsdoc.Options = {
             product: {
               $ref: '#/components/schemas/Product',
             },
+            variantId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Selected product variant',
+            },
+            variant: {
+              $ref: '#/components/schemas/ProductVariant',
+            },
             quantity: {
               type: 'integer',
               description: 'Quantity of the product in cart',
@@ -538,7 +689,15 @@ const options: swaggerJsdoc.Options = {
             },
             status: {
               type: 'string',
-              enum: ['PENDING', 'PAID', 'CANCELLED', 'FULFILLED', 'REFUNDED'],
+              enum: [
+                'PENDING',
+                'PAID',
+                'CANCELLED',
+                'FULFILLED',
+                'SHIPPED',
+                'DELIVERED',
+                'REFUNDED',
+              ],
             },
             note: {
               type: 'string',
@@ -690,6 +849,211 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        SearchSynonym: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            term: {
+              type: 'string',
+              example: 'tee',
+            },
+            synonyms: {
+              type: 'array',
+              items: {
+                type: 'string',
+              },
+              example: ['t-shirt'],
+            },
+            redirectCategoryId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            redirectCategory: {
+              $ref: '#/components/schemas/Category',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        SearchRedirect: {
+          type: 'object',
+          nullable: true,
+          description: 'Set when the query exactly matches a rule with a redirect category',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['category'],
+            },
+            categoryId: {
+              type: 'string',
+              format: 'uuid',
+            },
+            slug: {
+              type: 'string',
+            },
+            name: {
+              type: 'string',
+            },
+            url: {
+              type: 'string',
+              example: '/categories/sale',
+            },
+          },
+        },
+        SearchSynonymInput: {
+          type: 'object',
+          required: ['term'],
+          description: 'At least one synonym or a redirect category is required',
+          properties: {
+            term: {
+              type: 'string',
+              description: 'Word or phrase to match in queries, up to four words',
+              example: 'tee',
+            },
+            synonyms: {
+              type: 'array',
+              maxItems: 20,
+              items: {
+                type: 'string',
+              },
+              description: 'Also searched for when a query contains the term',
+              example: ['t-shirt'],
+            },
+            redirectCategoryId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Category to send customers to when they search exactly for the term',
+            },
+          },
+        },
+        SearchQueryStats: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description: 'Normalised query: trimmed, lower-cased, single spaces',
+            },
+            searches: {
+              type: 'integer',
+            },
+            averageResults: {
+              type: 'number',
+            },
+            clicks: {
+              type: 'integer',
+              description: 'Searches followed by a click on a result',
+            },
+            clickThroughRate: {
+              type: 'number',
+              example: 0.25,
+            },
+          },
+        },
+        ApiKey: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            name: {
+              type: 'string',
+            },
+            prefix: {
+              type: 'string',
+              description: 'First characters of the key, to tell keys apart',
+              example: 'ck_1a2b3c4d',
+            },
+            scopes: {
+              type: 'array',
+              description:
+                'What the key may do: `account` to act as the customer, permissions for staff work',
+              items: {
+                type: 'string',
+                enum: [...API_KEY_SCOPES],
+              },
+            },
+            expiresAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            lastUsedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            expired: {
+              type: 'boolean',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        StaffRole: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            name: {
+              type: 'string',
+              example: 'Warehouse',
+            },
+            description: {
+              type: 'string',
+              nullable: true,
+            },
+            permissions: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: [...PERMISSIONS],
+              },
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        StaffRoleInput: {
+          type: 'object',
+          required: ['name', 'permissions'],
+          properties: {
+            name: {
+              type: 'string',
+            },
+            description: {
+              type: 'string',
+            },
+            permissions: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: [...PERMISSIONS],
+              },
+            },
+          },
+        },
         CouponInput: {
           type: 'object',
           required: ['code', 'discountType', 'discountValue', 'validFrom', 'validUntil'],
@@ -769,6 +1133,51 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        EmailNotVerified: {
+          description: 'The email address must be verified first',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  message: {
+                    type: 'string',
+                    example: 'Please verify your email address to continue',
+                  },
+                  code: { type: 'string', enum: ['EMAIL_NOT_VERIFIED'] },
+                },
+              },
+            },
+          },
+        },
+        InvalidTransition: {
+          description: 'The order cannot move to the requested status',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  allowedStatuses: {
+                    type: 'array',
+                    items: {
+                      type: 'string',
+                      enum: [
+                        'PENDING',
+                        'PAID',
+                        'FULFILLED',
+                        'SHIPPED',
+                        'DELIVERED',
+                        'CANCELLED',
+                        'REFUNDED',
+                      ],
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
       },
     },
     tags: [
@@ -782,7 +1191,11 @@ const options: swaggerJsdoc.Options = {
       },
       {
         name: 'Users',
-        description: 'User management (Admin only)',
+        description: 'User management (requires users:manage)',
+      },
+      {
+        name: 'Roles',
+        description: 'Staff roles and permissions (Admin only)',
       },
       {
         name: 'Categories',
@@ -1,14 +1,32 @@
+import { timingSafeEqual } from 'crypto';
 import { NextFunction, Request, Response } from 'express';
 import jwt from 'jsonwebtoken';
+import { Prisma } from '@prisma/client';
 
-import { env } from '../config/env';
+import { env, Env } from '../config/env';
+import { ApiKeyScope, isPermission, Permission, PERMISSIONS } from '../config/permissions';
+import { prisma } from '../config/prisma';
+import { isApiKey, recordApiKeyUse } from '../modules/auth/api-key-utils';
+import { hashToken } from '../modules/auth/session-utils';
+import { systemClock } from '../utils/clock';
 
 export type JwtUser = {
   id: string;
   email: string;
   role: 'USER' | 'ADMIN';
+  // Granted by the staff role, or every permission for admins
+  permissions: Permission[];
+  // Login session the access token was issued for
+  sessionId?: string;
+  // Set when the request authenticated with a personal API key instead of a login
+  apiKeyId?: string;
+  apiKeyScopes?: string[];
+  twoFactorEnabled?: boolean;
+  emailVerified?: boolean;
 };
 
+export type VerifiedEmailAction = Env['VERIFIED_EMAIL_REQUIRED_FOR'][number];
+
 declare global {
   namespace Express {
     interface Request {
@@ -17,29 +35,216 @@ declare global {
   }
 }
 
-export function authGuard(req: Request, res: Response, next: NextFunction) {
+const authUserSelect = {
+  id: true,
+  email: true,
+  role: true,
+  tokenVersion: true,
+  twoFactorEnabledAt: true,
+  emailVerified: true,
+  suspendedAt: true,
+  staffRole: { select: { permissions: true } },
+} satisfies Prisma.UserSelect;
+
+type AuthUser = Prisma.UserGetPayload<{ select: typeof authUserSelect }>;
+
+function toJwtUser(user: AuthUser): JwtUser {
+  return {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    permissions:
+      user.role === 'ADMIN'
+        ? [...PERMISSIONS]
+        : (user.staffRole?.permissions.filter(isPermission) ?? []),
+    twoFactorEnabled: !!user.twoFactorEnabledAt,
+    emailVerified: user.emailVerified,
+  };
+}
+
+/**
+ * Verify the bearer token, then load the user so that role changes, password changes and
+ * revoked sessions take effect immediately rather than when the token expires.
+ * Personal API keys are accepted in place of an access token.
+ */
+export async function authGuard(req: Request, res: Response, next: NextFunction) {
   const header = req.headers.authorization;
   if (!header) return res.status(401).json({ message: 'Missing Authorization header' });
   const [scheme, token] = header.split(' ');
   if (scheme !== 'Bearer' || !token)
     return res.status(401).json({ message: 'Invalid Authorization header' });
+
+  if (isApiKey(token)) return apiKeyGuard(token, req, res, next);
+
+  let decoded: { id: string; sid?: string; ver?: number };
   try {
-    const decoded = jwt.verify(token, env.JWT_ACCESS_SECRET) as JwtUser & {
-      iat: number;
-      exp: number;
-    };
-    req.user = { id: decoded.id, email: decoded.email, role: decoded.role };
-    next();
+    decoded = jwt.verify(token, env.JWT_ACCESS_SECRET) as typeof decoded;
   } catch {
     return res.status(401).json({ message: 'Invalid or expired token' });
   }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: decoded.id },
+      select: {
+        ...authUserSelect,
+        sessions: decoded.sid
+          ? { where: { id: decoded.sid }, select: { revokedAt: true } }
+          : undefined,
+      },
+    });
+    const session = decoded.sid ? user?.sessions?.[0] : undefined;
+    if (user?.suspendedAt) {
+      return res.status(403).json({ message: 'Account suspended', code: 'ACCOUNT_SUSPENDED' });
+    }
+    if (
+      !user ||
+      (decoded.ver ?? 0) !== user.tokenVersion ||
+      (decoded.sid && (!session || session.revokedAt))
+    ) {
+      return res.status(401).json({ message: 'Token has been revoked' });
+    }
+
+    // The role comes from the database, never from the token
+    req.user = { ...toJwtUser(user), sessionId: decoded.sid };
+  } catch (error) {
+    return next(error);
+  }
+  next();
+}
+
+/**
+ * Authenticate with a personal API key. The key only carries the permissions in its scopes
+ * that the owner still holds.
+ */
+async function apiKeyGuard(key: string, req: Request, res: Response, next: NextFunction) {
+  try {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: hashToken(key) },
+      include: { user: { select: authUserSelect } },
+    });
+    const now = systemClock();
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+      return res.status(401).json({ message: 'Invalid or expired API key' });
+    }
+    if (apiKey.user.suspendedAt) {
+      return res.status(403).json({ message: 'Account suspended', code: 'ACCOUNT_SUSPENDED' });
+    }
+
+    await recordApiKeyUse(apiKey.id, now);
+
+    const user = toJwtUser(apiKey.user);
+    req.user = {
+      ...user,
+      permissions: user.permissions.filter((permission) => apiKey.scopes.includes(permission)),
+      apiKeyId: apiKey.id,
+      apiKeyScopes: apiKey.scopes,
+    };
+  } catch (error) {
+    return next(error);
+  }
+  next();
 }
 
 export function requireRole(role: 'ADMIN' | 'USER') {
   return (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
-    if (role === 'ADMIN' && req.user.role !== 'ADMIN')
+    if (role === 'ADMIN' && (req.user.role !== 'ADMIN' || req.user.apiKeyId))
       return res.status(403).json({ message: 'Forbidden' });
+    if (role === 'ADMIN' && env.ADMIN_2FA_REQUIRED && !req.user.twoFactorEnabled) {
+      return res
+        .status(403)
+        .json({ message: 'Two-factor authentication is required for admin accounts' });
+    }
+    next();
+  };
+}
+
+export function hasPermission(user: JwtUser, permission: Permission) {
+  return user.permissions.includes(permission);
+}
+
+/**
+ * Allow admins and staff whose role grants `permission`. Staff accounts fall under the
+ * `ADMIN_2FA_REQUIRED` policy just like admins.
+ */
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+    if (!hasPermission(req.user, permission)) {
+      return res.status(403).json({ message: `Missing permission ${permission}` });
+    }
+    if (env.ADMIN_2FA_REQUIRED && !req.user.twoFactorEnabled) {
+      return res
+        .status(403)
+        .json({ message: 'Two-factor authentication is required for staff accounts' });
+    }
     next();
   };
 }
+
+/**
+ * Only let API keys in if they carry one of `scopes`; logins pass through. Customer routes
+ * require the `account` scope, so a key scoped to staff work cannot place orders or post
+ * reviews. A permission scope only counts while the owner still holds the permission.
+ */
+export function requireKeyScope(...scopes: ApiKeyScope[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+    if (!req.user.apiKeyId) return next();
+    const allowed = scopes.some((scope) =>
+      isPermission(scope)
+        ? hasPermission(req.user!, scope)
+        : !!req.user!.apiKeyScopes?.includes(scope),
+    );
+    if (!allowed) {
+      return res
+        .status(403)
+        .json({ message: `API key is missing the scope ${scopes.join(' or ')}` });
+    }
+    next();
+  };
+}
+
+/**
+ * Keep account security settings (email, passwords, sessions, two-factor, API keys) out of reach
+ * of API keys, so a leaked key cannot be used to take over the account
+ */
+export function rejectApiKeys(req: Request, res: Response, next: NextFunction) {
+  if (req.user?.apiKeyId) {
+    return res
+      .status(403)
+      .json({ message: 'This action requires logging in; API keys are not accepted' });
+  }
+  next();
+}
+
+/**
+ * Block unverified accounts from `action` when the `VERIFIED_EMAIL_REQUIRED_FOR` policy lists it.
+ * Responds with the `EMAIL_NOT_VERIFIED` code so clients can prompt for re-verification.
+ */
+export function requireVerifiedEmail(action: VerifiedEmailAction) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+    if (!env.VERIFIED_EMAIL_REQUIRED_FOR.includes(action) || req.user.emailVerified) return next();
+    return res.status(403).json({
+      message: 'Please verify your email address to continue',
+      code: 'EMAIL_NOT_VERIFIED',
+    });
+  };
+}
+
+/**
+ * Allow delivery partners to authenticate with the shared `X-Carrier-Key` header;
+ * anyone else needs an access token with the `orders:fulfil` permission
+ */
+export function carrierOrFulfiller(req: Request, res: Response, next: NextFunction) {
+  const key = req.headers['x-carrier-key'];
+  if (typeof key === 'string' && env.CARRIER_API_KEY) {
+    const expected = Buffer.from(env.CARRIER_API_KEY);
+    const provided = Buffer.from(key);
+    if (provided.length === expected.length && timingSafeEqual(provided, expected)) return next();
+    return res.status(401).json({ message: 'Invalid carrier key' });
+  }
+  return authGuard(req, res, () => requirePermission('orders:fulfil')(req, res, next));
+}
@@ -0,0 +1,33 @@
+import crypto from 'crypto';
+
+import { prisma } from '../../config/prisma';
+import { hashToken } from './session-utils';
+
+const API_KEY_PREFIX = 'ck_';
+// lastUsedAt is only rewritten once a minute so busy integrations don't write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function isApiKey(token: string) {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+/**
+ * Create a new random API key. Only the hash is stored; the prefix lets owners tell keys apart.
+ */
+export function generateApiKey() {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('hex')}`;
+  return { key, prefix: key.slice(0, API_KEY_PREFIX.length + 8), keyHash: hashToken(key) };
+}
+
+export async function recordApiKeyUse(id: string, now: Date) {
+  await prisma.apiKey.updateMany({
+    where: {
+      id,
+      OR: [
+        { lastUsedAt: null },
+        { lastUsedAt: { lt: new Date(now.getTime() - LAST_USED_RESOLUTION_MS) } },
+      ],
+    },
+    data: { lastUsedAt: now },
+  });
+}
@@ -2,7 +2,23 @@ import bcrypt from 'bcryptjs';
 import { Request, Response } from 'express';
 
 import { prisma } from '../../config/prisma';
-import { signAccessToken, signRefreshToken, verifyRefreshToken } from '../../utils/jwt';
+import {
+  clientInfo,
+  findSessionByRefreshToken,
+  revokeAllSessions,
+  revokeApiKeys,
+  revokeSession,
+  rotateRefreshToken,
+  startSession,
+} from './session-utils';
+import { createLoginChallenge } from './two-factor-utils';
+import {
+  clearFailedLogins,
+  isAccountLocked,
+  recordFailedLogin,
+  unlockAccount,
+  verifyPassword,
+} from './login-protection';
 
 export async function register(req: Request, res: Response) {
   const { email, password, name } = req.body as { email: string; password: string; name: string };
@@ -12,8 +28,7 @@ export async function register(req: Request, res: Response) {
   const passwordHash = await bcrypt.hash(password, 10);
   const user = await prisma.user.create({ data: { email, passwordHash, name, role: 'USER' } });
 
-  const accessToken = signAccessToken({ id: user.id, email: user.email, role: user.role });
-  const refreshToken = signRefreshToken({ id: user.id, email: user.email, role: user.role });
+  const { accessToken, refreshToken } = await startSession(user, clientInfo(req));
 
   return res.status(201).json({
     user: { id: user.id, email: user.email, name: user.name, role: user.role },
@@ -25,12 +40,28 @@ export async function register(req: Request, res: Response) {
 export async function login(req: Request, res: Response) {
   const { email, password } = req.body as { email: string; password: string };
   const user = await prisma.user.findUnique({ where: { email } });
-  if (!user) return res.status(401).json({ message: 'Invalid credentials' });
-  const ok = await bcrypt.compare(password, user.passwordHash);
-  if (!ok) return res.status(401).json({ message: 'Invalid credentials' });
+  const ok = await verifyPassword(user, password);
+  // A locked account gets the same answer as a wrong password; the owner was emailed an unlock link
+  if (!user || isAccountLocked(user))
+    return res.status(401).json({ message: 'Invalid credentials' });
+  if (!ok) {
+    // Recorded before answering so parallel guesses can't outrun the lockout; unknown emails
+    // already paid for a bcrypt comparison against a dummy hash in verifyPassword
+    await recordFailedLogin(user);
+    return res.status(401).json({ message: 'Invalid credentials' });
+  }
+  if (user.suspendedAt) {
+    return res.status(403).json({ message: 'Account suspended', code: 'ACCOUNT_SUSPENDED' });
+  }
+
+  if (user.twoFactorEnabledAt) {
+    // Failures are only cleared once the second factor is verified too
+    return res.json({ twoFactorRequired: true, challengeToken: createLoginChallenge(user) });
+  }
 
-  const accessToken = signAccessToken({ id: user.id, email: user.email, role: user.role });
-  const refreshToken = signRefreshToken({ id: user.id, email: user.email, role: user.role });
+  await clearFailedLogins(user);
+
+  const { accessToken, refreshToken } = await startSession(user, clientInfo(req));
 
   return res.json({
     user: { id: user.id, email: user.email, name: user.name, role: user.role },
@@ -53,24 +84,35 @@ export async function me(req: Request, res: Response) {
 
 export async function refresh(req: Request, res: Response) {
   const { refreshToken } = req.body as { refreshToken: string };
-  try {
-    const payload = verifyRefreshToken(refreshToken) as {
-      id: string;
-      email: string;
-      role: 'USER' | 'ADMIN';
-    };
-    const accessToken = signAccessToken({
-      id: payload.id,
-      email: payload.email,
-      role: payload.role,
-    });
-    const newRefreshToken = signRefreshToken({
-      id: payload.id,
-      email: payload.email,
-      role: payload.role,
-    });
-    return res.json({ accessToken, refreshToken: newRefreshToken });
-  } catch {
+  const result = await rotateRefreshToken(refreshToken, clientInfo(req));
+  if (!result.success) {
+    return res.status(result.status || 401).json({ message: result.error });
+  }
+  return res.json(result.tokens);
+}
+
+export async function logout(req: Request, res: Response) {
+  const { refreshToken } = req.body as { refreshToken: string };
+  const session = await findSessionByRefreshToken(refreshToken);
+  if (!session) {
     return res.status(401).json({ message: 'Invalid or expired refresh token' });
   }
+
+  await revokeSession(session.id);
+  return res.json({ message: 'Logged out successfully' });
+}
+
+export async function logoutAll(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const revoked = await revokeAllSessions(userId);
+  const revokedApiKeys = await revokeApiKeys(userId);
+  return res.json({ message: 'Logged out of all sessions', revoked, revokedApiKeys });
+}
+
+export async function unlock(req: Request, res: Response) {
+  const { token } = req.params as { token: string };
+  if (!(await unlockAccount(token))) {
+    return res.status(400).json({ message: 'Invalid or expired unlock token' });
+  }
+  return res.json({ message: 'Account unlocked. You can now log in.' });
 }
@@ -1,9 +1,11 @@
 import { Router } from 'express';
 
-import { authGuard } from '../../middleware/auth';
+import { authGuard, rejectApiKeys, requireKeyScope } from '../../middleware/auth';
 import { validate } from '../../middleware/validate';
-import { login, me, refresh, register } from './auth.controller';
+import { login, logout, logoutAll, me, refresh, register, unlock } from './auth.controller';
 import { loginSchema, refreshSchema, registerSchema } from './auth.schema';
+import { listOidcProviders, oidcCallback, startOidcLogin } from './oidc.controller';
+import { oidcCallbackQuerySchema } from './oidc.schema';
 import { forgotPassword, resetPassword } from './password-reset.controller';
 import { forgotPasswordSchema, resetPasswordSchema } from './password-reset.schema';
 import {
@@ -11,6 +13,18 @@ import {
   resendVerificationEmail,
   verifyEmail,
 } from './verification.controller';
+import {
+  completeTwoFactorLogin,
+  confirmTwoFactor,
+  disableTwoFactor,
+  enrollTwoFactor,
+  regenerateRecoveryCodes,
+} from './two-factor.controller';
+import {
+  confirmTwoFactorSchema,
+  disableTwoFactorSchema,
+  twoFactorLoginSchema,
+} from './two-factor.schema';
 
 export const authRouter = Router();
 
@@ -83,7 +97,9 @@ authRouter.post('/register', validate({ body: registerSchema }), register);
  *                 type: string
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: |
+ *           Login successful. Accounts with two-factor authentication instead receive
+ *           `twoFactorRequired` and a challenge token to complete at /auth/login/2fa.
  *         content:
  *           application/json:
  *             schema:
@@ -95,18 +111,206 @@ authRouter.post('/register', validate({ body: registerSchema }), register);
  *                   type: string
  *                 refreshToken:
  *                   type: string
+ *                 twoFactorRequired:
+ *                   type: boolean
+ *                 challengeToken:
+ *                   type: string
+ *                   description: Valid for 5 minutes
  *       401:
- *         description: Invalid credentials
+ *         description: Invalid credentials, or the account is temporarily locked
  *       400:
  *         $ref: '#/components/responses/ValidationError'
  */
 authRouter.post('/login', validate({ body: loginSchema }), login);
 
+/**
+ * @swagger
+ * /api/v1/auth/unlock/{token}:
+ *   get:
+ *     summary: Unlock an account
+ *     description: |
+ *       Accounts are locked after repeated failed password or two-factor attempts, for longer on
+ *       each repeat. The owner is emailed this link to unlock the account early.
+ *     tags: [Authentication]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Unlock token from the email
+ *     responses:
+ *       200:
+ *         description: Account unlocked
+ *       400:
+ *         description: Invalid or expired unlock token
+ */
+authRouter.get('/unlock/:token', unlock);
+
+/**
+ * @swagger
+ * /api/v1/auth/oidc/providers:
+ *   get:
+ *     summary: List the OpenID Connect providers users can sign in with
+ *     tags: [Authentication]
+ *     responses:
+ *       200:
+ *         description: Configured provider names
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 providers:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                     example: google
+ */
+authRouter.get('/oidc/providers', listOidcProviders);
+
+/**
+ * @swagger
+ * /api/v1/auth/oidc/{provider}:
+ *   get:
+ *     summary: Start signing in with an OpenID Connect provider
+ *     description: |
+ *       Redirects the browser to the provider using the authorization code flow with PKCE.
+ *       The provider then redirects back to `/api/v1/auth/oidc/{provider}/callback`. The request
+ *       state is also set in an HttpOnly `oidc_state` cookie that the callback must receive.
+ *     tags: [Authentication]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Provider name from OIDC_PROVIDERS
+ *     responses:
+ *       302:
+ *         description: Redirect to the provider's login page
+ *       404:
+ *         description: Unknown sign-in provider
+ *       502:
+ *         description: The provider's discovery document could not be loaded
+ */
+authRouter.get('/oidc/:provider', startOidcLogin);
+
+/**
+ * @swagger
+ * /api/v1/auth/oidc/{provider}/callback:
+ *   get:
+ *     summary: Finish signing in with an OpenID Connect provider
+ *     description: |
+ *       Redeems the authorization code and verifies the ID token signature against the
+ *       provider's published keys. A login already linked to an account signs in to it. An
+ *       existing account with the same email is linked only if the provider reports the email
+ *       as verified; otherwise a new account is created. When the request was started from
+ *       `POST /api/v1/profile/identities/{provider}`, the login is linked to that account instead.
+ *     tags: [Authentication]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: code
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: state
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: error
+ *         schema:
+ *           type: string
+ *         description: Set by the provider when sign-in was cancelled or failed
+ *     responses:
+ *       200:
+ *         description: |
+ *           Logged in (same body as `/auth/login`, including the two-factor challenge),
+ *           or provider linked
+ *       201:
+ *         description: New account created and logged in
+ *       400:
+ *         description: |
+ *           Unknown or expired state, a missing or different `oidc_state` cookie, or the
+ *           provider reported an error
+ *       401:
+ *         description: The ID token could not be verified
+ *       403:
+ *         description: Account suspended
+ *       404:
+ *         description: Unknown sign-in provider
+ *       409:
+ *         description: |
+ *           An account with this email exists but the provider did not verify the email
+ *           (`code: ACCOUNT_EXISTS`), or the login is already linked elsewhere
+ *       502:
+ *         description: The provider could not be reached
+ */
+authRouter.get(
+  '/oidc/:provider/callback',
+  validate({ query: oidcCallbackQuerySchema }),
+  oidcCallback,
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/login/2fa:
+ *   post:
+ *     summary: Complete a two-factor login
+ *     description: Exchange the challenge token from /auth/login and a TOTP or recovery code for tokens.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 pattern: '^\d{6}$'
+ *               recoveryCode:
+ *                 type: string
+ *                 description: Single-use; send instead of code
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 user:
+ *                   $ref: '#/components/schemas/User'
+ *                 accessToken:
+ *                   type: string
+ *                 refreshToken:
+ *                   type: string
+ *       401:
+ *         description: Invalid or expired challenge token, or invalid code
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+authRouter.post('/login/2fa', validate({ body: twoFactorLoginSchema }), completeTwoFactorLogin);
+
 /**
  * @swagger
  * /api/v1/auth/refresh:
  *   post:
  *     summary: Refresh access token
+ *     description: |
+ *       Refresh tokens are single use. Each call returns a new pair; presenting an already
+ *       used token revokes the whole session.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -138,6 +342,64 @@ authRouter.post('/login', validate({ body: loginSchema }), login);
  */
 authRouter.post('/refresh', validate({ body: refreshSchema }), refresh);
 
+/**
+ * @swagger
+ * /api/v1/auth/logout:
+ *   post:
+ *     summary: Log out of the session a refresh token belongs to
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       401:
+ *         description: Invalid or expired refresh token
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+authRouter.post('/logout', validate({ body: refreshSchema }), logout);
+
+/**
+ * @swagger
+ * /api/v1/auth/logout-all:
+ *   post:
+ *     summary: Log out of every session of the current user and revoke their API keys
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: All sessions revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 revoked:
+ *                   type: integer
+ *                   description: Number of sessions revoked
+ *                 revokedApiKeys:
+ *                   type: integer
+ *                   description: Number of API keys revoked
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Not available when authenticated with an API key
+ */
+authRouter.post('/logout-all', authGuard, rejectApiKeys, logoutAll);
+
 /**
  * @swagger
  * /api/v1/auth/me:
@@ -161,7 +423,7 @@ authRouter.post('/refresh', validate({ body: refreshSchema }), refresh);
  *       404:
  *         description: User not found
  */
-authRouter.get('/me', authGuard, me);
+authRouter.get('/me', authGuard, requireKeyScope('account'), me);
 
 /**
  * @swagger
@@ -187,7 +449,7 @@ authRouter.get('/me', authGuard, me);
  *       404:
  *         $ref: '#/components/responses/NotFound'
  */
-authRouter.post('/verify-email', authGuard, requestVerificationEmail);
+authRouter.post('/verify-email', authGuard, requireKeyScope('account'), requestVerificationEmail);
 
 /**
  * @swagger
@@ -240,7 +502,12 @@ authRouter.get('/verify-email/:token', verifyEmail);
  *       404:
  *         $ref: '#/components/responses/NotFound'
  */
-authRouter.post('/resend-verification', authGuard, resendVerificationEmail);
+authRouter.post(
+  '/resend-verification',
+  authGuard,
+  requireKeyScope('account'),
+  resendVerificationEmail,
+);
 
 /**
  * @swagger
@@ -300,7 +567,7 @@ authRouter.post('/forgot-password', validate({ body: forgotPasswordSchema }), fo
  *                 maxLength: 100
  *     responses:
  *       200:
- *         description: Password reset successfully
+ *         description: Password reset successfully; all existing sessions are signed out
  *         content:
  *           application/json:
  *             schema:
@@ -317,3 +584,193 @@ authRouter.post('/forgot-password', validate({ body: forgotPasswordSchema }), fo
  *                 message: { type: string, example: 'Invalid or expired reset token' }
  */
 authRouter.post('/reset-password/:token', validate({ body: resetPasswordSchema }), resetPassword);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/enroll:
+ *   post:
+ *     summary: Start two-factor enrollment
+ *     description: |
+ *       Generates a TOTP secret. Add it to an authenticator app (the otpauth URL can be shown as a
+ *       QR code), then confirm with a code to turn two-factor authentication on.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 secret:
+ *                   type: string
+ *                 otpauthUrl:
+ *                   type: string
+ *                   example: otpauth://totp/Cozzy:user%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Cozzy
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Not available when authenticated with an API key
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ */
+authRouter.post('/2fa/enroll', authGuard, rejectApiKeys, enrollTwoFactor);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/confirm:
+ *   post:
+ *     summary: Confirm two-factor enrollment
+ *     description: |
+ *       Enables two-factor authentication and returns single-use recovery codes, which are only
+ *       shown once. Other sessions are signed out and fresh tokens are issued for this one.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 pattern: '^\d{6}$'
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 recoveryCodes:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 accessToken:
+ *                   type: string
+ *                 refreshToken:
+ *                   type: string
+ *       400:
+ *         description: Invalid code or enrollment not started
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Not available when authenticated with an API key
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ */
+authRouter.post(
+  '/2fa/confirm',
+  authGuard,
+  rejectApiKeys,
+  validate({ body: confirmTwoFactorSchema }),
+  confirmTwoFactor,
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *             properties:
+ *               password:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled; other sessions are signed out and this one gets new tokens
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 accessToken:
+ *                   type: string
+ *                 refreshToken:
+ *                   type: string
+ *       400:
+ *         description: Two-factor authentication is not enabled
+ *       401:
+ *         description: Invalid password or two-factor code
+ *       403:
+ *         description: Not available when authenticated with an API key
+ */
+authRouter.post(
+  '/2fa/disable',
+  authGuard,
+  rejectApiKeys,
+  validate({ body: disableTwoFactorSchema }),
+  disableTwoFactor,
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Regenerate recovery codes
+ *     description: Replaces all existing recovery codes. The new codes are only shown once.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 recoveryCodes:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       400:
+ *         description: Two-factor authentication is not enabled
+ *       401:
+ *         description: Invalid two-factor code
+ *       403:
+ *         description: Not available when authenticated with an API key
+ */
+authRouter.post(
+  '/2fa/recovery-codes',
+  authGuard,
+  rejectApiKeys,
+  validate({ body: confirmTwoFactorSchema }),
+  regenerateRecoveryCodes,
+);
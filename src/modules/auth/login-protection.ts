@@ -0,0 +1,145 @@
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { Prisma, User } from '@prisma/client';
+
+import { env } from '../../config/env';
+import { prisma } from '../../config/prisma';
+import { systemClock } from '../../utils/clock';
+import { sendEmail } from '../../utils/email';
+import { hashToken } from './session-utils';
+
+const MAX_LOCKOUT_MINUTES = 24 * 60;
+const UNLOCK_TOKEN_TTL_HOURS = 24;
+const PASSWORD_RESET_WINDOW_MINUTES = 60;
+
+// Compared against when the email is unknown so both paths spend the same time in bcrypt
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync(crypto.randomBytes(16).toString('hex'), 10);
+
+/**
+ * Check a password without revealing whether the account exists: a missing user still
+ * costs a full bcrypt comparison
+ */
+export async function verifyPassword(user: User | null, password: string) {
+  const matches = await bcrypt.compare(password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+  return !!user && matches;
+}
+
+export function isAccountLocked(user: User) {
+  return !!user.lockedUntil && user.lockedUntil > systemClock();
+}
+
+/**
+ * Each lockout lasts twice as long as the previous one, capped at a day
+ */
+function lockoutMinutes(failedAttempts: number) {
+  const lockouts = Math.floor(failedAttempts / env.LOGIN_MAX_FAILED_ATTEMPTS);
+  return Math.min(env.LOGIN_LOCKOUT_MINUTES * 2 ** (lockouts - 1), MAX_LOCKOUT_MINUTES);
+}
+
+/**
+ * Count a failed password or two-factor attempt. Every `LOGIN_MAX_FAILED_ATTEMPTS` failures
+ * lock the account and email the owner a link to unlock it early.
+ */
+export async function recordFailedLogin(user: User) {
+  const now = systemClock();
+  let failedLoginAttempts: number;
+  try {
+    // Incremented in the database so concurrent guesses each get their own count and exactly one
+    // of them triggers the lock; attempts racing in after it has been set are not counted
+    ({ failedLoginAttempts } = await prisma.user.update({
+      where: { id: user.id, OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }] },
+      data: { failedLoginAttempts: { increment: 1 } },
+      select: { failedLoginAttempts: true },
+    }));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') return;
+    throw error;
+  }
+  if (failedLoginAttempts % env.LOGIN_MAX_FAILED_ATTEMPTS !== 0) return;
+
+  const unlockToken = crypto.randomBytes(32).toString('hex');
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      lockedUntil: new Date(now.getTime() + lockoutMinutes(failedLoginAttempts) * 60 * 1000),
+      unlockToken: hashToken(unlockToken),
+      unlockTokenExpires: new Date(now.getTime() + UNLOCK_TOKEN_TTL_HOURS * 60 * 60 * 1000),
+    },
+  });
+
+  // Not awaited: the response must not take longer just because this attempt caused a lockout
+  sendUnlockEmail(user.email, unlockToken).catch((error) =>
+    console.error('Failed to send account unlock email:', error),
+  );
+}
+
+export async function clearFailedLogins(user: User) {
+  if (user.failedLoginAttempts === 0 && !user.lockedUntil) return;
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      unlockToken: null,
+      unlockTokenExpires: null,
+    },
+  });
+}
+
+async function sendUnlockEmail(email: string, token: string) {
+  const unlockUrl = `${env.APP_URL || 'http://localhost:4000'}/api/v1/auth/unlock/${token}`;
+  await sendEmail({
+    to: email,
+    subject: 'Your account has been locked',
+    html: `
+      <h2>Your account has been locked</h2>
+      <p>We temporarily locked your account after several failed sign-in attempts.</p>
+      <p>If this was you, click the link below to unlock it now:</p>
+      <p><a href="${unlockUrl}">Unlock Account</a></p>
+      <p>This link will expire in ${UNLOCK_TOKEN_TTL_HOURS} hours.</p>
+      <p>If this wasn't you, someone may be trying to guess your password. Consider resetting it.</p>
+    `,
+    text: `Your account has been locked\n\nWe temporarily locked your account after several failed sign-in attempts. If this was you, unlock it here: ${unlockUrl}\n\nThis link will expire in ${UNLOCK_TOKEN_TTL_HOURS} hours.\n\nIf this wasn't you, someone may be trying to guess your password. Consider resetting it.`,
+  });
+}
+
+/**
+ * Unlock the account an emailed unlock token belongs to. Returns false if the token is unknown or expired.
+ */
+export async function unlockAccount(token: string) {
+  const { count } = await prisma.user.updateMany({
+    where: { unlockToken: hashToken(token), unlockTokenExpires: { gt: systemClock() } },
+    data: {
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      unlockToken: null,
+      unlockTokenExpires: null,
+    },
+  });
+  return count > 0;
+}
+
+/**
+ * Allow at most `PASSWORD_RESET_MAX_REQUESTS` reset emails per account per hour, so the
+ * endpoint cannot be used to flood someone's inbox
+ */
+export async function claimPasswordResetSlot(user: User) {
+  const now = systemClock();
+  const windowStart = user.passwordResetWindowStart;
+  if (
+    !windowStart ||
+    now.getTime() - windowStart.getTime() >= PASSWORD_RESET_WINDOW_MINUTES * 60 * 1000
+  ) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { passwordResetRequests: 1, passwordResetWindowStart: now },
+    });
+    return true;
+  }
+
+  const { count } = await prisma.user.updateMany({
+    where: { id: user.id, passwordResetRequests: { lt: env.PASSWORD_RESET_MAX_REQUESTS } },
+    data: { passwordResetRequests: { increment: 1 } },
+  });
+  return count > 0;
+}
@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+import { URL, URLSearchParams } from 'url';
+import jwt from 'jsonwebtoken';
+
+import { env, OidcProviderConfig } from '../../config/env';
+
+const METADATA_TTL_MS = 60 * 60 * 1000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'PS256'];
+
+export interface OidcMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+export interface IdTokenClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | 'true' | 'false';
+  name?: string;
+  nonce?: string;
+}
+
+interface Jwk extends crypto.JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+/**
+ * Sign-in failed at or because of the identity provider. 502 means the provider could not be
+ * used; 401 means it answered but the result could not be trusted.
+ */
+export class OidcError extends Error {
+  constructor(
+    message: string,
+    public status = 502,
+  ) {
+    super(message);
+  }
+}
+
+const metadataCache = new Map<string, { metadata: OidcMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: Jwk[]; fetchedAt: number }>();
+
+export function getOidcProvider(name: string): OidcProviderConfig | null {
+  return env.OIDC_PROVIDERS.find((provider) => provider.name === name) ?? null;
+}
+
+export function oidcRedirectUri(provider: OidcProviderConfig) {
+  return `${env.APP_URL || 'http://localhost:4000'}/api/v1/auth/oidc/${provider.name}/callback`;
+}
+
+async function fetchJson<T>(url: string, init?: Parameters<typeof fetch>[1]): Promise<T> {
+  let response: Awaited<ReturnType<typeof fetch>>;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    throw new OidcError(`Could not reach identity provider: ${(error as Error).message}`);
+  }
+  if (!response.ok) {
+    throw new OidcError(`Identity provider responded with ${response.status} for ${url}`);
+  }
+  return (await response.json()) as T;
+}
+
+/**
+ * Load the provider's discovery document, cached for an hour
+ */
+export async function discover(provider: OidcProviderConfig): Promise<OidcMetadata> {
+  const cached = metadataCache.get(provider.issuer);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS) return cached.metadata;
+
+  const issuer = provider.issuer.replace(/\/$/, '');
+  const metadata = await fetchJson<OidcMetadata>(`${issuer}/.well-known/openid-configuration`);
+  // The document must describe the issuer we were configured with, or ID tokens could be forged
+  if (metadata.issuer.replace(/\/$/, '') !== issuer) {
+    throw new OidcError(`Discovery document issuer ${metadata.issuer} does not match ${issuer}`);
+  }
+
+  metadataCache.set(provider.issuer, { metadata, fetchedAt: Date.now() });
+  return metadata;
+}
+
+/**
+ * Generate the per-login secrets: `state` ties the callback to this request, the PKCE
+ * verifier proves the code is redeemed by us, and the nonce ties the ID token to this login
+ */
+export function createAuthorizationSecrets() {
+  const codeVerifier = crypto.randomBytes(32).toString('base64url');
+  return {
+    state: crypto.randomBytes(32).toString('base64url'),
+    nonce: crypto.randomBytes(16).toString('base64url'),
+    codeVerifier,
+    codeChallenge: crypto.createHash('sha256').update(codeVerifier).digest('base64url'),
+  };
+}
+
+export async function buildAuthorizationUrl(
+  provider: OidcProviderConfig,
+  secrets: { state: string; nonce: string; codeChallenge: string },
+) {
+  const metadata = await discover(provider);
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: oidcRedirectUri(provider),
+    scope: provider.scopes.join(' '),
+    state: secrets.state,
+    nonce: secrets.nonce,
+    code_challenge: secrets.codeChallenge,
+    code_challenge_method: 'S256',
+  }).toString();
+  return url.toString();
+}
+
+/**
+ * Redeem an authorization code and return the verified ID token claims
+ */
+export async function exchangeCode(
+  provider: OidcProviderConfig,
+  code: string,
+  request: { codeVerifier: string; nonce: string },
+): Promise<IdTokenClaims> {
+  const metadata = await discover(provider);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: oidcRedirectUri(provider),
+    code_verifier: request.codeVerifier,
+    client_id: provider.clientId,
+  });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+  if (provider.clientSecret) {
+    const methods = metadata.token_endpoint_auth_methods_supported ?? ['client_secret_basic'];
+    if (methods.includes('client_secret_basic')) {
+      const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      body.set('client_secret', provider.clientSecret);
+    }
+  }
+
+  const tokens = await fetchJson<{ id_token?: string }>(metadata.token_endpoint, {
+    method: 'POST',
+    headers,
+    body: body.toString(),
+  });
+  if (!tokens.id_token) throw new OidcError('Identity provider did not return an ID token');
+
+  return verifyIdToken(provider, metadata, tokens.id_token, request.nonce);
+}
+
+async function loadSigningKeys(jwksUri: string, refresh: boolean) {
+  const cached = jwksCache.get(jwksUri);
+  if (!refresh && cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS) return cached.keys;
+
+  const { keys } = await fetchJson<{ keys: Jwk[] }>(jwksUri);
+  const signingKeys = keys.filter((key) => !key.use || key.use === 'sig');
+  jwksCache.set(jwksUri, { keys: signingKeys, fetchedAt: Date.now() });
+  return signingKeys;
+}
+
+async function findSigningKey(jwksUri: string, kid?: string) {
+  const match = (keys: Jwk[]) =>
+    kid ? keys.find((key) => key.kid === kid) : keys.length === 1 ? keys[0] : undefined;
+
+  // An unknown key ID usually means the provider rotated its keys since we cached them
+  const key =
+    match(await loadSigningKeys(jwksUri, false)) ?? match(await loadSigningKeys(jwksUri, true));
+  if (!key) throw new OidcError('ID token was signed with an unknown key', 401);
+  return crypto.createPublicKey({ key, format: 'jwk' });
+}
+
+async function verifyIdToken(
+  provider: OidcProviderConfig,
+  metadata: OidcMetadata,
+  idToken: string,
+  nonce: string,
+): Promise<IdTokenClaims> {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new OidcError('Identity provider returned a malformed ID token', 401);
+  }
+
+  const key = await findSigningKey(metadata.jwks_uri, decoded.header.kid);
+  let claims: jwt.JwtPayload & IdTokenClaims;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: metadata.issuer,
+      audience: provider.clientId,
+    }) as jwt.JwtPayload & IdTokenClaims;
+  } catch (error) {
+    throw new OidcError(`ID token verification failed: ${(error as Error).message}`, 401);
+  }
+
+  if (claims.nonce !== nonce) throw new OidcError('ID token nonce does not match', 401);
+  if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== provider.clientId) {
+    throw new OidcError('ID token was issued to a different client', 401);
+  }
+  if (!claims.sub) throw new OidcError('ID token has no subject', 401);
+
+  return claims;
+}
@@ -0,0 +1,248 @@
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { Prisma, User, UserIdentity } from '@prisma/client';
+
+import { env, OidcProviderConfig } from '../../config/env';
+import { prisma } from '../../config/prisma';
+import { systemClock } from '../../utils/clock';
+import { buildAuthorizationUrl, createAuthorizationSecrets, IdTokenClaims } from './oidc-client';
+import { hashToken } from './session-utils';
+
+const AUTH_REQUEST_TTL_MINUTES = 10;
+const STATE_COOKIE = 'oidc_state';
+// Covers the callback, which is the only route that reads the cookie
+const STATE_COOKIE_PATH = '/api/v1/auth/oidc';
+
+export interface OidcLoginResult {
+  success: boolean;
+  user?: User;
+  created?: boolean;
+  status?: number;
+  error?: string;
+  code?: string;
+}
+
+export interface LinkIdentityResult {
+  success: boolean;
+  identity?: UserIdentity;
+  status?: number;
+  error?: string;
+}
+
+function isEmailVerified(claims: IdTokenClaims) {
+  // Some providers send the claim as a string
+  return claims.email_verified === true || claims.email_verified === 'true';
+}
+
+function isUniqueViolation(error: unknown) {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * Remember the request's state in an HttpOnly cookie, so its callback only completes in the
+ * browser that started it and an attacker cannot complete their own sign-in in a victim's
+ * browser. SameSite=Lax still sends the cookie on the provider's redirect back.
+ */
+export function setStateCookie(res: Response, state: string) {
+  res.cookie(STATE_COOKIE, state, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: env.NODE_ENV === 'production',
+    path: STATE_COOKIE_PATH,
+    maxAge: AUTH_REQUEST_TTL_MINUTES * 60 * 1000,
+  });
+}
+
+/**
+ * Read and clear the state cookie set by `setStateCookie`
+ */
+export function takeStateCookie(req: Request, res: Response) {
+  res.clearCookie(STATE_COOKIE, { path: STATE_COOKIE_PATH });
+  for (const cookie of (req.headers.cookie ?? '').split(';')) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === STATE_COOKIE) return value.join('=');
+  }
+  return undefined;
+}
+
+/**
+ * Record a new authorization request and return the provider URL to send the user to, along
+ * with the state to bind to the browser. Pass `linkUserId` when a signed-in user is linking
+ * the provider to their account.
+ */
+export async function startAuthorization(provider: OidcProviderConfig, linkUserId?: string) {
+  const secrets = createAuthorizationSecrets();
+  const authorizationUrl = await buildAuthorizationUrl(provider, secrets);
+
+  const now = systemClock();
+  await prisma.oidcAuthRequest.deleteMany({ where: { expiresAt: { lt: now } } });
+  await prisma.oidcAuthRequest.create({
+    data: {
+      stateHash: hashToken(secrets.state),
+      provider: provider.name,
+      codeVerifier: secrets.codeVerifier,
+      nonce: secrets.nonce,
+      linkUserId,
+      expiresAt: new Date(now.getTime() + AUTH_REQUEST_TTL_MINUTES * 60 * 1000),
+    },
+  });
+
+  return { authorizationUrl, state: secrets.state };
+}
+
+/**
+ * Look up and delete the authorization request a callback's `state` belongs to, so each
+ * request can complete at most once. Returns null if it is unknown, expired, for another
+ * provider, or the state does not match the browser's state cookie.
+ */
+export async function consumeAuthorization(
+  providerName: string,
+  state: string,
+  cookieState: string | undefined,
+) {
+  // Compare hashes so the lengths match for timingSafeEqual
+  if (
+    !cookieState ||
+    !crypto.timingSafeEqual(Buffer.from(hashToken(state)), Buffer.from(hashToken(cookieState)))
+  ) {
+    return null;
+  }
+
+  const request = await prisma.oidcAuthRequest.findUnique({
+    where: { stateHash: hashToken(state) },
+  });
+  if (!request || request.provider !== providerName) return null;
+
+  const { count } = await prisma.oidcAuthRequest.deleteMany({ where: { id: request.id } });
+  if (count === 0 || request.expiresAt <= systemClock()) return null;
+  return request;
+}
+
+/**
+ * Resolve verified ID token claims to a user: an already linked identity signs straight in,
+ * an existing account is linked only when the provider vouches for the email address, and
+ * anyone else gets a new account.
+ */
+export async function findOrCreateOidcUser(
+  providerName: string,
+  claims: IdTokenClaims,
+): Promise<OidcLoginResult> {
+  const now = systemClock();
+  const identity = await prisma.userIdentity.findUnique({
+    where: { provider_subject: { provider: providerName, subject: claims.sub } },
+    include: { user: true },
+  });
+  if (identity) {
+    await prisma.userIdentity.update({ where: { id: identity.id }, data: { lastLoginAt: now } });
+    return { success: true, user: identity.user };
+  }
+
+  if (!claims.email) {
+    return {
+      success: false,
+      status: 400,
+      error: 'The identity provider did not share an email address',
+    };
+  }
+
+  const emailVerified = isEmailVerified(claims);
+  const existing = await prisma.user.findUnique({ where: { email: claims.email } });
+  if (existing) {
+    // Otherwise anyone who can register the address at the provider could take over the account
+    if (!emailVerified) {
+      return {
+        success: false,
+        status: 409,
+        error:
+          'An account with this email already exists. Log in with your password and link this provider from your profile.',
+        code: 'ACCOUNT_EXISTS',
+      };
+    }
+
+    try {
+      const user = await prisma.$transaction(async (tx) => {
+        await tx.userIdentity.create({
+          data: {
+            userId: existing.id,
+            provider: providerName,
+            subject: claims.sub,
+            email: claims.email,
+            lastLoginAt: now,
+          },
+        });
+        return tx.user.update({ where: { id: existing.id }, data: { emailVerified: true } });
+      });
+      return { success: true, user };
+    } catch (error) {
+      if (!isUniqueViolation(error)) throw error;
+      return {
+        success: false,
+        status: 409,
+        error: 'This account is already linked to a different login at this provider',
+      };
+    }
+  }
+
+  // Social-only accounts get a random password; the owner can set one via password reset
+  const passwordHash = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
+  try {
+    const user = await prisma.user.create({
+      data: {
+        email: claims.email,
+        name: claims.name?.trim() || claims.email.split('@')[0],
+        passwordHash,
+        role: 'USER',
+        emailVerified,
+        identities: {
+          create: {
+            provider: providerName,
+            subject: claims.sub,
+            email: claims.email,
+            lastLoginAt: now,
+          },
+        },
+      },
+    });
+    return { success: true, user, created: true };
+  } catch (error) {
+    if (!isUniqueViolation(error)) throw error;
+    return { success: false, status: 409, error: 'Sign-in is already in progress. Please retry.' };
+  }
+}
+
+/**
+ * Link a provider identity to a signed-in user
+ */
+export async function linkIdentity(
+  userId: string,
+  providerName: string,
+  claims: IdTokenClaims,
+): Promise<LinkIdentityResult> {
+  const existing = await prisma.userIdentity.findUnique({
+    where: { provider_subject: { provider: providerName, subject: claims.sub } },
+  });
+  if (existing) {
+    return existing.userId === userId
+      ? { success: true, identity: existing }
+      : {
+          success: false,
+          status: 409,
+          error: 'This login is already linked to another account',
+        };
+  }
+
+  try {
+    const identity = await prisma.userIdentity.create({
+      data: { userId, provider: providerName, subject: claims.sub, email: claims.email },
+    });
+    return { success: true, identity };
+  } catch (error) {
+    if (!isUniqueViolation(error)) throw error;
+    return {
+      success: false,
+      status: 409,
+      error: 'Your account is already linked to a different login at this provider',
+    };
+  }
+}
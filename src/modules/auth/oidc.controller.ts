@@ -0,0 +1,96 @@
+import { Request, Response } from 'express';
+
+import { env } from '../../config/env';
+import { exchangeCode, getOidcProvider, OidcError } from './oidc-client';
+import {
+  consumeAuthorization,
+  findOrCreateOidcUser,
+  linkIdentity,
+  setStateCookie,
+  startAuthorization,
+  takeStateCookie,
+} from './oidc-utils';
+import { OidcCallbackQuery } from './oidc.schema';
+import { clientInfo, startSession } from './session-utils';
+import { createLoginChallenge } from './two-factor-utils';
+
+export async function listOidcProviders(_req: Request, res: Response) {
+  return res.json({ providers: env.OIDC_PROVIDERS.map((provider) => provider.name) });
+}
+
+/**
+ * Redirect the browser to the provider's login page
+ */
+export async function startOidcLogin(req: Request, res: Response) {
+  const provider = getOidcProvider(req.params.provider);
+  if (!provider) return res.status(404).json({ message: 'Unknown sign-in provider' });
+
+  try {
+    const { authorizationUrl, state } = await startAuthorization(provider);
+    setStateCookie(res, state);
+    return res.redirect(302, authorizationUrl);
+  } catch (error) {
+    if (error instanceof OidcError)
+      return res.status(error.status).json({ message: error.message });
+    throw error;
+  }
+}
+
+/**
+ * The provider sends the browser back here with an authorization code. Logs the user in,
+ * or finishes linking the provider when the request was started from the profile.
+ */
+export async function oidcCallback(req: Request, res: Response) {
+  const provider = getOidcProvider(req.params.provider);
+  if (!provider) return res.status(404).json({ message: 'Unknown sign-in provider' });
+
+  const { code, state, error } = req.query as OidcCallbackQuery;
+  const authRequest = await consumeAuthorization(provider.name, state, takeStateCookie(req, res));
+  if (!authRequest) {
+    return res
+      .status(400)
+      .json({ message: 'Sign-in request is invalid or has expired. Please start again.' });
+  }
+  if (error || !code) {
+    return res
+      .status(400)
+      .json({ message: 'Sign-in was cancelled or rejected by the provider', error });
+  }
+
+  let claims;
+  try {
+    claims = await exchangeCode(provider, code, authRequest);
+  } catch (err) {
+    if (err instanceof OidcError) return res.status(err.status).json({ message: err.message });
+    throw err;
+  }
+
+  if (authRequest.linkUserId) {
+    const linked = await linkIdentity(authRequest.linkUserId, provider.name, claims);
+    if (!linked.success) {
+      return res.status(linked.status || 400).json({ message: linked.error });
+    }
+    return res.json({ message: 'Provider linked successfully', identity: linked.identity });
+  }
+
+  const result = await findOrCreateOidcUser(provider.name, claims);
+  if (!result.success) {
+    return res.status(result.status || 400).json({ message: result.error, code: result.code });
+  }
+
+  const user = result.user!;
+  if (user.suspendedAt) {
+    return res.status(403).json({ message: 'Account suspended', code: 'ACCOUNT_SUSPENDED' });
+  }
+  if (user.twoFactorEnabledAt) {
+    return res.json({ twoFactorRequired: true, challengeToken: createLoginChallenge(user) });
+  }
+
+  const { accessToken, refreshToken } = await startSession(user, clientInfo(req));
+
+  return res.status(result.created ? 201 : 200).json({
+    user: { id: user.id, email: user.email, name: user.name, role: user.role },
+    accessToken,
+    refreshToken,
+  });
+}
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const oidcCallbackQuerySchema = z.object({
+  code: z.string().min(1).max(2048).optional(),
+  state: z.string().min(1).max(256),
+  // Set by the provider instead of `code` when the user cancelled or sign-in failed
+  error: z.string().max(256).optional(),
+  error_description: z.string().max(1024).optional(),
+});
+
+export type OidcCallbackQuery = z.infer<typeof oidcCallbackQuerySchema>;
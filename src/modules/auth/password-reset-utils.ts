@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+
+import { env } from '../../config/env';
+import { prisma } from '../../config/prisma';
+import { sendEmail } from '../../utils/email';
+import { claimPasswordResetSlot } from './login-protection';
+
+/**
+ * Store a fresh one hour reset token for the user, replacing any previous one
+ */
+export async function createPasswordResetToken(userId: string) {
+  const resetToken = crypto.randomBytes(32).toString('hex');
+  const resetTokenExpires = new Date();
+  resetTokenExpires.setHours(resetTokenExpires.getHours() + 1); // 1 hour expiration
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      resetPasswordToken: resetToken,
+      resetPasswordExpires: resetTokenExpires,
+    },
+  });
+
+  return resetToken;
+}
+
+/**
+ * Email a reset link if the account exists and is within its hourly limit; otherwise do nothing
+ */
+export async function requestPasswordReset(email: string) {
+  const user = await prisma.user.findUnique({ where: { email } });
+  if (!user || !(await claimPasswordResetSlot(user))) return;
+
+  const resetToken = await createPasswordResetToken(user.id);
+  await sendPasswordResetEmail(user.email, resetToken);
+}
+
+export async function sendPasswordResetEmail(
+  email: string,
+  resetToken: string,
+  options: { requestedByAdmin?: boolean } = {},
+) {
+  const resetUrl = `${env.APP_URL || 'http://localhost:4000'}/api/v1/auth/reset-password/${resetToken}`;
+  const intro = options.requestedByAdmin
+    ? 'Our support team started a password reset for your account.'
+    : 'You requested to reset your password.';
+
+  await sendEmail({
+    to: email,
+    subject: 'Password Reset Request',
+    html: `
+      <h2>Password Reset Request</h2>
+      <p>${intro} Click the link below to reset it:</p>
+      <p><a href="${resetUrl}">Reset Password</a></p>
+      <p>This link will expire in 1 hour.</p>
+      <p>If you didn't request this, please ignore this email.</p>
+    `,
+    text: `Password Reset Request\n\n${intro}\n\nClick this link to reset your password: ${resetUrl}\n\nThis link will expire in 1 hour.\n\nIf you didn't request this, please ignore this email.`,
+  });
+}
@@ -0,0 +1,225 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import jwt from 'jsonwebtoken';
+import { Prisma, Role } from '@prisma/client';
+
+import { prisma } from '../../config/prisma';
+import { signAccessToken, signRefreshToken, verifyRefreshToken } from '../../utils/jwt';
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  role: Role;
+  tokenVersion: number;
+}
+
+export interface ClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface RotateResult {
+  success: boolean;
+  tokens?: AuthTokens;
+  status?: number;
+  error?: string;
+}
+
+class RefreshTokenReuseError extends Error {}
+
+const INVALID_REFRESH_TOKEN = 'Invalid or expired refresh token';
+const REFRESH_TOKEN_REUSED = 'Refresh token reuse detected. Please log in again.';
+
+export function hashToken(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function clientInfo(req: Request): ClientInfo {
+  return {
+    userAgent: req.headers['user-agent']?.slice(0, 255),
+    ipAddress: req.ip,
+  };
+}
+
+/**
+ * Sign an access/refresh token pair bound to a session. Only the refresh token's hash is stored.
+ */
+function signSessionTokens(user: SessionUser, sessionId: string) {
+  const refreshToken = signRefreshToken({
+    id: user.id,
+    sid: sessionId,
+    ver: user.tokenVersion,
+    jti: crypto.randomUUID(),
+  });
+  const { exp } = jwt.decode(refreshToken) as { exp: number };
+  const accessToken = signAccessToken({
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    sid: sessionId,
+    ver: user.tokenVersion,
+  });
+
+  return {
+    accessToken,
+    refreshToken,
+    tokenHash: hashToken(refreshToken),
+    expiresAt: new Date(exp * 1000),
+  };
+}
+
+/**
+ * Start a new device session for a user who just authenticated
+ */
+export async function startSession(user: SessionUser, client: ClientInfo): Promise<AuthTokens> {
+  const sessionId = crypto.randomUUID();
+  const { accessToken, refreshToken, tokenHash, expiresAt } = signSessionTokens(user, sessionId);
+
+  await prisma.authSession.create({
+    data: {
+      id: sessionId,
+      userId: user.id,
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+      expiresAt,
+      refreshTokens: { create: { tokenHash, expiresAt } },
+    },
+  });
+
+  return { accessToken, refreshToken };
+}
+
+/**
+ * Exchange a refresh token for a new pair. Each refresh token can be used once;
+ * presenting a used token again means it was copied, so the whole session is revoked.
+ */
+export async function rotateRefreshToken(token: string, client: ClientInfo): Promise<RotateResult> {
+  let payload: { id: string; ver?: number };
+  try {
+    payload = verifyRefreshToken(token) as { id: string; ver?: number };
+  } catch {
+    return { success: false, status: 401, error: INVALID_REFRESH_TOKEN };
+  }
+
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { session: { include: { user: true } } },
+  });
+  if (!stored || stored.session.revokedAt || stored.session.userId !== payload.id) {
+    return { success: false, status: 401, error: INVALID_REFRESH_TOKEN };
+  }
+
+  // Issued before a password or role change
+  if ((payload.ver ?? 0) !== stored.session.user.tokenVersion) {
+    await revokeSession(stored.sessionId);
+    return { success: false, status: 401, error: INVALID_REFRESH_TOKEN };
+  }
+
+  if (stored.usedAt) {
+    await revokeSession(stored.sessionId);
+    console.warn(`Refresh token reuse detected for session ${stored.sessionId}; session revoked`);
+    return { success: false, status: 401, error: REFRESH_TOKEN_REUSED };
+  }
+
+  const next = signSessionTokens(stored.session.user, stored.sessionId);
+  try {
+    await prisma.$transaction(async (tx) => {
+      // Only one request may consume the token, even if two arrive at once
+      const { count } = await tx.refreshToken.updateMany({
+        where: { id: stored.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+      if (count === 0) throw new RefreshTokenReuseError();
+
+      await tx.refreshToken.create({
+        data: { sessionId: stored.sessionId, tokenHash: next.tokenHash, expiresAt: next.expiresAt },
+      });
+      await tx.authSession.update({
+        where: { id: stored.sessionId },
+        data: {
+          lastUsedAt: new Date(),
+          expiresAt: next.expiresAt,
+          userAgent: client.userAgent,
+          ipAddress: client.ipAddress,
+        },
+      });
+    });
+  } catch (error) {
+    if (!(error instanceof RefreshTokenReuseError)) throw error;
+    await revokeSession(stored.sessionId);
+    return { success: false, status: 401, error: REFRESH_TOKEN_REUSED };
+  }
+
+  return {
+    success: true,
+    tokens: { accessToken: next.accessToken, refreshToken: next.refreshToken },
+  };
+}
+
+/**
+ * Find the session a refresh token belongs to, without consuming the token
+ */
+export async function findSessionByRefreshToken(token: string) {
+  try {
+    verifyRefreshToken(token);
+  } catch {
+    return null;
+  }
+
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { session: true },
+  });
+  return stored?.session ?? null;
+}
+
+export async function revokeSession(sessionId: string) {
+  const { count } = await prisma.authSession.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count > 0;
+}
+
+export async function revokeAllSessions(userId: string) {
+  const { count } = await prisma.authSession.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count;
+}
+
+/**
+ * Revoke every personal API key of a user, so a leaked key does not outlive a credential change
+ */
+export async function revokeApiKeys(userId: string, client: Prisma.TransactionClient = prisma) {
+  const { count } = await client.apiKey.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count;
+}
+
+/**
+ * Invalidate every access token, refresh token and API key issued to a user, e.g. after a
+ * password or role change. Pass a transaction client to make it atomic with the change itself.
+ */
+export async function invalidateUserTokens(
+  userId: string,
+  client: Prisma.TransactionClient = prisma,
+) {
+  await client.user.update({
+    where: { id: userId },
+    data: { tokenVersion: { increment: 1 } },
+  });
+  await client.authSession.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  await revokeApiKeys(userId, client);
+}
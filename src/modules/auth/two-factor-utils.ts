@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import { Prisma, User } from '@prisma/client';
+
+import { prisma } from '../../config/prisma';
+import { systemClock } from '../../utils/clock';
+import { signTwoFactorChallenge, verifyTwoFactorChallenge } from '../../utils/jwt';
+import { verifyTotp } from '../../utils/totp';
+import { hashToken } from './session-utils';
+
+const RECOVERY_CODE_COUNT = 10;
+
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+// Codes are shown as `xxxxx-xxxxx`; accept them with or without the dash and in any case
+function normalizeRecoveryCode(code: string) {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+}
+
+/**
+ * Replace a user's recovery codes with a fresh set. Only hashes are stored, so the
+ * returned plaintext codes must be shown to the user now.
+ */
+export async function replaceRecoveryCodes(tx: Prisma.TransactionClient, userId: string) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  await tx.recoveryCode.deleteMany({ where: { userId } });
+  await tx.recoveryCode.createMany({
+    data: codes.map((code) => ({ userId, codeHash: hashToken(normalizeRecoveryCode(code)) })),
+  });
+
+  return codes;
+}
+
+/**
+ * Accept a TOTP code for the given secret at most once. The conditional update on the last
+ * used time step stops the same code (or an older one) being replayed, even concurrently.
+ */
+export async function consumeTotpCode(userId: string, secret: string, code: string) {
+  const step = verifyTotp(secret, code, systemClock());
+  if (step === null) return false;
+
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: userId,
+      OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+    },
+    data: { twoFactorLastStep: step },
+  });
+  return count > 0;
+}
+
+async function consumeRecoveryCode(userId: string, code: string) {
+  const { count } = await prisma.recoveryCode.updateMany({
+    where: { userId, codeHash: hashToken(normalizeRecoveryCode(code)), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Check the second factor of a user with 2FA enabled: either a TOTP code or an unused recovery code
+ */
+export async function verifySecondFactor(user: User, factor: SecondFactor) {
+  if (!user.twoFactorEnabledAt || !user.twoFactorSecret) return false;
+  if (factor.code) return consumeTotpCode(user.id, user.twoFactorSecret, factor.code);
+  if (factor.recoveryCode) return consumeRecoveryCode(user.id, factor.recoveryCode);
+  return false;
+}
+
+/**
+ * Short-lived token proving the password step of a two-step login succeeded
+ */
+export function createLoginChallenge(user: User) {
+  return signTwoFactorChallenge({ id: user.id, ver: user.tokenVersion });
+}
+
+/**
+ * Resolve a login challenge back to its user, or null if it expired or the user's
+ * credentials changed since it was issued
+ */
+export async function resolveLoginChallenge(challengeToken: string) {
+  let payload: { id: string; ver?: number };
+  try {
+    payload = verifyTwoFactorChallenge(challengeToken) as { id: string; ver?: number };
+  } catch {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: payload.id } });
+  if (!user || user.tokenVersion !== payload.ver || !user.twoFactorEnabledAt) return null;
+  return user;
+}
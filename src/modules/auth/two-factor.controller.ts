@@ -0,0 +1,156 @@
+import bcrypt from 'bcryptjs';
+import { Request, Response } from 'express';
+
+import { env } from '../../config/env';
+import { prisma } from '../../config/prisma';
+import { generateTotpSecret, totpUri } from '../../utils/totp';
+import { clearFailedLogins, isAccountLocked, recordFailedLogin } from './login-protection';
+import { clientInfo, invalidateUserTokens, startSession } from './session-utils';
+import {
+  consumeTotpCode,
+  replaceRecoveryCodes,
+  resolveLoginChallenge,
+  verifySecondFactor,
+} from './two-factor-utils';
+import {
+  ConfirmTwoFactorInput,
+  DisableTwoFactorInput,
+  TwoFactorLoginInput,
+} from './two-factor.schema';
+
+export async function enrollTwoFactor(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) return res.status(404).json({ message: 'User not found' });
+  if (user.twoFactorEnabledAt) {
+    return res.status(409).json({ message: 'Two-factor authentication is already enabled' });
+  }
+
+  // Starting again replaces any unconfirmed secret
+  const secret = generateTotpSecret();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorSecret: secret, twoFactorLastStep: null },
+  });
+
+  return res.json({
+    secret,
+    otpauthUrl: totpUri(secret, user.email, env.TWO_FACTOR_ISSUER),
+  });
+}
+
+export async function confirmTwoFactor(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const { code } = req.body as ConfirmTwoFactorInput;
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) return res.status(404).json({ message: 'User not found' });
+  if (user.twoFactorEnabledAt) {
+    return res.status(409).json({ message: 'Two-factor authentication is already enabled' });
+  }
+  if (!user.twoFactorSecret) {
+    return res.status(400).json({ message: 'Start two-factor enrollment first' });
+  }
+
+  if (!(await consumeTotpCode(userId, user.twoFactorSecret, code))) {
+    return res.status(400).json({ message: 'Invalid two-factor code' });
+  }
+
+  // Sessions signed in with only a password are ended; this device gets a fresh session
+  const { updated, recoveryCodes } = await prisma.$transaction(async (tx) => {
+    await invalidateUserTokens(userId, tx);
+    const recoveryCodes = await replaceRecoveryCodes(tx, userId);
+    const updated = await tx.user.update({
+      where: { id: userId },
+      data: { twoFactorEnabledAt: new Date() },
+    });
+    return { updated, recoveryCodes };
+  });
+
+  const { accessToken, refreshToken } = await startSession(updated, clientInfo(req));
+
+  return res.json({
+    message: 'Two-factor authentication enabled',
+    recoveryCodes,
+    accessToken,
+    refreshToken,
+  });
+}
+
+export async function disableTwoFactor(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const { password, code, recoveryCode } = req.body as DisableTwoFactorInput;
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) return res.status(404).json({ message: 'User not found' });
+  if (!user.twoFactorEnabledAt) {
+    return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+  }
+
+  const passwordOk = await bcrypt.compare(password, user.passwordHash);
+  if (!passwordOk || !(await verifySecondFactor(user, { code, recoveryCode }))) {
+    return res.status(401).json({ message: 'Invalid password or two-factor code' });
+  }
+
+  // Sign out every other device, as after a password change; this one gets a fresh session
+  const updated = await prisma.$transaction(async (tx) => {
+    await invalidateUserTokens(userId, tx);
+    await tx.recoveryCode.deleteMany({ where: { userId } });
+    return tx.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastStep: null },
+    });
+  });
+
+  const { accessToken, refreshToken } = await startSession(updated, clientInfo(req));
+
+  return res.json({ message: 'Two-factor authentication disabled', accessToken, refreshToken });
+}
+
+export async function regenerateRecoveryCodes(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const { code } = req.body as ConfirmTwoFactorInput;
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) return res.status(404).json({ message: 'User not found' });
+  if (!user.twoFactorEnabledAt) {
+    return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+  }
+
+  if (!(await verifySecondFactor(user, { code }))) {
+    return res.status(401).json({ message: 'Invalid two-factor code' });
+  }
+
+  const recoveryCodes = await prisma.$transaction((tx) => replaceRecoveryCodes(tx, userId));
+  return res.json({ recoveryCodes });
+}
+
+/**
+ * Second step of login for accounts with 2FA: trade the challenge token and a code for JWTs
+ */
+export async function completeTwoFactorLogin(req: Request, res: Response) {
+  const { challengeToken, code, recoveryCode } = req.body as TwoFactorLoginInput;
+
+  const user = await resolveLoginChallenge(challengeToken);
+  if (!user || isAccountLocked(user)) {
+    return res.status(401).json({ message: 'Invalid or expired challenge token' });
+  }
+  if (user.suspendedAt) {
+    return res.status(403).json({ message: 'Account suspended', code: 'ACCOUNT_SUSPENDED' });
+  }
+  if (!(await verifySecondFactor(user, { code, recoveryCode }))) {
+    // Guessed codes count towards the same lockout as guessed passwords
+    await recordFailedLogin(user);
+    return res.status(401).json({ message: 'Invalid two-factor code' });
+  }
+
+  await clearFailedLogins(user);
+
+  const { accessToken, refreshToken } = await startSession(user, clientInfo(req));
+
+  return res.json({
+    user: { id: user.id, email: user.email, name: user.name, role: user.role },
+    accessToken,
+    refreshToken,
+  });
+}
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+const totpCode = z.string().regex(/^\d{6}$/, 'Code must be 6 digits');
+
+const secondFactor = z.object({
+  code: totpCode.optional(),
+  recoveryCode: z.string().min(1).max(20).optional(),
+});
+
+const requireOneFactor = (data: z.infer<typeof secondFactor>) =>
+  data.code !== undefined || data.recoveryCode !== undefined;
+const requireOneFactorMessage = { message: 'Either code or recoveryCode must be provided' };
+
+export const confirmTwoFactorSchema = z.object({
+  code: totpCode,
+});
+
+export const disableTwoFactorSchema = secondFactor
+  .extend({ password: z.string().min(1) })
+  .refine(requireOneFactor, requireOneFactorMessage);
+
+export const twoFactorLoginSchema = secondFactor
+  .extend({ challengeToken: z.string().min(1) })
+  .refine(requireOneFactor, requireOneFactorMessage);
+
+export type ConfirmTwoFactorInput = z.infer<typeof confirmTwoFactorSchema>;
+export type DisableTwoFactorInput = z.infer<typeof disableTwoFactorSchema>;
+export type TwoFactorLoginInput = z.infer<typeof twoFactorLoginSchema>;
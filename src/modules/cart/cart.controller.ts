@@ -1,7 +1,9 @@
 import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 
 import { prisma } from '../../config/prisma';
-import { AddToCartInput, UpdateCartItemInput } from './cart.schema';
+import { placeOrder } from '../orders/order-utils';
+import { AddToCartInput, CheckoutCartInput, UpdateCartItemInput } from './cart.schema';
 
 /**
  * Get or create user's cart
@@ -17,6 +19,7 @@ async function getOrCreateCart(userId: string) {
               category: true,
             },
           },
+          variant: true,
         },
       },
     },
@@ -35,6 +38,7 @@ async function getOrCreateCart(userId: string) {
                 category: true,
               },
             },
+            variant: true,
           },
         },
       },
@@ -53,9 +57,10 @@ export async function getCart(req: Request, res: Response) {
 
   const cart = await getOrCreateCart(userId);
 
-  // Calculate totals
+  // Calculate totals (variant price overrides product price)
   const totalCents = cart.items.reduce((sum, item) => {
-    return sum + item.product.priceCents * item.quantity;
+    const unitPriceCents = item.variant?.priceCents ?? item.product.priceCents;
+    return sum + unitPriceCents * item.quantity;
   }, 0);
 
   const itemsCount = cart.items.reduce((sum, item) => sum + item.quantity, 0);
@@ -75,7 +80,7 @@ export async function getCart(req: Request, res: Response) {
  */
 export async function addToCart(req: Request, res: Response) {
   const userId = req.user!.id;
-  const { productId, quantity } = req.body as AddToCartInput;
+  const { productId, variantId, quantity } = req.body as AddToCartInput;
 
   // Verify product exists and is active
   const product = await prisma.product.findUnique({
@@ -90,10 +95,20 @@ export async function addToCart(req: Request, res: Response) {
     return res.status(400).json({ message: 'Product is not available' });
   }
 
-  // Check stock availability
-  if (product.stock < quantity) {
+  // Verify variant belongs to the product
+  let variant = null;
+  if (variantId) {
+    variant = await prisma.productVariant.findUnique({ where: { id: variantId } });
+    if (!variant || variant.productId !== productId) {
+      return res.status(404).json({ message: 'Variant not found' });
+    }
+  }
+
+  // Check stock availability (variants track their own stock)
+  const availableStock = variant ? variant.stock : product.stock;
+  if (availableStock < quantity) {
     return res.status(400).json({
-      message: `Insufficient stock. Available: ${product.stock}, Requested: ${quantity}`,
+      message: `Insufficient stock. Available: ${availableStock}, Requested: ${quantity}`,
     });
   }
 
@@ -101,12 +116,11 @@ export async function addToCart(req: Request, res: Response) {
   const cart = await getOrCreateCart(userId);
 
   // Check if item already exists in cart
-  const existingItem = await prisma.cartItem.findUnique({
+  const existingItem = await prisma.cartItem.findFirst({
     where: {
-      cartId_productId: {
-        cartId: cart.id,
-        productId,
-      },
+      cartId: cart.id,
+      productId,
+      variantId: variantId ?? null,
     },
   });
 
@@ -115,9 +129,9 @@ export async function addToCart(req: Request, res: Response) {
     const newQuantity = existingItem.quantity + quantity;
 
     // Check stock again with new quantity
-    if (product.stock < newQuantity) {
+    if (availableStock < newQuantity) {
       return res.status(400).json({
-        message: `Insufficient stock. Available: ${product.stock}, Requested: ${newQuantity}`,
+        message: `Insufficient stock. Available: ${availableStock}, Requested: ${newQuantity}`,
       });
     }
 
@@ -130,6 +144,7 @@ export async function addToCart(req: Request, res: Response) {
             category: true,
           },
         },
+        variant: true,
       },
     });
 
@@ -137,20 +152,33 @@ export async function addToCart(req: Request, res: Response) {
   }
 
   // Create new cart item
-  const cartItem = await prisma.cartItem.create({
-    data: {
-      cartId: cart.id,
-      productId,
-      quantity,
-    },
-    include: {
-      product: {
-        include: {
-          category: true,
+  let cartItem;
+  try {
+    cartItem = await prisma.cartItem.create({
+      data: {
+        cartId: cart.id,
+        productId,
+        variantId: variantId ?? null,
+        quantity,
+      },
+      include: {
+        product: {
+          include: {
+            category: true,
+          },
         },
+        variant: true,
       },
-    },
-  });
+    });
+  } catch (error) {
+    // A concurrent request added the same line first; retrying adds to that line
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res
+        .status(409)
+        .json({ message: 'This item was just added to your cart. Please try again.' });
+    }
+    throw error;
+  }
 
   res.status(201).json({ item: cartItem });
 }
@@ -181,6 +209,7 @@ export async function updateCartItem(req: Request, res: Response) {
     where: { id: itemId },
     include: {
       product: true,
+      variant: true,
     },
   });
 
@@ -194,9 +223,10 @@ export async function updateCartItem(req: Request, res: Response) {
   }
 
   // Check stock availability
-  if (cartItem.product.stock < quantity) {
+  const availableStock = cartItem.variant ? cartItem.variant.stock : cartItem.product.stock;
+  if (availableStock < quantity) {
     return res.status(400).json({
-      message: `Insufficient stock. Available: ${cartItem.product.stock}, Requested: ${quantity}`,
+      message: `Insufficient stock. Available: ${availableStock}, Requested: ${quantity}`,
     });
   }
 
@@ -210,6 +240,7 @@ export async function updateCartItem(req: Request, res: Response) {
           category: true,
         },
       },
+      variant: true,
     },
   });
 
@@ -273,3 +304,36 @@ export async function clearCart(req: Request, res: Response) {
 
   res.status(204).send();
 }
+
+/**
+ * Turn the cart into a PENDING order and empty the cart
+ * POST /api/v1/cart/checkout
+ */
+export async function checkoutCart(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const { currency, couponCode } = req.body as Partial<CheckoutCartInput>;
+
+  const cart = await prisma.cart.findUnique({
+    where: { userId },
+    include: { items: true },
+  });
+
+  if (!cart || cart.items.length === 0) {
+    return res.status(400).json({ message: 'Cart is empty' });
+  }
+
+  const result = await placeOrder(
+    userId,
+    cart.items.map((item) => ({
+      productId: item.productId,
+      variantId: item.variantId ?? undefined,
+      quantity: item.quantity,
+    })),
+    { currency, couponCode, cartId: cart.id },
+  );
+  if (!result.success) {
+    return res.status(result.status || 400).json({ message: result.error });
+  }
+
+  res.status(201).json({ order: result.order });
+}
@@ -1,14 +1,21 @@
 import { Router } from 'express';
 
-import { authGuard } from '../../middleware/auth';
+import { authGuard, requireKeyScope, requireVerifiedEmail } from '../../middleware/auth';
 import { validate } from '../../middleware/validate';
-import { addToCartSchema, updateCartItemSchema } from './cart.schema';
-import { addToCart, clearCart, getCart, removeCartItem, updateCartItem } from './cart.controller';
+import { addToCartSchema, checkoutCartSchema, updateCartItemSchema } from './cart.schema';
+import {
+  addToCart,
+  checkoutCart,
+  clearCart,
+  getCart,
+  removeCartItem,
+  updateCartItem,
+} from './cart.controller';
 
 export const cartRouter = Router();
 
 // All cart routes require authentication
-cartRouter.use(authGuard);
+cartRouter.use(authGuard, requireKeyScope('account'));
 
 /**
  * @swagger
@@ -80,6 +87,10 @@ cartRouter.get('/', getCart);
  *                 type: string
  *                 format: uuid
  *                 description: Product ID to add to cart
+ *               variantId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Optional variant of the product (e.g. "Size: Large")
  *               quantity:
  *                 type: integer
  *                 minimum: 1
@@ -104,7 +115,13 @@ cartRouter.get('/', getCart);
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       404:
- *         description: Product not found
+ *         description: Product or variant not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The same item was added by a concurrent request; retry to add to it
  *         content:
  *           application/json:
  *             schema:
@@ -112,6 +129,60 @@ cartRouter.get('/', getCart);
  */
 cartRouter.post('/', validate({ body: addToCartSchema }), addToCart);
 
+/**
+ * @swagger
+ * /api/v1/cart/checkout:
+ *   post:
+ *     summary: Checkout cart
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Creates a PENDING order from the items in the user's cart and empties the cart in the same transaction.
+ *       The returned order can be passed to `POST /api/v1/payments/checkout`.
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               currency:
+ *                 type: string
+ *                 default: USD
+ *               couponCode:
+ *                 type: string
+ *                 description: Optional coupon code to apply
+ *     responses:
+ *       201:
+ *         description: Order created from cart
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 order:
+ *                   $ref: '#/components/schemas/Order'
+ *       400:
+ *         description: Bad request (empty cart, insufficient stock, invalid coupon, etc.)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/EmailNotVerified'
+ *       409:
+ *         description: Stock or coupon was claimed by a concurrent order
+ */
+cartRouter.post(
+  '/checkout',
+  requireVerifiedEmail('orders'),
+  validate({ body: checkoutCartSchema }),
+  checkoutCart,
+);
+
 /**
  * @swagger
  * /api/v1/cart/{itemId}:
@@ -2,6 +2,7 @@ import { z } from 'zod';
 
 export const addToCartSchema = z.object({
   productId: z.string().uuid('Product ID must be a valid UUID'),
+  variantId: z.string().uuid('Variant ID must be a valid UUID').optional(),
   quantity: z
     .number()
     .int()
@@ -17,5 +18,11 @@ export const updateCartItemSchema = z.object({
     .max(100, 'Quantity cannot exceed 100'),
 });
 
+export const checkoutCartSchema = z.object({
+  currency: z.string().default('USD'),
+  couponCode: z.string().optional(),
+});
+
 export type AddToCartInput = z.infer<typeof addToCartSchema>;
 export type UpdateCartItemInput = z.infer<typeof updateCartItemSchema>;
+export type CheckoutCartInput = z.infer<typeof checkoutCartSchema>;
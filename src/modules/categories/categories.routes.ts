@@ -1,6 +1,6 @@
 import { Router } from 'express';
 
-import { authGuard, requireRole } from '../../middleware/auth';
+import { authGuard, requirePermission } from '../../middleware/auth';
 import { validate } from '../../middleware/validate';
 import { createCategorySchema, updateCategorySchema } from './categories.schema';
 import {
@@ -66,7 +66,7 @@ categoriesRouter.get('/:slug', getCategoryBySlug);
  * @swagger
  * /api/v1/categories:
  *   post:
- *     summary: Create a new category (Admin only)
+ *     summary: Create a new category (requires catalog:write)
  *     tags: [Categories]
  *     security:
  *       - bearerAuth: []
@@ -96,14 +96,14 @@ categoriesRouter.get('/:slug', getCategoryBySlug);
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
- *         description: Forbidden (Admin only)
+ *         description: Forbidden (requires catalog:write)
  *       409:
  *         description: Category name already exists
  */
 categoriesRouter.post(
   '/',
   authGuard,
-  requireRole('ADMIN'),
+  requirePermission('catalog:write'),
   validate({ body: createCategorySchema }),
   createCategory,
 );
@@ -112,7 +112,7 @@ categoriesRouter.post(
  * @swagger
  * /api/v1/categories/{id}:
  *   patch:
- *     summary: Update a category (Admin only)
+ *     summary: Update a category (requires catalog:write)
  *     tags: [Categories]
  *     security:
  *       - bearerAuth: []
@@ -148,14 +148,14 @@ categoriesRouter.post(
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
- *         description: Forbidden (Admin only)
+ *         description: Forbidden (requires catalog:write)
  *       404:
  *         $ref: '#/components/responses/NotFound'
  */
 categoriesRouter.patch(
   '/:id',
   authGuard,
-  requireRole('ADMIN'),
+  requirePermission('catalog:write'),
   validate({ body: updateCategorySchema }),
   updateCategory,
 );
@@ -164,7 +164,7 @@ categoriesRouter.patch(
  * @swagger
  * /api/v1/categories/{id}:
  *   delete:
- *     summary: Delete a category (Admin only)
+ *     summary: Delete a category (requires catalog:write)
  *     tags: [Categories]
  *     security:
  *       - bearerAuth: []
@@ -182,8 +182,8 @@ categoriesRouter.patch(
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
- *         description: Forbidden (Admin only)
+ *         description: Forbidden (requires catalog:write)
  *       404:
  *         $ref: '#/components/responses/NotFound'
  */
-categoriesRouter.delete('/:id', authGuard, requireRole('ADMIN'), deleteCategory);
+categoriesRouter.delete('/:id', authGuard, requirePermission('catalog:write'), deleteCategory);
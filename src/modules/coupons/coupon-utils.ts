@@ -1,4 +1,4 @@
-import { DiscountType } from '@prisma/client';
+import { DiscountType, Prisma } from '@prisma/client';
 
 import { prisma } from '../../config/prisma';
 
@@ -80,3 +80,31 @@ export async function validateAndCalculateCoupon(
     },
   };
 }
+
+/**
+ * Atomically count one use of a coupon inside a transaction.
+ * Returns false when the usage limit was reached by a concurrent order.
+ */
+export async function reserveCouponUsage(
+  tx: Prisma.TransactionClient,
+  code: string,
+): Promise<boolean> {
+  const { count } = await tx.coupon.updateMany({
+    where: {
+      code,
+      OR: [{ usageLimit: null }, { usageCount: { lt: prisma.coupon.fields.usageLimit } }],
+    },
+    data: { usageCount: { increment: 1 } },
+  });
+  return count === 1;
+}
+
+/**
+ * Give back one use of a coupon, e.g. when the order that consumed it is cancelled
+ */
+export async function releaseCouponUsage(tx: Prisma.TransactionClient, code: string) {
+  await tx.coupon.updateMany({
+    where: { code, usageCount: { gt: 0 } },
+    data: { usageCount: { decrement: 1 } },
+  });
+}
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 
-import { authGuard, requireRole } from '../../middleware/auth';
+import { authGuard, requirePermission } from '../../middleware/auth';
 import { validate } from '../../middleware/validate';
 import {
   createCoupon,
@@ -17,7 +17,7 @@ export const couponsRouter = Router();
  * @swagger
  * /api/v1/coupons:
  *   get:
- *     summary: List all coupons (Admin only)
+ *     summary: List all coupons (requires coupons:manage)
  *     tags: [Coupons]
  *     security:
  *       - bearerAuth: []
@@ -36,15 +36,15 @@ export const couponsRouter = Router();
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
- *         description: Forbidden (Admin only)
+ *         description: Forbidden (requires coupons:manage)
  */
-couponsRouter.get('/', authGuard, requireRole('ADMIN'), listCoupons);
+couponsRouter.get('/', authGuard, requirePermission('coupons:manage'), listCoupons);
 
 /**
  * @swagger
  * /api/v1/coupons:
  *   post:
- *     summary: Create coupon (Admin only)
+ *     summary: Create coupon (requires coupons:manage)
  *     tags: [Coupons]
  *     security:
  *       - bearerAuth: []
@@ -69,14 +69,14 @@ couponsRouter.get('/', authGuard, requireRole('ADMIN'), listCoupons);
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
- *         description: Forbidden (Admin only)
+ *         description: Forbidden (requires coupons:manage)
  *       409:
  *         description: Coupon code already exists
  */
 couponsRouter.post(
   '/',
   authGuard,
-  requireRole('ADMIN'),
+  requirePermission('coupons:manage'),
   validate({ body: createCouponSchema }),
   createCoupon,
 );
@@ -130,7 +130,7 @@ couponsRouter.post('/validate', validate({ body: validateCouponSchema }), valida
  * @swagger
  * /api/v1/coupons/{id}:
  *   patch:
- *     summary: Update coupon (Admin only)
+ *     summary: Update coupon (requires coupons:manage)
  *     tags: [Coupons]
  *     security:
  *       - bearerAuth: []
@@ -163,7 +163,7 @@ couponsRouter.post('/validate', validate({ body: validateCouponSchema }), valida
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
- *         description: Forbidden (Admin only)
+ *         description: Forbidden (requires coupons:manage)
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       409:
@@ -172,7 +172,7 @@ couponsRouter.post('/validate', validate({ body: validateCouponSchema }), valida
 couponsRouter.patch(
   '/:id',
   authGuard,
-  requireRole('ADMIN'),
+  requirePermission('coupons:manage'),
   validate({ body: updateCouponSchema }),
   updateCoupon,
 );
@@ -181,7 +181,7 @@ couponsRouter.patch(
  * @swagger
  * /api/v1/coupons/{id}:
  *   delete:
- *     summary: Delete coupon (Admin only)
+ *     summary: Delete coupon (requires coupons:manage)
  *     tags: [Coupons]
  *     security:
  *       - bearerAuth: []
@@ -205,8 +205,8 @@ couponsRouter.patch(
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
- *         description: Forbidden (Admin only)
+ *         description: Forbidden (requires coupons:manage)
  *       404:
  *         $ref: '#/components/responses/NotFound'
  */
-couponsRouter.delete('/:id', authGuard, requireRole('ADMIN'), deleteCoupon);
+couponsRouter.delete('/:id', authGuard, requirePermission('coupons:manage'), deleteCoupon);
@@ -0,0 +1,120 @@
+import { Order, OrderStatus, Prisma } from '@prisma/client';
+
+import { releaseCouponUsage } from '../coupons/coupon-utils';
+import { restoreOrderStock } from './order-utils';
+
+/**
+ * Allowed next states for each order status. Every status change goes through this table.
+ * Paid orders cannot be cancelled, only refunded, so the customer always gets their money back.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ['PAID', 'CANCELLED'],
+  PAID: ['FULFILLED', 'SHIPPED', 'REFUNDED'],
+  // FULFILLED: packed and waiting for carrier pickup
+  FULFILLED: ['SHIPPED', 'REFUNDED'],
+  SHIPPED: ['DELIVERED', 'REFUNDED'],
+  DELIVERED: ['REFUNDED'],
+  CANCELLED: [],
+  REFUNDED: [],
+};
+
+// Statuses of orders the customer has paid for and not been refunded
+export const PURCHASED_ORDER_STATUSES: OrderStatus[] = [
+  'PAID',
+  'FULFILLED',
+  'SHIPPED',
+  'DELIVERED',
+];
+
+export function canTransition(from: OrderStatus, to: OrderStatus) {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+export class InvalidTransitionError extends Error {
+  status = 409;
+  allowedStatuses: OrderStatus[];
+
+  constructor(
+    public from: OrderStatus,
+    public to: OrderStatus,
+  ) {
+    super(`Cannot change order status from ${from} to ${to}`);
+    this.allowedStatuses = ORDER_TRANSITIONS[from];
+  }
+}
+
+type TransitionEffect = (tx: Prisma.TransactionClient, order: Order) => Promise<void>;
+
+const releaseReservation: TransitionEffect = async (tx, order) => {
+  const items = await tx.orderItem.findMany({ where: { orderId: order.id } });
+  await restoreOrderStock(tx, items);
+  if (order.couponCode) {
+    await releaseCouponUsage(tx, order.couponCode);
+  }
+};
+
+// Timestamps are only filled in if the caller did not provide them with the transition
+const markShipped: TransitionEffect = async (tx, order) => {
+  await tx.order.updateMany({
+    where: { id: order.id, shippedAt: null },
+    data: { shippedAt: new Date() },
+  });
+};
+
+const markDelivered: TransitionEffect = async (tx, order) => {
+  await tx.order.updateMany({
+    where: { id: order.id, deliveredAt: null },
+    data: { deliveredAt: new Date() },
+  });
+};
+
+// Side effects keyed by `${from}->${to}`, run in the same transaction as the status change
+const TRANSITION_EFFECTS: Partial<Record<string, TransitionEffect[]>> = {
+  'PENDING->CANCELLED': [releaseReservation],
+  'PAID->SHIPPED': [markShipped],
+  'FULFILLED->SHIPPED': [markShipped],
+  'SHIPPED->DELIVERED': [markDelivered],
+};
+
+export interface TransitionOptions {
+  note?: string;
+  // Extra order fields written together with the new status
+  data?: Prisma.OrderUpdateManyMutationInput;
+}
+
+/**
+ * Move an order to a new status inside a transaction: validates the move against
+ * `ORDER_TRANSITIONS`, records history and runs the transition's side effects.
+ * Throws `InvalidTransitionError` for illegal moves, including ones lost to a concurrent update.
+ */
+export async function transitionOrder(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  to: OrderStatus,
+  options: TransitionOptions = {},
+): Promise<Order> {
+  const order = await tx.order.findUniqueOrThrow({ where: { id: orderId } });
+  if (!canTransition(order.status, to)) {
+    throw new InvalidTransitionError(order.status, to);
+  }
+
+  // Only apply the change if nobody moved the order in the meantime
+  const { count } = await tx.order.updateMany({
+    where: { id: orderId, status: order.status },
+    data: { ...options.data, status: to },
+  });
+  if (count === 0) {
+    const current = await tx.order.findUniqueOrThrow({ where: { id: orderId } });
+    throw new InvalidTransitionError(current.status, to);
+  }
+
+  await tx.orderStatusHistory.create({
+    data: { orderId, status: to, note: options.note },
+  });
+
+  for (const effect of TRANSITION_EFFECTS[`${order.status}->${to}`] ?? []) {
+    await effect(tx, order);
+  }
+
+  return order;
+}
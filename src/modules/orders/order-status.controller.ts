@@ -2,13 +2,18 @@ import { Request, Response } from 'express';
 import { OrderStatus } from '@prisma/client';
 
 import { prisma } from '../../config/prisma';
+import { hasPermission } from '../../middleware/auth';
+import { InvalidTransitionError, transitionOrder } from './order-state';
+import { MarkDeliveredInput } from './order-status.schema';
 
 export async function updateOrderStatus(req: Request, res: Response) {
   const { id } = req.params as { id: string };
-  const { status, note, trackingNumber } = req.body as {
+  const { status, note, trackingNumber, carrier, trackingUrl } = req.body as {
     status: OrderStatus;
     note?: string;
     trackingNumber?: string;
+    carrier?: string;
+    trackingUrl?: string;
   };
 
   const order = await prisma.order.findUnique({ where: { id } });
@@ -16,57 +21,38 @@ export async function updateOrderStatus(req: Request, res: Response) {
     return res.status(404).json({ message: 'Order not found' });
   }
 
-  // Update order status and create history entry
-  const updatedOrder = await prisma.$transaction(async (tx) => {
-    // Create status history entry
-    await tx.orderStatusHistory.create({
-      data: {
-        orderId: id,
-        status,
+  try {
+    const updatedOrder = await prisma.$transaction(async (tx) => {
+      await transitionOrder(tx, id, status, {
         note,
-      },
-    });
-
-    // Update order
-    const updateData: {
-      status: OrderStatus;
-      trackingNumber?: string;
-      shippedAt?: Date;
-      deliveredAt?: Date;
-    } = { status };
-
-    if (trackingNumber) {
-      updateData.trackingNumber = trackingNumber;
-    }
-
-    // Set shippedAt when status changes to FULFILLED
-    if (status === 'FULFILLED' && order.status !== 'FULFILLED') {
-      updateData.shippedAt = new Date();
-    }
-
-    // Set deliveredAt when status changes to FULFILLED (can be updated later)
-    if (status === 'FULFILLED' && !order.deliveredAt) {
-      // This can be updated separately when actually delivered
-    }
+        data: { trackingNumber, carrier, trackingUrl },
+      });
 
-    return tx.order.update({
-      where: { id },
-      data: updateData,
-      include: {
-        items: { include: { product: true } },
-        statusHistory: { orderBy: { createdAt: 'desc' } },
-        user: { select: { id: true, email: true, name: true } },
-      },
+      return tx.order.findUniqueOrThrow({
+        where: { id },
+        include: {
+          items: { include: { product: true } },
+          statusHistory: { orderBy: { createdAt: 'desc' } },
+          user: { select: { id: true, email: true, name: true } },
+        },
+      });
     });
-  });
 
-  return res.json({ order: updatedOrder });
+    return res.json({ order: updatedOrder });
+  } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return res
+        .status(error.status)
+        .json({ message: error.message, allowedStatuses: error.allowedStatuses });
+    }
+    throw error;
+  }
 }
 
 export async function getOrderTracking(req: Request, res: Response) {
   const { id } = req.params as { id: string };
   const userId = req.user!.id;
-  const isAdmin = req.user!.role === 'ADMIN';
+  const isStaff = hasPermission(req.user!, 'orders:fulfil');
 
   const order = await prisma.order.findUnique({
     where: { id },
@@ -82,7 +68,7 @@ export async function getOrderTracking(req: Request, res: Response) {
   }
 
   // Check permissions
-  if (!isAdmin && order.userId !== userId) {
+  if (!isStaff && order.userId !== userId) {
     return res.status(403).json({ message: 'Forbidden' });
   }
 
@@ -91,9 +77,17 @@ export async function getOrderTracking(req: Request, res: Response) {
       id: order.id,
       status: order.status,
       trackingNumber: order.trackingNumber,
+      carrier: order.carrier,
+      trackingUrl: order.trackingUrl,
       shippedAt: order.shippedAt,
       deliveredAt: order.deliveredAt,
       statusHistory: order.statusHistory,
+      // Oldest first, one entry per recorded status change
+      timeline: [...order.statusHistory].reverse().map((entry) => ({
+        status: entry.status,
+        note: entry.note,
+        occurredAt: entry.createdAt,
+      })),
       items: order.items,
       createdAt: order.createdAt,
       updatedAt: order.updatedAt,
@@ -101,6 +95,39 @@ export async function getOrderTracking(req: Request, res: Response) {
   });
 }
 
+export async function markOrderDelivered(req: Request, res: Response) {
+  const { id } = req.params as { id: string };
+  const { note, deliveredAt } = req.body as Partial<MarkDeliveredInput>;
+
+  const order = await prisma.order.findUnique({ where: { id } });
+  if (!order) {
+    return res.status(404).json({ message: 'Order not found' });
+  }
+
+  try {
+    const deliveredOrder = await prisma.$transaction(async (tx) => {
+      await transitionOrder(tx, id, 'DELIVERED', {
+        note: note || 'Delivered',
+        data: deliveredAt ? { deliveredAt: new Date(deliveredAt) } : undefined,
+      });
+
+      return tx.order.findUniqueOrThrow({
+        where: { id },
+        include: { statusHistory: { orderBy: { createdAt: 'desc' } } },
+      });
+    });
+
+    return res.json({ order: deliveredOrder });
+  } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return res
+        .status(error.status)
+        .json({ message: error.message, allowedStatuses: error.allowedStatuses });
+    }
+    throw error;
+  }
+}
+
 export async function cancelOrder(req: Request, res: Response) {
   const { id } = req.params as { id: string };
   const userId = req.user!.id;
@@ -115,51 +142,35 @@ export async function cancelOrder(req: Request, res: Response) {
     return res.status(403).json({ message: 'Forbidden' });
   }
 
-  // Check if order can be cancelled (only PENDING or PAID orders)
-  if (order.status !== 'PENDING' && order.status !== 'PAID') {
-    return res.status(400).json({
-      message: `Cannot cancel order with status ${order.status}. Only PENDING or PAID orders can be cancelled.`,
-    });
-  }
-
-  // Cancel order and create history entry
-  const cancelledOrder = await prisma.$transaction(async (tx) => {
-    // Create status history entry
-    await tx.orderStatusHistory.create({
-      data: {
-        orderId: id,
-        status: 'CANCELLED',
-        note: 'Cancelled by user',
-      },
-    });
-
-    // Update order status
-    const updatedOrder = await tx.order.update({
-      where: { id },
-      data: { status: 'CANCELLED' },
-      include: {
-        items: { include: { product: true } },
-        statusHistory: { orderBy: { createdAt: 'desc' } },
-      },
+  try {
+    const cancelledOrder = await prisma.$transaction(async (tx) => {
+      // Stock and coupon usage are released by the transition itself
+      await transitionOrder(tx, id, 'CANCELLED', { note: 'Cancelled by user' });
+
+      return tx.order.findUniqueOrThrow({
+        where: { id },
+        include: {
+          items: { include: { product: true } },
+          statusHistory: { orderBy: { createdAt: 'desc' } },
+        },
+      });
     });
 
-    // Restore stock for cancelled items
-    for (const item of updatedOrder.items) {
-      await tx.product.update({
-        where: { id: item.productId },
-        data: { stock: { increment: item.quantity } },
+    return res.json({ order: cancelledOrder });
+  } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return res.status(error.status).json({
+        message: `Cannot cancel order with status ${error.from}`,
+        allowedStatuses: error.allowedStatuses,
       });
     }
-
-    return updatedOrder;
-  });
-
-  return res.json({ order: cancelledOrder });
+    throw error;
+  }
 }
 
 export async function getOrderHistory(req: Request, res: Response) {
   const userId = req.user!.id;
-  const isAdmin = req.user!.role === 'ADMIN';
+  const isStaff = hasPermission(req.user!, 'orders:fulfil');
   const { status, startDate, endDate, limit, offset } = req.query as {
     status?: OrderStatus;
     startDate?: string;
@@ -174,8 +185,8 @@ export async function getOrderHistory(req: Request, res: Response) {
     createdAt?: { gte?: Date; lte?: Date };
   } = {};
 
-  // Filter by user (unless admin viewing all)
-  if (!isAdmin) {
+  // Filter by user (unless staff viewing all)
+  if (!isStaff) {
     where.userId = userId;
   }
 
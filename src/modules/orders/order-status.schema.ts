@@ -5,8 +5,17 @@ export const updateOrderStatusSchema = z.object({
   status: z.nativeEnum(OrderStatus),
   note: z.string().max(500).optional(),
   trackingNumber: z.string().max(100).optional(),
+  carrier: z.string().max(100).optional(),
+  trackingUrl: z.string().url().max(500).optional(),
 });
 
+export const markDeliveredSchema = z.object({
+  note: z.string().max(500).optional(),
+  deliveredAt: z.string().datetime().optional(),
+});
+
+export type MarkDeliveredInput = z.infer<typeof markDeliveredSchema>;
+
 export const orderHistoryQuerySchema = z.object({
   status: z.nativeEnum(OrderStatus).optional(),
   startDate: z.string().datetime().optional(),
@@ -0,0 +1,290 @@
+import { Prisma } from '@prisma/client';
+
+import { env } from '../../config/env';
+import { prisma } from '../../config/prisma';
+import { Clock, systemClock } from '../../utils/clock';
+import { reserveCouponUsage, validateAndCalculateCoupon } from '../coupons/coupon-utils';
+import { defaultPaymentProviderName } from '../payments/payment-providers';
+import { canTransition, transitionOrder } from './order-state';
+
+export interface OrderLineInput {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+export interface PlaceOrderOptions {
+  currency?: string;
+  couponCode?: string;
+  // When set, the cart's items are removed in the same transaction as the order is created
+  cartId?: string;
+  clock?: Clock;
+}
+
+/**
+ * Raised inside the order transaction when a concurrent order claimed the stock or coupon first,
+ * so the whole transaction is rolled back
+ */
+export class ReservationConflictError extends Error {
+  status = 409;
+}
+
+export type PlacedOrder = Prisma.OrderGetPayload<{
+  include: { items: { include: { product: true; variant: true } } };
+}>;
+
+export interface PlaceOrderResult {
+  success: boolean;
+  order?: PlacedOrder;
+  status?: number;
+  error?: string;
+}
+
+/**
+ * Validate stock, apply an optional coupon and create a PENDING order for the given items
+ */
+export async function placeOrder(
+  userId: string,
+  items: OrderLineInput[],
+  options: PlaceOrderOptions = {},
+): Promise<PlaceOrderResult> {
+  const { currency, couponCode, cartId, clock = systemClock } = options;
+
+  const productIds = items.map((i) => i.productId);
+  const products = await prisma.product.findMany({
+    where: { id: { in: productIds }, active: true },
+  });
+  const idToProduct = new Map(products.map((p) => [p.id, p] as const));
+
+  const variantIds = items.map((i) => i.variantId).filter((id): id is string => !!id);
+  const variants = variantIds.length
+    ? await prisma.productVariant.findMany({ where: { id: { in: variantIds } } })
+    : [];
+  const idToVariant = new Map(variants.map((v) => [v.id, v] as const));
+
+  const lines: {
+    productId: string;
+    variantId: string | null;
+    quantity: number;
+    unitPriceCents: number;
+  }[] = [];
+
+  for (const item of items) {
+    const product = idToProduct.get(item.productId);
+    if (!product) {
+      return { success: false, status: 400, error: `Invalid product ${item.productId}` };
+    }
+
+    const variant = item.variantId ? idToVariant.get(item.variantId) : undefined;
+    if (item.variantId && (!variant || variant.productId !== product.id)) {
+      return { success: false, status: 400, error: `Invalid variant ${item.variantId}` };
+    }
+
+    // Variants carry their own stock and may override the product price
+    const availableStock = variant ? variant.stock : product.stock;
+    if (availableStock < item.quantity) {
+      const label = variant ? `${product.title} (${variant.name})` : product.title;
+      return { success: false, status: 400, error: `Insufficient stock for product ${label}` };
+    }
+
+    lines.push({
+      productId: product.id,
+      variantId: variant?.id ?? null,
+      quantity: item.quantity,
+      unitPriceCents: variant?.priceCents ?? product.priceCents,
+    });
+  }
+
+  const subtotalCents = lines.reduce((acc, line) => acc + line.unitPriceCents * line.quantity, 0);
+  const itemsCount = lines.reduce((acc, line) => acc + line.quantity, 0);
+
+  // Validate and apply coupon if provided
+  let discountCents = 0;
+  let appliedCouponCode: string | null = null;
+  if (couponCode) {
+    const couponResult = await validateAndCalculateCoupon(couponCode, subtotalCents);
+    if (!couponResult.valid) {
+      return { success: false, status: 400, error: couponResult.error || 'Invalid coupon' };
+    }
+    discountCents = couponResult.discountCents;
+    appliedCouponCode = couponCode;
+  }
+
+  const totalCents = subtotalCents - discountCents;
+  const reservationExpiresAt = new Date(
+    clock().getTime() + env.ORDER_RESERVATION_TTL_MINUTES * 60 * 1000,
+  );
+
+  let order: PlacedOrder;
+  try {
+    order = await prisma.$transaction(async (tx) => {
+      const created = await tx.order.create({
+        data: {
+          userId,
+          status: 'PENDING',
+          totalCents,
+          currency: currency || 'USD',
+          itemsCount,
+          paymentProvider: defaultPaymentProviderName(),
+          couponCode: appliedCouponCode,
+          discountCents,
+          reservationExpiresAt,
+        },
+      });
+
+      // Create initial status history entry
+      await tx.orderStatusHistory.create({
+        data: {
+          orderId: created.id,
+          status: 'PENDING',
+          note: 'Order created',
+        },
+      });
+
+      for (const line of lines) {
+        await tx.orderItem.create({
+          data: {
+            orderId: created.id,
+            productId: line.productId,
+            variantId: line.variantId,
+            quantity: line.quantity,
+            unitPriceCents: line.unitPriceCents,
+            subtotalCents: line.unitPriceCents * line.quantity,
+          },
+        });
+        await reserveStock(tx, line);
+      }
+
+      // Increment coupon usage count if coupon was applied
+      if (appliedCouponCode && !(await reserveCouponUsage(tx, appliedCouponCode))) {
+        throw new ReservationConflictError('Coupon usage limit reached');
+      }
+
+      if (cartId) {
+        await tx.cartItem.deleteMany({ where: { cartId } });
+      }
+
+      return tx.order.findUniqueOrThrow({
+        where: { id: created.id },
+        include: { items: { include: { product: true, variant: true } } },
+      });
+    });
+  } catch (error) {
+    if (error instanceof ReservationConflictError) {
+      return { success: false, status: error.status, error: error.message };
+    }
+    throw error;
+  }
+
+  return { success: true, order };
+}
+
+/**
+ * Decrement stock only if enough is still available; the row lock taken by the update
+ * serialises concurrent checkouts so stock can never go negative
+ */
+async function reserveStock(
+  tx: Prisma.TransactionClient,
+  line: { productId: string; variantId: string | null; quantity: number },
+) {
+  const { count } = line.variantId
+    ? await tx.productVariant.updateMany({
+        where: { id: line.variantId, stock: { gte: line.quantity } },
+        data: { stock: { decrement: line.quantity } },
+      })
+    : await tx.product.updateMany({
+        where: { id: line.productId, stock: { gte: line.quantity } },
+        data: { stock: { decrement: line.quantity } },
+      });
+
+  if (count === 0) {
+    throw new ReservationConflictError(
+      'Stock was claimed by another order. Please review your order and try again.',
+    );
+  }
+}
+
+/**
+ * Return reserved stock for the items of a cancelled or expired order
+ */
+export async function restoreOrderStock(
+  tx: Prisma.TransactionClient,
+  items: { productId: string; variantId: string | null; quantity: number }[],
+) {
+  for (const item of items) {
+    if (item.variantId) {
+      await tx.productVariant.update({
+        where: { id: item.variantId },
+        data: { stock: { increment: item.quantity } },
+      });
+    } else {
+      await tx.product.update({
+        where: { id: item.productId },
+        data: { stock: { increment: item.quantity } },
+      });
+    }
+  }
+}
+
+/**
+ * Sync a refund that happened at the payment provider (e.g. from the Stripe dashboard).
+ * `totalRefundedCents` is the provider's cumulative refunded amount, so replays are no-ops.
+ * Refunds issued through our API claim their amount first, so their webhooks are no-ops too;
+ * events listing only refunds we already stored are skipped as well.
+ */
+export async function recordExternalRefund(
+  provider: string,
+  paymentIntentId: string,
+  totalRefundedCents: number,
+  refundIds: string[] = [],
+) {
+  const order = await prisma.order.findFirst({
+    where: { paymentIntentId, paymentProvider: provider },
+  });
+  if (!order || totalRefundedCents <= order.refundedCents) return null;
+
+  if (refundIds.length > 0) {
+    const known = await prisma.refund.count({
+      where: { orderId: order.id, providerRefundId: { in: refundIds } },
+    });
+    if (known === refundIds.length) return null;
+  }
+
+  const fullyRefunded = totalRefundedCents >= order.totalCents;
+
+  return prisma.$transaction(async (tx) => {
+    // Throwing makes the provider redeliver the event, which then sees the new amount
+    const { count } = await tx.order.updateMany({
+      where: { id: order.id, refundedCents: order.refundedCents },
+      data: { refundedCents: totalRefundedCents },
+    });
+    if (count === 0) {
+      throw new Error(`Order ${order.id} was refunded concurrently`);
+    }
+
+    await tx.refund.create({
+      data: {
+        orderId: order.id,
+        amountCents: totalRefundedCents - order.refundedCents,
+        reason: 'Refunded via payment provider',
+      },
+    });
+
+    // An order cancelled before the refund keeps its status; only the amount is recorded
+    if (fullyRefunded && canTransition(order.status, 'REFUNDED')) {
+      await transitionOrder(tx, order.id, 'REFUNDED', { note: 'Refunded via payment provider' });
+    } else {
+      await tx.orderStatusHistory.create({
+        data: {
+          orderId: order.id,
+          status: order.status,
+          note: fullyRefunded
+            ? 'Refunded via payment provider'
+            : 'Partial refund via payment provider',
+        },
+      });
+    }
+
+    return tx.order.findUniqueOrThrow({ where: { id: order.id } });
+  });
+}
@@ -1,19 +1,95 @@
 import { Router } from 'express';
 
-import { authGuard, requireRole } from '../../middleware/auth';
+import {
+  authGuard,
+  carrierOrFulfiller,
+  requireKeyScope,
+  requirePermission,
+  requireVerifiedEmail,
+} from '../../middleware/auth';
 import { validate } from '../../middleware/validate';
 import {
   cancelOrder,
   getOrderHistory,
   getOrderTracking,
+  markOrderDelivered,
   updateOrderStatus,
 } from './order-status.controller';
-import { orderHistoryQuerySchema, updateOrderStatusSchema } from './order-status.schema';
-import { createOrderSchema } from './orders.schema';
+import {
+  markDeliveredSchema,
+  orderHistoryQuerySchema,
+  updateOrderStatusSchema,
+} from './order-status.schema';
+import { createOrderSchema, refundOrderSchema } from './orders.schema';
 import { createOrder, getOrder, listOrders } from './orders.controller';
+import { refundOrder } from './refunds.controller';
 
 export const ordersRouter = Router();
 
+/**
+ * @swagger
+ * /api/v1/orders/{id}/deliver:
+ *   post:
+ *     summary: Mark a shipped order as delivered (requires orders:fulfil or carrier key)
+ *     description: Carriers authenticate with the `X-Carrier-Key` header instead of a bearer token.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Order ID
+ *       - in: header
+ *         name: X-Carrier-Key
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Shared carrier API key (CARRIER_API_KEY)
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 maxLength: 500
+ *               deliveredAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When the parcel was delivered (defaults to now)
+ *     responses:
+ *       200:
+ *         description: Order marked as delivered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 order:
+ *                   $ref: '#/components/schemas/Order'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Forbidden (requires orders:fulfil or carrier key)
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/InvalidTransition'
+ */
+// Registered before authGuard so carriers can use their API key instead of a user token
+ordersRouter.post(
+  '/:id/deliver',
+  carrierOrFulfiller,
+  validate({ body: markDeliveredSchema }),
+  markOrderDelivered,
+);
+
 /**
  * @swagger
  * /api/v1/orders:
@@ -43,6 +119,10 @@ export const ordersRouter = Router();
  *                     productId:
  *                       type: string
  *                       format: uuid
+ *                     variantId:
+ *                       type: string
+ *                       format: uuid
+ *                       description: Optional variant; its price and stock are used
  *                     quantity:
  *                       type: integer
  *                       minimum: 1
@@ -63,9 +143,19 @@ export const ordersRouter = Router();
  *         $ref: '#/components/responses/ValidationError'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/EmailNotVerified'
+ *       409:
+ *         description: Stock or coupon was claimed by a concurrent order
  */
 ordersRouter.use(authGuard);
-ordersRouter.post('/', validate({ body: createOrderSchema }), createOrder);
+ordersRouter.post(
+  '/',
+  requireKeyScope('account'),
+  requireVerifiedEmail('orders'),
+  validate({ body: createOrderSchema }),
+  createOrder,
+);
 
 /**
  * @swagger
@@ -77,7 +167,7 @@ ordersRouter.post('/', validate({ body: createOrderSchema }), createOrder);
  *       - bearerAuth: []
  *     description: |
  *       Regular users can only see their own orders.
- *       Admins can see all orders.
+ *       Staff with orders:fulfil can pass `all=true` to see every order.
  *     responses:
  *       200:
  *         description: List of orders
@@ -93,7 +183,7 @@ ordersRouter.post('/', validate({ body: createOrderSchema }), createOrder);
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  */
-ordersRouter.get('/', listOrders);
+ordersRouter.get('/', requireKeyScope('account', 'orders:fulfil'), listOrders);
 
 /**
  * @swagger
@@ -108,7 +198,7 @@ ordersRouter.get('/', listOrders);
  *         name: status
  *         schema:
  *           type: string
- *           enum: [PENDING, PAID, CANCELLED, FULFILLED, REFUNDED]
+ *           enum: [PENDING, PAID, CANCELLED, FULFILLED, SHIPPED, DELIVERED, REFUNDED]
  *         description: Filter by order status
  *       - in: query
  *         name: startDate
@@ -156,7 +246,12 @@ ordersRouter.get('/', listOrders);
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  */
-ordersRouter.get('/history', validate({ query: orderHistoryQuerySchema }), getOrderHistory);
+ordersRouter.get(
+  '/history',
+  requireKeyScope('account', 'orders:fulfil'),
+  validate({ query: orderHistoryQuerySchema }),
+  getOrderHistory,
+);
 
 /**
  * @swagger
@@ -168,7 +263,7 @@ ordersRouter.get('/history', validate({ query: orderHistoryQuerySchema }), getOr
  *       - bearerAuth: []
  *     description: |
  *       Regular users can only access their own orders.
- *       Admins can access any order.
+ *       Staff with orders:fulfil can access any order.
  *     parameters:
  *       - in: path
  *         name: id
@@ -194,13 +289,13 @@ ordersRouter.get('/history', validate({ query: orderHistoryQuerySchema }), getOr
  *       404:
  *         $ref: '#/components/responses/NotFound'
  */
-ordersRouter.get('/:id', getOrder);
+ordersRouter.get('/:id', requireKeyScope('account', 'orders:fulfil'), getOrder);
 
 /**
  * @swagger
  * /api/v1/orders/{id}/status:
  *   patch:
- *     summary: Update order status (Admin only)
+ *     summary: Update order status (requires orders:fulfil)
  *     tags: [Orders]
  *     security:
  *       - bearerAuth: []
@@ -222,13 +317,19 @@ ordersRouter.get('/:id', getOrder);
  *             properties:
  *               status:
  *                 type: string
- *                 enum: [PENDING, PAID, CANCELLED, FULFILLED, REFUNDED]
+ *                 enum: [PENDING, PAID, CANCELLED, FULFILLED, SHIPPED, DELIVERED, REFUNDED]
  *               note:
  *                 type: string
  *                 maxLength: 500
  *               trackingNumber:
  *                 type: string
  *                 maxLength: 100
+ *               carrier:
+ *                 type: string
+ *                 maxLength: 100
+ *               trackingUrl:
+ *                 type: string
+ *                 format: uri
  *     responses:
  *       200:
  *         description: Order status updated successfully
@@ -244,13 +345,15 @@ ordersRouter.get('/:id', getOrder);
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
- *         description: Forbidden (Admin only)
+ *         description: Forbidden (requires orders:fulfil)
  *       404:
  *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/InvalidTransition'
  */
 ordersRouter.patch(
   '/:id/status',
-  requireRole('ADMIN'),
+  requirePermission('orders:fulfil'),
   validate({ body: updateOrderStatusSchema }),
   updateOrderStatus,
 );
@@ -283,14 +386,25 @@ ordersRouter.patch(
  *                   type: object
  *                   properties:
  *                     id: { type: string, format: uuid }
- *                     status: { type: string, enum: [PENDING, PAID, CANCELLED, FULFILLED, REFUNDED] }
+ *                     status: { type: string, enum: [PENDING, PAID, CANCELLED, FULFILLED, SHIPPED, DELIVERED, REFUNDED] }
  *                     trackingNumber: { type: string, nullable: true }
+ *                     carrier: { type: string, nullable: true }
+ *                     trackingUrl: { type: string, format: uri, nullable: true }
  *                     shippedAt: { type: string, format: date-time, nullable: true }
  *                     deliveredAt: { type: string, format: date-time, nullable: true }
  *                     statusHistory:
  *                       type: array
  *                       items:
  *                         $ref: '#/components/schemas/OrderStatusHistory'
+ *                     timeline:
+ *                       type: array
+ *                       description: Status changes in chronological order
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           status: { type: string }
+ *                           note: { type: string, nullable: true }
+ *                           occurredAt: { type: string, format: date-time }
  *                     items: { type: array, items: { $ref: '#/components/schemas/OrderItem' } }
  *                     createdAt: { type: string, format: date-time }
  *                     updatedAt: { type: string, format: date-time }
@@ -301,7 +415,7 @@ ordersRouter.patch(
  *       404:
  *         $ref: '#/components/responses/NotFound'
  */
-ordersRouter.get('/:id/tracking', getOrderTracking);
+ordersRouter.get('/:id/tracking', requireKeyScope('account', 'orders:fulfil'), getOrderTracking);
 
 /**
  * @swagger
@@ -311,6 +425,7 @@ ordersRouter.get('/:id/tracking', getOrderTracking);
  *     tags: [Orders]
  *     security:
  *       - bearerAuth: []
+ *     description: Only unpaid (PENDING) orders can be cancelled; paid orders are refunded instead
  *     parameters:
  *       - in: path
  *         name: id
@@ -329,13 +444,90 @@ ordersRouter.get('/:id/tracking', getOrderTracking);
  *               properties:
  *                 order:
  *                   $ref: '#/components/schemas/Order'
- *       400:
- *         description: Cannot cancel order (invalid status)
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
  *         description: Forbidden (can only cancel own orders)
  *       404:
  *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/InvalidTransition'
+ */
+ordersRouter.post('/:id/cancel', requireKeyScope('account'), cancelOrder);
+
+/**
+ * @swagger
+ * /api/v1/orders/{id}/refund:
+ *   post:
+ *     summary: Refund order (requires orders:refund)
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Issues a Stripe refund against the order's payment intent.
+ *       Omit `items` for a full refund of whatever has not been refunded yet.
+ *       Pass `items` for a partial refund; line amounts are prorated by the order discount.
+ *       The order becomes REFUNDED once the whole total has been refunded.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Order ID
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 minItems: 1
+ *                 description: Lines to refund, each order item at most once
+ *                 items:
+ *                   type: object
+ *                   required: [orderItemId, quantity]
+ *                   properties:
+ *                     orderItemId: { type: string, format: uuid }
+ *                     quantity: { type: integer, minimum: 1 }
+ *               restock:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Return the refunded quantities to stock
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       201:
+ *         description: Refund issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 refund:
+ *                   $ref: '#/components/schemas/Refund'
+ *                 order:
+ *                   $ref: '#/components/schemas/Order'
+ *       400:
+ *         description: Nothing to refund (no captured payment, already fully refunded, invalid items)
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Forbidden (requires orders:refund)
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The order's status cannot move to REFUNDED (the response lists the allowed next states), or another refund or status change happened at the same time
+ *       502:
+ *         description: Payment provider rejected the refund
  */
-ordersRouter.post('/:id/cancel', cancelOrder);
+ordersRouter.post(
+  '/:id/refund',
+  requirePermission('orders:refund'),
+  validate({ body: refundOrderSchema }),
+  refundOrder,
+);
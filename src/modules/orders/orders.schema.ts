@@ -2,6 +2,7 @@ import { z } from 'zod';
 
 export const orderItemSchema = z.object({
   productId: z.string().uuid(),
+  variantId: z.string().uuid().optional(),
   quantity: z.number().int().positive(),
 });
 
@@ -10,3 +11,23 @@ export const createOrderSchema = z.object({
   currency: z.string().default('USD'),
   couponCode: z.string().optional(),
 });
+
+export const refundOrderSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().uuid(),
+        quantity: z.number().int().positive(),
+      }),
+    )
+    .min(1)
+    // Each line is checked against what is left to refund on its own, so it may appear only once
+    .refine((items) => new Set(items.map((item) => item.orderItemId)).size === items.length, {
+      message: 'Each order item can only be listed once',
+    })
+    .optional(),
+  restock: z.boolean().default(false),
+  reason: z.string().max(500).optional(),
+});
+
+export type RefundOrderInput = z.infer<typeof refundOrderSchema>;
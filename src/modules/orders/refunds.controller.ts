@@ -0,0 +1,182 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+
+import { prisma } from '../../config/prisma';
+import { getPaymentProvider } from '../payments/payment-providers';
+import { canTransition, InvalidTransitionError, transitionOrder } from './order-state';
+import { restoreOrderStock } from './order-utils';
+import { RefundOrderInput } from './orders.schema';
+
+function isUniqueViolation(error: unknown) {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+export async function refundOrder(req: Request, res: Response) {
+  const { id } = req.params as { id: string };
+  const { items, restock, reason } = req.body as Partial<RefundOrderInput>;
+
+  const order = await prisma.order.findUnique({ where: { id }, include: { items: true } });
+  if (!order) {
+    return res.status(404).json({ message: 'Order not found' });
+  }
+
+  if (!canTransition(order.status, 'REFUNDED')) {
+    const error = new InvalidTransitionError(order.status, 'REFUNDED');
+    return res.status(error.status).json({
+      message: `Cannot refund order with status ${order.status}. Only paid orders can be refunded.`,
+      allowedStatuses: error.allowedStatuses,
+    });
+  }
+
+  if (!order.paymentIntentId) {
+    return res.status(400).json({ message: 'Order has no captured payment to refund' });
+  }
+
+  const provider = getPaymentProvider(order.paymentProvider);
+  if (!provider) {
+    return res
+      .status(500)
+      .json({ message: `Payment provider ${order.paymentProvider} is not configured` });
+  }
+
+  const remainingCents = order.totalCents - order.refundedCents;
+  if (remainingCents <= 0) {
+    return res.status(400).json({ message: 'Order has already been fully refunded' });
+  }
+
+  // Work out which quantities are being refunded (all remaining items for a full refund)
+  const lines: { item: (typeof order.items)[number]; quantity: number }[] = [];
+  if (items) {
+    for (const requested of items) {
+      const item = order.items.find((it) => it.id === requested.orderItemId);
+      if (!item) {
+        return res.status(400).json({ message: `Invalid order item ${requested.orderItemId}` });
+      }
+      const refundable = item.quantity - item.refundedQuantity;
+      if (requested.quantity > refundable) {
+        return res.status(400).json({
+          message: `Cannot refund ${requested.quantity} of order item ${item.id}. Refundable: ${refundable}`,
+        });
+      }
+      lines.push({ item, quantity: requested.quantity });
+    }
+  } else {
+    for (const item of order.items) {
+      const refundable = item.quantity - item.refundedQuantity;
+      if (refundable > 0) lines.push({ item, quantity: refundable });
+    }
+  }
+
+  // Line item refunds are prorated by the order discount; a full refund returns what is left
+  let amountCents = remainingCents;
+  if (items) {
+    const subtotalCents = order.totalCents + order.discountCents;
+    const linesCents = lines.reduce((acc, l) => acc + l.item.unitPriceCents * l.quantity, 0);
+    amountCents = Math.min(
+      Math.round((linesCents * order.totalCents) / subtotalCents),
+      remainingCents,
+    );
+  }
+
+  const refundedCents = order.refundedCents + amountCents;
+  const fullyRefunded = refundedCents >= order.totalCents;
+
+  // Claim the amount before calling the provider, so concurrent refunds cannot both pass the
+  // checks above, and a charge.refunded webhook for this refund finds it already counted
+  const { count } = await prisma.order.updateMany({
+    where: { id: order.id, refundedCents: order.refundedCents },
+    data: { refundedCents },
+  });
+  if (count === 0) {
+    return res
+      .status(409)
+      .json({ message: 'The order was refunded concurrently. Reload it and try again.' });
+  }
+
+  let providerRefund;
+  try {
+    providerRefund = await provider.refund({
+      orderId: order.id,
+      paymentId: order.paymentIntentId,
+      amountCents,
+      reason,
+      idempotencyKey: `refund_${order.id}_${order.refundedCents}_${amountCents}`,
+    });
+  } catch (error) {
+    // Release the claim; a retry reuses the idempotency key, so it cannot refund twice
+    await prisma.order.update({
+      where: { id: order.id },
+      data: { refundedCents: { decrement: amountCents } },
+    });
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(502).json({ message: `Refund failed: ${message}` });
+  }
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const refund = await tx.refund.create({
+        data: {
+          orderId: order.id,
+          providerRefundId: providerRefund.id,
+          amountCents,
+          reason,
+          restocked: !!restock,
+        },
+      });
+
+      for (const line of lines) {
+        await tx.orderItem.update({
+          where: { id: line.item.id },
+          data: { refundedQuantity: { increment: line.quantity } },
+        });
+      }
+
+      if (restock) {
+        await restoreOrderStock(
+          tx,
+          lines.map((l) => ({
+            productId: l.item.productId,
+            variantId: l.item.variantId,
+            quantity: l.quantity,
+          })),
+        );
+      }
+
+      // The money is already returned, so an order that moved on in the meantime keeps its
+      // status and only gets a history entry
+      const current = await tx.order.findUniqueOrThrow({ where: { id: order.id } });
+      if (fullyRefunded && canTransition(current.status, 'REFUNDED')) {
+        await transitionOrder(tx, order.id, 'REFUNDED', { note: reason || 'Order refunded' });
+      } else {
+        await tx.orderStatusHistory.create({
+          data: {
+            orderId: order.id,
+            status: current.status,
+            note: reason || (fullyRefunded ? 'Order refunded' : 'Partial refund issued'),
+          },
+        });
+      }
+
+      const updatedOrder = await tx.order.findUniqueOrThrow({
+        where: { id: order.id },
+        include: {
+          items: { include: { product: true } },
+          refunds: { orderBy: { createdAt: 'desc' } },
+          statusHistory: { orderBy: { createdAt: 'desc' } },
+        },
+      });
+
+      return { refund, order: updatedOrder };
+    });
+
+    return res.status(201).json(result);
+  } catch (error) {
+    // Lost a race with a status change, or the provider returned a refund we already recorded
+    if (error instanceof InvalidTransitionError || isUniqueViolation(error)) {
+      return res.status(409).json({
+        message: `Refund ${providerRefund.id} was issued but could not be recorded because the order changed. Reload it to check the refund.`,
+      });
+    }
+    throw error;
+  }
+}
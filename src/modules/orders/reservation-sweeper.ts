@@ -0,0 +1,91 @@
+import { env } from '../../config/env';
+import { prisma } from '../../config/prisma';
+import { Clock, systemClock } from '../../utils/clock';
+import { getPaymentProvider } from '../payments/payment-providers';
+import { InvalidTransitionError, transitionOrder } from './order-state';
+
+export interface SweeperOptions {
+  clock?: Clock;
+  ttlMinutes?: number;
+}
+
+/**
+ * Cancel PENDING orders whose stock reservation has expired and release their stock.
+ * Orders created before reservations were tracked fall back to `createdAt + ttl`.
+ * Their checkout session is expired first, so the customer cannot pay a cancelled order.
+ * Returns the IDs of the expired orders.
+ */
+export async function expirePendingOrders(options: SweeperOptions = {}): Promise<string[]> {
+  const clock = options.clock ?? systemClock;
+  const ttlMinutes = options.ttlMinutes ?? env.ORDER_RESERVATION_TTL_MINUTES;
+  const now = clock();
+  const cutoff = new Date(now.getTime() - ttlMinutes * 60 * 1000);
+
+  const candidates = await prisma.order.findMany({
+    where: {
+      status: 'PENDING',
+      OR: [
+        { reservationExpiresAt: { lte: now } },
+        { reservationExpiresAt: null, createdAt: { lte: cutoff } },
+      ],
+    },
+    select: { id: true, paymentProvider: true, checkoutSessionId: true },
+  });
+
+  const expired: string[] = [];
+  for (const { id, paymentProvider, checkoutSessionId } of candidates) {
+    if (checkoutSessionId) {
+      try {
+        await getPaymentProvider(paymentProvider)?.expireSession(checkoutSessionId);
+      } catch (error) {
+        // A payment that still lands for the cancelled order is refunded when it arrives
+        console.error(`Failed to expire checkout session ${checkoutSessionId}:`, error);
+      }
+    }
+
+    try {
+      await prisma.$transaction((tx) =>
+        transitionOrder(tx, id, 'CANCELLED', {
+          note: 'Reservation expired: payment was not completed in time',
+        }),
+      );
+    } catch (error) {
+      // A payment or cancellation that landed since the lookup wins
+      if (error instanceof InvalidTransitionError) continue;
+      throw error;
+    }
+
+    expired.push(id);
+  }
+
+  return expired;
+}
+
+/**
+ * Run `expirePendingOrders` on an interval. Returns a function that stops the sweeper.
+ */
+export function startReservationSweeper(
+  options: SweeperOptions & { intervalSeconds?: number } = {},
+) {
+  const intervalMs = (options.intervalSeconds ?? env.ORDER_SWEEP_INTERVAL_SECONDS) * 1000;
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap with a slow previous sweep
+    if (running) return;
+    running = true;
+    try {
+      const expired = await expirePendingOrders(options);
+      if (expired.length > 0) {
+        console.log(`⏱️  Expired ${expired.length} unpaid order(s)`);
+      }
+    } catch (error) {
+      console.error('Failed to expire pending orders:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
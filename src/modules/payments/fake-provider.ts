@@ -0,0 +1,94 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+
+import { env } from '../../config/env';
+import { prisma } from '../../config/prisma';
+import {
+  CreateSessionInput,
+  PaymentDetails,
+  PaymentEvent,
+  PaymentProvider,
+  PaymentSession,
+  ProviderRefund,
+} from './payment-provider';
+
+export const FAKE_SIGNATURE_HEADER = 'x-fake-signature';
+
+/**
+ * Offline provider for development and tests. Sessions are completed through
+ * `POST /api/v1/payments/fake/sessions/:sessionId/complete` instead of a hosted checkout page;
+ * payment state is derived from the order, so nothing is kept in memory.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'FAKE' as const;
+
+  async createSession({ order }: CreateSessionInput): Promise<PaymentSession> {
+    const id = fakeSessionId(order.id);
+    const baseUrl = env.APP_URL || `http://localhost:${env.PORT}`;
+    return { id, url: `${baseUrl}/api/v1/payments/fake/sessions/${id}/complete` };
+  }
+
+  // Fake sessions keep no state; completing one for a cancelled order refunds the payment
+  async expireSession(): Promise<void> {}
+
+  /**
+   * Build the event a real provider would send once the customer finished checkout
+   */
+  completeSession(sessionId: string, outcome: 'succeeded' | 'failed'): PaymentEvent {
+    const orderId = orderIdFromSessionId(sessionId);
+    if (!orderId) throw new Error('Invalid fake session ID');
+
+    return {
+      id: `fake_evt_${randomUUID()}`,
+      type: outcome === 'succeeded' ? 'fake.payment_succeeded' : 'fake.payment_failed',
+      action: outcome === 'succeeded' ? 'payment.succeeded' : 'payment.failed',
+      orderId,
+      paymentId: `fake_pi_${orderId}`,
+    };
+  }
+
+  sign(payload: string) {
+    if (!env.FAKE_PAYMENT_WEBHOOK_SECRET) throw new Error('Fake webhooks are not configured');
+    return createHmac('sha256', env.FAKE_PAYMENT_WEBHOOK_SECRET).update(payload).digest('hex');
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent {
+    const signature = headers[FAKE_SIGNATURE_HEADER];
+    if (typeof signature !== 'string') throw new Error('Missing signature');
+
+    const expected = Buffer.from(this.sign(rawBody.toString()));
+    const provided = Buffer.from(signature);
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      throw new Error('Invalid signature');
+    }
+
+    const event = JSON.parse(rawBody.toString()) as PaymentEvent;
+    if (!event.id || !event.type) throw new Error('Malformed event');
+    return event;
+  }
+
+  async refund(): Promise<ProviderRefund> {
+    return { id: `fake_re_${randomUUID()}` };
+  }
+
+  async retrievePayment(paymentId: string): Promise<PaymentDetails> {
+    const order = await prisma.order.findFirst({ where: { paymentIntentId: paymentId } });
+    if (!order) throw new Error(`Payment ${paymentId} not found`);
+
+    return {
+      id: paymentId,
+      status: order.status === 'PENDING' ? 'pending' : 'succeeded',
+      amountCents: order.totalCents,
+      currency: order.currency,
+      orderId: order.id,
+    };
+  }
+}
+
+function fakeSessionId(orderId: string) {
+  return `fake_cs_${orderId}`;
+}
+
+function orderIdFromSessionId(sessionId: string) {
+  return sessionId.startsWith('fake_cs_') ? sessionId.slice('fake_cs_'.length) : null;
+}
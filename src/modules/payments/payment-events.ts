@@ -0,0 +1,151 @@
+import { Order, Prisma } from '@prisma/client';
+
+import { prisma } from '../../config/prisma';
+import { InvalidTransitionError, transitionOrder } from '../orders/order-state';
+import { recordExternalRefund } from '../orders/order-utils';
+import { PaymentEvent } from './payment-provider';
+import { getPaymentProvider } from './payment-providers';
+import { processWebhookEvent, receiveWebhookEvent } from './webhook-inbox';
+
+const LATE_PAYMENT_NOTE = 'Payment received after the order was cancelled and refunded';
+
+/**
+ * Refund a payment that arrived after its order was cancelled, e.g. a checkout session paid
+ * just as the reservation ran out. The stock is gone, so the money goes back. Throws if the
+ * refund fails, so the event is retried; the idempotency key stops retries refunding twice.
+ */
+async function refundLatePayment(provider: string, order: Order, paymentId: string) {
+  if (order.paymentIntentId === paymentId && order.refundedCents >= order.totalCents) return;
+
+  const paymentProvider = getPaymentProvider(provider);
+  if (!paymentProvider) throw new Error(`Payment provider ${provider} is not configured`);
+
+  const refund = await paymentProvider.refund({
+    orderId: order.id,
+    paymentId,
+    amountCents: order.totalCents,
+    reason: LATE_PAYMENT_NOTE,
+    idempotencyKey: `late_payment_${order.id}_${paymentId}`,
+  });
+
+  await prisma.$transaction(async (tx) => {
+    await tx.refund.create({
+      data: {
+        orderId: order.id,
+        providerRefundId: refund.id,
+        amountCents: order.totalCents,
+        reason: LATE_PAYMENT_NOTE,
+      },
+    });
+    await tx.order.update({
+      where: { id: order.id },
+      data: { paymentIntentId: paymentId, refundedCents: order.totalCents },
+    });
+    await tx.orderStatusHistory.create({
+      data: { orderId: order.id, status: order.status, note: LATE_PAYMENT_NOTE },
+    });
+  });
+  console.warn(`Refunded payment ${paymentId} for cancelled order ${order.id}`);
+}
+
+/**
+ * Apply a verified payment event from `provider` to our orders. Throws on unexpected failures
+ * so the inbox marks the event as failed; events that no longer apply are logged and skipped.
+ * A provider can only affect orders that are paid through it.
+ */
+export async function handlePaymentEvent(provider: string, event: PaymentEvent) {
+  switch (event.action) {
+    case 'payment.succeeded': {
+      const { orderId } = event;
+      if (!orderId) return;
+
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      if (!order) {
+        console.warn(`Payment event ${event.id} references unknown order ${orderId}`);
+        return;
+      }
+      if (order.paymentProvider !== provider) {
+        console.warn(
+          `Payment event ${event.id} from ${provider} ignored: order ${orderId} is paid with ${order.paymentProvider}`,
+        );
+        return;
+      }
+
+      try {
+        await prisma.$transaction((tx) =>
+          transitionOrder(tx, orderId, 'PAID', {
+            note: 'Payment received',
+            data: { paymentIntentId: event.paymentId },
+          }),
+        );
+      } catch (error) {
+        // Already paid, or cancelled before the payment landed
+        if (!(error instanceof InvalidTransitionError)) throw error;
+        if (error.from === 'CANCELLED' && event.paymentId) {
+          const cancelled = await prisma.order.findUniqueOrThrow({ where: { id: orderId } });
+          await refundLatePayment(provider, cancelled, event.paymentId);
+          return;
+        }
+        console.warn(`Payment event ${event.id} ignored: ${error.message}`);
+      }
+      return;
+    }
+    case 'payment.failed': {
+      const order = event.orderId
+        ? await prisma.order.findFirst({ where: { id: event.orderId, paymentProvider: provider } })
+        : event.paymentId
+          ? await prisma.order.findFirst({
+              where: { paymentIntentId: event.paymentId, paymentProvider: provider },
+            })
+          : null;
+
+      // A failure arriving after the payment succeeded must not cancel a paid order
+      if (!order || order.status !== 'PENDING') return;
+
+      try {
+        // Cancelling releases the reserved stock and coupon usage
+        await prisma.$transaction((tx) =>
+          transitionOrder(tx, order.id, 'CANCELLED', { note: 'Payment failed' }),
+        );
+      } catch (error) {
+        if (!(error instanceof InvalidTransitionError)) throw error;
+        console.warn(`Payment event ${event.id} ignored: ${error.message}`);
+      }
+      return;
+    }
+    case 'payment.refunded': {
+      if (event.paymentId && event.totalRefundedCents !== undefined) {
+        await recordExternalRefund(
+          provider,
+          event.paymentId,
+          event.totalRefundedCents,
+          event.refundIds,
+        );
+      }
+      return;
+    }
+    default:
+      return;
+  }
+}
+
+/**
+ * Store a verified event in the inbox and handle it unless it was already processed
+ */
+export async function ingestPaymentEvent(
+  provider: string,
+  event: PaymentEvent,
+): Promise<'processed' | 'duplicate' | 'failed'> {
+  const stored = await receiveWebhookEvent(
+    provider,
+    event.id,
+    event.type,
+    event as unknown as Prisma.InputJsonValue,
+  );
+  if (!stored) return 'duplicate';
+
+  const processed = await processWebhookEvent(stored, (payload) =>
+    handlePaymentEvent(provider, payload as unknown as PaymentEvent),
+  );
+  return processed ? 'processed' : 'failed';
+}
@@ -0,0 +1,73 @@
+import { IncomingHttpHeaders } from 'http';
+import { Prisma } from '@prisma/client';
+
+export type PaymentProviderName = 'STRIPE' | 'FAKE';
+
+// Stripe rejects checkout sessions that expire sooner than this
+export const MIN_SESSION_MINUTES = 30;
+
+export type CheckoutOrder = Prisma.OrderGetPayload<{
+  include: { items: { include: { product: true; variant: true } } };
+}>;
+
+export interface CreateSessionInput {
+  order: CheckoutOrder;
+  successUrl: string;
+  cancelUrl: string;
+  // The session stops accepting payment at this time
+  expiresAt: Date;
+}
+
+export interface PaymentSession {
+  id: string;
+  url: string;
+}
+
+/**
+ * Provider-neutral webhook event. This is what gets stored in the webhook inbox,
+ * so replays do not depend on the provider SDK.
+ */
+export interface PaymentEvent {
+  id: string;
+  // The provider's own event type, e.g. checkout.session.completed
+  type: string;
+  action?: 'payment.succeeded' | 'payment.failed' | 'payment.refunded';
+  orderId?: string;
+  paymentId?: string;
+  // Cumulative amount refunded for the payment (payment.refunded only)
+  totalRefundedCents?: number;
+  // Provider IDs of the payment's refunds, when the event includes them (payment.refunded only)
+  refundIds?: string[];
+  raw?: unknown;
+}
+
+export interface RefundInput {
+  orderId: string;
+  paymentId: string;
+  amountCents: number;
+  reason?: string;
+  idempotencyKey: string;
+}
+
+export interface ProviderRefund {
+  id: string;
+}
+
+export interface PaymentDetails {
+  id: string;
+  status: 'pending' | 'succeeded' | 'failed' | 'canceled';
+  amountCents: number;
+  currency: string;
+  orderId?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  createSession(input: CreateSessionInput): Promise<PaymentSession>;
+  // Close a session so it can no longer be paid
+  expireSession(sessionId: string): Promise<void>;
+  // Throws if the payload is not authentic
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent;
+  refund(input: RefundInput): Promise<ProviderRefund>;
+  retrievePayment(paymentId: string): Promise<PaymentDetails>;
+}
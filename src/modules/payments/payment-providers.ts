@@ -0,0 +1,38 @@
+import { env } from '../../config/env';
+import { stripe } from '../../config/stripe';
+import { FakePaymentProvider } from './fake-provider';
+import { PaymentProvider, PaymentProviderName } from './payment-provider';
+import { StripePaymentProvider } from './stripe-provider';
+
+const stripeProvider = stripe ? new StripePaymentProvider(stripe) : null;
+export const fakePaymentProvider = new FakePaymentProvider();
+
+/**
+ * The fake provider marks orders paid without moving money, so it only exists when selected
+ * with `PAYMENT_PROVIDER=FAKE` or under test, and never in production
+ */
+export function fakePaymentsEnabled() {
+  if (env.NODE_ENV === 'production') return false;
+  return env.PAYMENT_PROVIDER === 'FAKE' || env.NODE_ENV === 'test';
+}
+
+/**
+ * Provider new orders are paid with
+ */
+export function defaultPaymentProviderName(): PaymentProviderName {
+  return env.PAYMENT_PROVIDER ?? 'STRIPE';
+}
+
+/**
+ * Look up a provider by the name stored on the order. Returns null if it is not configured.
+ */
+export function getPaymentProvider(name: string): PaymentProvider | null {
+  switch (name.toUpperCase()) {
+    case 'STRIPE':
+      return stripeProvider;
+    case 'FAKE':
+      return fakePaymentsEnabled() ? fakePaymentProvider : null;
+    default:
+      return null;
+  }
+}
@@ -1,92 +1,163 @@
 import { Request, Response } from 'express';
-import Stripe from 'stripe';
+import { Prisma, WebhookEventStatus } from '@prisma/client';
 
 import { prisma } from '../../config/prisma';
 import { env } from '../../config/env';
-import { stripe } from '../../config/stripe';
+import { handlePaymentEvent, ingestPaymentEvent } from './payment-events';
+import { MIN_SESSION_MINUTES, PaymentEvent } from './payment-provider';
+import { fakePaymentProvider, fakePaymentsEnabled, getPaymentProvider } from './payment-providers';
+import { CompleteFakeSessionInput } from './payments.schema';
+import { processWebhookEvent } from './webhook-inbox';
 
 export async function createCheckoutSession(req: Request, res: Response) {
-  if (!stripe) return res.status(500).json({ message: 'Stripe is not configured' });
   const { orderId } = req.body as { orderId: string };
   const order = await prisma.order.findUnique({
     where: { id: orderId },
-    include: { items: { include: { product: true } } },
+    include: { items: { include: { product: true, variant: true } } },
   });
   if (!order) return res.status(404).json({ message: 'Order not found' });
   if (order.userId !== req.user!.id && req.user!.role !== 'ADMIN')
     return res.status(403).json({ message: 'Forbidden' });
   if (order.status !== 'PENDING') return res.status(400).json({ message: 'Order not payable' });
+  const now = new Date();
+  if (order.reservationExpiresAt && order.reservationExpiresAt <= now)
+    return res.status(400).json({ message: 'Order reservation has expired' });
 
-  const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = order.items.map((it) => ({
-    price_data: {
-      currency: order.currency.toLowerCase(),
-      unit_amount: it.unitPriceCents,
-      product_data: { name: it.product.title },
-    },
-    quantity: it.quantity,
-  }));
-
-  const session = await stripe.checkout.sessions.create(
-    {
-      mode: 'payment',
-      line_items: lineItems,
-      success_url: `${env.CLIENT_URL || env.APP_URL}/checkout/success?orderId=${order.id}`,
-      cancel_url: `${env.CLIENT_URL || env.APP_URL}/checkout/cancel?orderId=${order.id}`,
-      metadata: { orderId: order.id },
-    },
-    { idempotencyKey: `order_${order.id}` },
-  );
+  const provider = getPaymentProvider(order.paymentProvider);
+  if (!provider) {
+    return res
+      .status(500)
+      .json({ message: `Payment provider ${order.paymentProvider} is not configured` });
+  }
 
-  res.json({ url: session.url });
-}
+  // The session closes when the reservation runs out. Providers need sessions to stay open
+  // for a minimum time, so the first checkout extends a reservation that is nearly over;
+  // later calls keep the same expiry and get the same session back.
+  let expiresAt = order.reservationExpiresAt;
+  const minExpiresAt = new Date(now.getTime() + MIN_SESSION_MINUTES * 60 * 1000);
+  if (!order.checkoutSessionId && (!expiresAt || expiresAt < minExpiresAt)) {
+    await prisma.order.updateMany({
+      where: { id: order.id, checkoutSessionId: null, reservationExpiresAt: expiresAt },
+      data: { reservationExpiresAt: minExpiresAt },
+    });
+    // A concurrent checkout may have extended it first
+    ({ reservationExpiresAt: expiresAt } = await prisma.order.findUniqueOrThrow({
+      where: { id: order.id },
+      select: { reservationExpiresAt: true },
+    }));
+  }
 
-export async function stripeWebhook(req: Request, res: Response) {
-  if (!stripe || !env.STRIPE_WEBHOOK_SECRET)
-    return res.status(500).json({ message: 'Stripe webhook not configured' });
+  const session = await provider.createSession({
+    order,
+    successUrl: `${env.CLIENT_URL || env.APP_URL}/checkout/success?orderId=${order.id}`,
+    cancelUrl: `${env.CLIENT_URL || env.APP_URL}/checkout/cancel?orderId=${order.id}`,
+    expiresAt: expiresAt ?? minExpiresAt,
+  });
+  await prisma.order.update({
+    where: { id: order.id },
+    data: { checkoutSessionId: session.id },
+  });
+
+  res.json({ url: session.url, sessionId: session.id, provider: provider.name });
+}
 
-  const sig = req.headers['stripe-signature'];
-  if (!sig) return res.status(400).send('Missing signature');
+export async function paymentWebhook(req: Request, res: Response) {
+  const { provider: providerName } = req.params as { provider: string };
+  const provider = getPaymentProvider(providerName);
+  if (!provider) return res.status(500).json({ message: 'Payment webhook not configured' });
 
-  let event: Stripe.Event;
+  let event: PaymentEvent;
   try {
-    event = stripe.webhooks.constructEvent(
-      req.body as unknown as Buffer,
-      sig as string,
-      env.STRIPE_WEBHOOK_SECRET,
-    );
+    event = provider.verifyWebhook(req.body as Buffer, req.headers);
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : 'Unknown error';
     return res.status(400).send(`Webhook Error: ${message}`);
   }
 
-  switch (event.type) {
-    case 'checkout.session.completed': {
-      const session = event.data.object as Stripe.Checkout.Session;
-      const orderId = session.metadata?.orderId;
-      if (orderId) {
-        try {
-          await prisma.order.update({
-            where: { id: orderId },
-            data: { status: 'PAID', paymentIntentId: session.payment_intent as string },
-          });
-        } catch (error) {
-          // Order might not exist (e.g., in tests), log but don't fail webhook
-          console.error(`Failed to update order ${orderId}:`, error);
-        }
-      }
-      break;
-    }
-    case 'payment_intent.payment_failed': {
-      const pi = event.data.object as Stripe.PaymentIntent;
-      const order = await prisma.order.findFirst({ where: { paymentIntentId: pi.id } });
-      if (order) {
-        await prisma.order.update({ where: { id: order.id }, data: { status: 'CANCELLED' } });
-      }
-      break;
-    }
-    default:
-      break;
-  }
+  const outcome = await ingestPaymentEvent(provider.name, event);
+  if (outcome === 'duplicate') return res.json({ received: true, duplicate: true });
+  // A non-2xx response makes the provider redeliver the event, which retries the failed handler
+  if (outcome === 'failed') return res.status(500).json({ message: 'Webhook processing failed' });
 
   res.json({ received: true });
 }
+
+export async function completeFakeSession(req: Request, res: Response) {
+  const { sessionId } = req.params as { sessionId: string };
+  const { outcome } = req.body as Partial<CompleteFakeSessionInput>;
+
+  if (!fakePaymentsEnabled()) {
+    return res.status(404).json({ message: 'Payment session not found' });
+  }
+
+  let event: PaymentEvent;
+  try {
+    event = fakePaymentProvider.completeSession(sessionId, outcome || 'succeeded');
+  } catch {
+    return res.status(404).json({ message: 'Payment session not found' });
+  }
+
+  const order = await prisma.order.findUnique({ where: { id: event.orderId } });
+  if (!order || order.paymentProvider !== 'FAKE') {
+    return res.status(404).json({ message: 'Payment session not found' });
+  }
+  if (order.userId !== req.user!.id && req.user!.role !== 'ADMIN') {
+    return res.status(403).json({ message: 'Forbidden' });
+  }
+
+  const result = await ingestPaymentEvent(fakePaymentProvider.name, event);
+  if (result === 'failed') return res.status(500).json({ message: 'Payment processing failed' });
+
+  const updated = await prisma.order.findUniqueOrThrow({ where: { id: order.id } });
+  return res.json({ order: updated });
+}
+
+export async function listWebhookEvents(req: Request, res: Response) {
+  const { status, type, limit, offset } = req.query as {
+    status?: WebhookEventStatus;
+    type?: string;
+    limit?: string;
+    offset?: string;
+  };
+
+  const where: Prisma.WebhookEventWhereInput = {};
+  if (status) where.status = status;
+  if (type) where.type = type;
+
+  const take = limit ? parseInt(limit, 10) : 20;
+  const skip = offset ? parseInt(offset, 10) : 0;
+
+  const [events, total] = await Promise.all([
+    prisma.webhookEvent.findMany({ where, orderBy: { receivedAt: 'desc' }, take, skip }),
+    prisma.webhookEvent.count({ where }),
+  ]);
+
+  return res.json({
+    events,
+    pagination: {
+      total,
+      limit: take,
+      offset: skip,
+      hasMore: skip + take < total,
+    },
+  });
+}
+
+export async function replayWebhookEvent(req: Request, res: Response) {
+  const { id } = req.params as { id: string };
+
+  const event = await prisma.webhookEvent.findUnique({ where: { id } });
+  if (!event) {
+    return res.status(404).json({ message: 'Webhook event not found' });
+  }
+  if (event.status === 'PROCESSED') {
+    return res.status(409).json({ message: 'Webhook event has already been processed' });
+  }
+
+  await processWebhookEvent(event, (payload) =>
+    handlePaymentEvent(event.provider, payload as unknown as PaymentEvent),
+  );
+
+  const updated = await prisma.webhookEvent.findUniqueOrThrow({ where: { id } });
+  return res.json({ event: updated });
+}
@@ -1,7 +1,20 @@
 import express, { Router } from 'express';
 
-import { createCheckoutSession, stripeWebhook } from './payments.controller';
-import { authGuard } from '../../middleware/auth';
+import {
+  completeFakeSession,
+  createCheckoutSession,
+  listWebhookEvents,
+  paymentWebhook,
+  replayWebhookEvent,
+} from './payments.controller';
+import { completeFakeSessionSchema, webhookEventsQuerySchema } from './payments.schema';
+import {
+  authGuard,
+  requireKeyScope,
+  requireRole,
+  requireVerifiedEmail,
+} from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
 
 export const paymentsRouter = Router();
 
@@ -9,7 +22,7 @@ export const paymentsRouter = Router();
  * @swagger
  * /api/v1/payments/checkout:
  *   post:
- *     summary: Create Stripe checkout session
+ *     summary: Create a checkout session with the order's payment provider
  *     tags: [Payments]
  *     security:
  *       - bearerAuth: []
@@ -37,27 +50,103 @@ export const paymentsRouter = Router();
  *                 url:
  *                   type: string
  *                   format: uri
- *                   description: Stripe Checkout URL
+ *                   description: Checkout URL (for the fake provider, the local completion endpoint)
+ *                 sessionId:
+ *                   type: string
+ *                 provider:
+ *                   type: string
+ *                   enum: [STRIPE, FAKE]
  *       400:
  *         description: Invalid order or order already paid
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
- *         description: Forbidden (can only checkout own orders)
+ *         description: |
+ *           Forbidden (can only checkout own orders), or the email address is not verified
+ *           (`code: EMAIL_NOT_VERIFIED`)
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         description: The order's payment provider is not configured
+ */
+paymentsRouter.post(
+  '/checkout',
+  authGuard,
+  requireKeyScope('account'),
+  requireVerifiedEmail('checkout'),
+  createCheckoutSession,
+);
+
+/**
+ * @swagger
+ * /api/v1/payments/fake/sessions/{sessionId}/complete:
+ *   post:
+ *     summary: Complete a fake payment session (development and tests only)
+ *     description: |
+ *       Simulates the customer finishing checkout with the offline FAKE provider.
+ *       The resulting event goes through the same inbox and handlers as real webhooks.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               outcome:
+ *                 type: string
+ *                 enum: [succeeded, failed]
+ *                 default: succeeded
+ *     responses:
+ *       200:
+ *         description: Payment applied to the order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 order:
+ *                   $ref: '#/components/schemas/Order'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Forbidden (can only pay own orders)
  *       404:
  *         $ref: '#/components/responses/NotFound'
  */
-paymentsRouter.post('/checkout', authGuard, createCheckoutSession);
+paymentsRouter.post(
+  '/fake/sessions/:sessionId/complete',
+  authGuard,
+  requireKeyScope('account'),
+  validate({ body: completeFakeSessionSchema }),
+  completeFakeSession,
+);
 
 /**
  * @swagger
- * /api/v1/payments/stripe/webhook:
+ * /api/v1/payments/{provider}/webhook:
  *   post:
- *     summary: Stripe webhook endpoint
+ *     summary: Payment provider webhook endpoint
  *     tags: [Payments]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [stripe, fake]
  *     description: |
- *       This endpoint receives webhook events from Stripe.
+ *       This endpoint receives webhook events from the payment provider (e.g. Stripe).
  *       It updates order status when payment is completed.
+ *       Every event is stored in an inbox; redeliveries of processed events are ignored.
  *       **Note:** This endpoint requires raw body for signature verification.
  *     requestBody:
  *       required: true
@@ -65,12 +154,121 @@ paymentsRouter.post('/checkout', authGuard, createCheckoutSession);
  *         application/json:
  *           schema:
  *             type: object
- *             description: Stripe webhook event
+ *             description: Provider webhook event
  *     responses:
  *       200:
- *         description: Webhook processed successfully
+ *         description: Webhook processed successfully (or ignored as a duplicate)
  *       400:
  *         description: Invalid webhook signature or payload
+ *       500:
+ *         description: Event handler failed; the event is stored and can be replayed
+ */
+// Providers sign the raw body, so it must not be JSON-parsed before verification
+paymentsRouter.post(
+  '/:provider/webhook',
+  express.raw({ type: 'application/json' }),
+  paymentWebhook,
+);
+
+/**
+ * @swagger
+ * /api/v1/payments/webhooks/events:
+ *   get:
+ *     summary: List stored webhook events (Admin only)
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [RECEIVED, PROCESSED, FAILED]
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *         description: Event type, e.g. checkout.session.completed
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Webhook events, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 events:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WebhookEvent'
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     total: { type: integer }
+ *                     limit: { type: integer }
+ *                     offset: { type: integer }
+ *                     hasMore: { type: boolean }
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Forbidden (Admin only)
+ */
+paymentsRouter.get(
+  '/webhooks/events',
+  authGuard,
+  requireRole('ADMIN'),
+  validate({ query: webhookEventsQuerySchema }),
+  listWebhookEvents,
+);
+
+/**
+ * @swagger
+ * /api/v1/payments/webhooks/events/{id}/replay:
+ *   post:
+ *     summary: Re-run the handler for a stored webhook event (Admin only)
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Webhook event ID
+ *     responses:
+ *       200:
+ *         description: Replay finished; check the event status for the outcome
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 event:
+ *                   $ref: '#/components/schemas/WebhookEvent'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Forbidden (Admin only)
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Event has already been processed
  */
-// Stripe requires raw body for signature verification
-paymentsRouter.post('/stripe/webhook', express.raw({ type: 'application/json' }), stripeWebhook);
+paymentsRouter.post(
+  '/webhooks/events/:id/replay',
+  authGuard,
+  requireRole('ADMIN'),
+  replayWebhookEvent,
+);
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { WebhookEventStatus } from '@prisma/client';
+
+export const webhookEventsQuerySchema = z.object({
+  status: z.nativeEnum(WebhookEventStatus).optional(),
+  type: z.string().max(100).optional(),
+  limit: z.string().regex(/^\d+$/).transform(Number).optional(),
+  offset: z.string().regex(/^\d+$/).transform(Number).optional(),
+});
+
+export const completeFakeSessionSchema = z.object({
+  outcome: z.enum(['succeeded', 'failed']).default('succeeded'),
+});
+
+export type CompleteFakeSessionInput = z.infer<typeof completeFakeSessionSchema>;
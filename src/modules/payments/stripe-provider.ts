@@ -0,0 +1,157 @@
+import { IncomingHttpHeaders } from 'http';
+import Stripe from 'stripe';
+
+import { env } from '../../config/env';
+import {
+  CreateSessionInput,
+  PaymentDetails,
+  PaymentEvent,
+  PaymentProvider,
+  PaymentSession,
+  ProviderRefund,
+  RefundInput,
+} from './payment-provider';
+
+const PAYMENT_INTENT_STATUS: Record<Stripe.PaymentIntent.Status, PaymentDetails['status']> = {
+  requires_payment_method: 'pending',
+  requires_confirmation: 'pending',
+  requires_action: 'pending',
+  processing: 'pending',
+  requires_capture: 'pending',
+  succeeded: 'succeeded',
+  canceled: 'canceled',
+};
+
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'STRIPE' as const;
+
+  constructor(private readonly client: Stripe) {}
+
+  async createSession({
+    order,
+    successUrl,
+    cancelUrl,
+    expiresAt,
+  }: CreateSessionInput): Promise<PaymentSession> {
+    const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = order.items.map((it) => ({
+      price_data: {
+        currency: order.currency.toLowerCase(),
+        unit_amount: it.unitPriceCents,
+        product_data: {
+          name: it.variant ? `${it.product.title} (${it.variant.name})` : it.product.title,
+        },
+      },
+      quantity: it.quantity,
+    }));
+
+    const session = await this.client.checkout.sessions.create(
+      {
+        mode: 'payment',
+        line_items: lineItems,
+        success_url: successUrl,
+        cancel_url: cancelUrl,
+        expires_at: Math.floor(expiresAt.getTime() / 1000),
+        metadata: { orderId: order.id },
+        // Lets payment_intent.* events be matched to the order before it is paid
+        payment_intent_data: { metadata: { orderId: order.id } },
+      },
+      { idempotencyKey: `order_${order.id}` },
+    );
+
+    return { id: session.id, url: session.url as string };
+  }
+
+  async expireSession(sessionId: string): Promise<void> {
+    const session = await this.client.checkout.sessions.retrieve(sessionId);
+    // Stripe only expires open sessions, and closes them itself at `expires_at`
+    if (session.status === 'open') {
+      await this.client.checkout.sessions.expire(sessionId);
+    }
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent {
+    const sig = headers['stripe-signature'];
+    if (!sig) throw new Error('Missing signature');
+    if (!env.STRIPE_WEBHOOK_SECRET) throw new Error('Stripe webhook secret is not configured');
+
+    const event = this.client.webhooks.constructEvent(
+      rawBody,
+      sig as string,
+      env.STRIPE_WEBHOOK_SECRET,
+    );
+
+    switch (event.type) {
+      case 'checkout.session.completed': {
+        const session = event.data.object as Stripe.Checkout.Session;
+        return {
+          id: event.id,
+          type: event.type,
+          action: 'payment.succeeded',
+          orderId: session.metadata?.orderId,
+          paymentId: session.payment_intent as string,
+          raw: event,
+        };
+      }
+      case 'payment_intent.payment_failed': {
+        const pi = event.data.object as Stripe.PaymentIntent;
+        return {
+          id: event.id,
+          type: event.type,
+          action: 'payment.failed',
+          orderId: pi.metadata?.orderId,
+          paymentId: pi.id,
+          raw: event,
+        };
+      }
+      case 'charge.refunded': {
+        const charge = event.data.object as Stripe.Charge;
+        return {
+          id: event.id,
+          type: event.type,
+          action: 'payment.refunded',
+          paymentId:
+            typeof charge.payment_intent === 'string'
+              ? charge.payment_intent
+              : charge.payment_intent?.id,
+          totalRefundedCents: charge.amount_refunded,
+          refundIds: charge.refunds?.data.map((refund) => refund.id),
+          raw: event,
+        };
+      }
+      default:
+        return { id: event.id, type: event.type, raw: event };
+    }
+  }
+
+  async refund({
+    orderId,
+    paymentId,
+    amountCents,
+    reason,
+    idempotencyKey,
+  }: RefundInput): Promise<ProviderRefund> {
+    const refund = await this.client.refunds.create(
+      {
+        payment_intent: paymentId,
+        amount: amountCents,
+        metadata: { orderId, ...(reason ? { reason } : {}) },
+      },
+      { idempotencyKey },
+    );
+    return { id: refund.id };
+  }
+
+  async retrievePayment(paymentId: string): Promise<PaymentDetails> {
+    const pi = await this.client.paymentIntents.retrieve(paymentId);
+    return {
+      id: pi.id,
+      status:
+        pi.status === 'requires_payment_method' && pi.last_payment_error
+          ? 'failed'
+          : PAYMENT_INTENT_STATUS[pi.status],
+      amountCents: pi.amount,
+      currency: pi.currency.toUpperCase(),
+      orderId: pi.metadata?.orderId,
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { Prisma, WebhookEvent } from '@prisma/client';
+
+import { prisma } from '../../config/prisma';
+
+// How long a processing attempt may run before a redelivery can take the event over
+const CLAIM_TIMEOUT_MINUTES = 5;
+
+export type WebhookHandler = (payload: Prisma.JsonValue) => Promise<void>;
+
+/**
+ * Store an incoming provider event in the inbox.
+ * Returns null for redeliveries of events that were already processed (or are being processed);
+ * events whose previous attempt failed, or was abandoned mid-way for longer than
+ * CLAIM_TIMEOUT_MINUTES, are handed back so they can be retried.
+ */
+export async function receiveWebhookEvent(
+  provider: string,
+  eventId: string,
+  type: string,
+  payload: Prisma.InputJsonValue,
+): Promise<WebhookEvent | null> {
+  try {
+    return await prisma.webhookEvent.create({ data: { provider, eventId, type, payload } });
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+      throw error;
+    }
+  }
+
+  // Claim the failed or abandoned event so concurrent redeliveries don't both retry it
+  const now = new Date();
+  const { count } = await prisma.webhookEvent.updateMany({
+    where: {
+      provider,
+      eventId,
+      OR: [
+        { status: 'FAILED' },
+        {
+          status: 'RECEIVED',
+          claimedAt: { lt: new Date(now.getTime() - CLAIM_TIMEOUT_MINUTES * 60 * 1000) },
+        },
+      ],
+    },
+    data: { status: 'RECEIVED', claimedAt: now },
+  });
+  if (count === 0) return null;
+
+  return prisma.webhookEvent.findUnique({
+    where: { provider_eventId: { provider, eventId } },
+  });
+}
+
+/**
+ * Run the handler for a stored event and record the outcome. Returns false if the handler threw.
+ */
+export async function processWebhookEvent(
+  event: WebhookEvent,
+  handler: WebhookHandler,
+): Promise<boolean> {
+  try {
+    await handler(event.payload);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Failed to process ${event.provider} event ${event.eventId}:`, error);
+    await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: { status: 'FAILED', attempts: { increment: 1 }, lastError: message },
+    });
+    return false;
+  }
+
+  await prisma.webhookEvent.update({
+    where: { id: event.id },
+    data: {
+      status: 'PROCESSED',
+      attempts: { increment: 1 },
+      lastError: null,
+      processedAt: new Date(),
+    },
+  });
+  return true;
+}
@@ -0,0 +1,223 @@
+import { Prisma } from '@prisma/client';
+
+import { prisma } from '../../config/prisma';
+
+export const SEARCH_SORT_FIELDS = [
+  'relevance',
+  'title',
+  'priceCents',
+  'createdAt',
+  'stock',
+] as const;
+
+export type SearchSortField = (typeof SEARCH_SORT_FIELDS)[number];
+
+export interface ProductSearchFilters {
+  q?: string;
+  // Rewrites of `q` with synonyms substituted; a product matching any of them matches
+  expandedQueries?: string[];
+  categoryId?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  // Active products only by default; null includes inactive ones
+  active?: boolean | null;
+}
+
+export interface ProductSearchOptions extends ProductSearchFilters {
+  sortBy: SearchSortField;
+  sortOrder: 'asc' | 'desc';
+  skip: number;
+  take: number;
+  // Build `<mark>`-highlighted snippets for the hits (default true)
+  highlight?: boolean;
+}
+
+export interface ProductSearchHit {
+  id: string;
+  relevance: number | null;
+  highlight: { title: string; description: string } | null;
+}
+
+const SORT_COLUMNS: Record<Exclude<SearchSortField, 'relevance'>, Prisma.Sql> = {
+  title: Prisma.sql`p."title"`,
+  priceCents: Prisma.sql`p."priceCents"`,
+  createdAt: Prisma.sql`p."createdAt"`,
+  stock: Prisma.sql`p."stock"`,
+};
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>';
+
+/**
+ * Parse free text the way a search box would: quoted phrases, `or` and `-excluded` words.
+ * Expanded queries are OR-ed in.
+ */
+function tsQuery(q: string, expandedQueries: string[] = []) {
+  const queries = [q, ...expandedQueries].map(
+    (query) => Prisma.sql`websearch_to_tsquery('english', ${query})`,
+  );
+  return Prisma.sql`(${Prisma.join(queries, ' || ')})`;
+}
+
+/**
+ * WHERE clause for products matching the filters. Text matching goes through the
+ * GIN-indexed `searchVector`, so "shoes" also finds "shoe".
+ */
+export function productSearchWhere(filters: ProductSearchFilters) {
+  const conditions: Prisma.Sql[] = [];
+  if (filters.active !== null) conditions.push(Prisma.sql`p."active" = ${filters.active ?? true}`);
+  if (filters.q)
+    conditions.push(Prisma.sql`p."searchVector" @@ ${tsQuery(filters.q, filters.expandedQueries)}`);
+  if (filters.categoryId) conditions.push(Prisma.sql`p."categoryId" = ${filters.categoryId}`);
+  if (filters.minPrice !== undefined) {
+    conditions.push(Prisma.sql`p."priceCents" >= ${filters.minPrice}`);
+  }
+  if (filters.maxPrice !== undefined) {
+    conditions.push(Prisma.sql`p."priceCents" <= ${filters.maxPrice}`);
+  }
+  if (filters.inStock) conditions.push(Prisma.sql`p."stock" > 0`);
+  return conditions.length > 0
+    ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`
+    : Prisma.empty;
+}
+
+/**
+ * Run a filtered, sorted and paged product search. Relevance ranks title matches above
+ * description matches and falls back to newest first without a query. With a query, each hit
+ * carries `<mark>`-highlighted title and description snippets.
+ */
+export async function searchProductIds(
+  options: ProductSearchOptions,
+): Promise<{ hits: ProductSearchHit[]; total: number }> {
+  const where = productSearchWhere(options);
+  const q = options.q;
+  const query = q ? tsQuery(q, options.expandedQueries) : null;
+  const { sortBy } = options;
+  const direction = Prisma.raw(options.sortOrder === 'asc' ? 'ASC' : 'DESC');
+
+  const relevance = query ? Prisma.sql`ts_rank_cd(p."searchVector", ${query})` : Prisma.sql`NULL`;
+  const sortColumn =
+    sortBy === 'relevance'
+      ? q
+        ? Prisma.sql`relevance`
+        : SORT_COLUMNS.createdAt
+      : SORT_COLUMNS[sortBy];
+
+  const [rows, [{ total }]] = await Promise.all([
+    prisma.$queryRaw<{ id: string; relevance: number | null }[]>`
+      SELECT p."id", ${relevance}::float8 AS relevance
+      FROM "Product" p
+      ${where}
+      ORDER BY ${sortColumn} ${direction}, p."createdAt" DESC, p."id"
+      OFFSET ${options.skip} LIMIT ${options.take}
+    `,
+    prisma.$queryRaw<{ total: number }[]>`
+      SELECT COUNT(*)::int AS total FROM "Product" p ${where}
+    `,
+  ]);
+
+  // Headlines are expensive, so only build them for the page being returned
+  const highlights = new Map<string, { title: string; description: string }>();
+  if (query && options.highlight !== false && rows.length > 0) {
+    const ids = rows.map((row) => row.id);
+    const snippets = await prisma.$queryRaw<{ id: string; title: string; description: string }[]>`
+      SELECT p."id",
+        ts_headline('english', p."title", ${query}, ${`HighlightAll=true, ${HEADLINE_OPTIONS}`}) AS title,
+        ts_headline('english', p."description", ${query},
+          ${`MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … ", ${HEADLINE_OPTIONS}`}) AS description
+      FROM "Product" p
+      WHERE p."id" IN (${Prisma.join(ids)})
+    `;
+    for (const snippet of snippets) {
+      highlights.set(snippet.id, { title: snippet.title, description: snippet.description });
+    }
+  }
+
+  return {
+    hits: rows.map((row) => ({
+      id: row.id,
+      relevance: row.relevance,
+      highlight: highlights.get(row.id) ?? null,
+    })),
+    total,
+  };
+}
+
+// Upper bounds (exclusive, in cents) of the price histogram buckets; the last bucket is open
+const PRICE_BUCKET_BOUNDS = [2500, 5000, 10000, 25000, 50000];
+const RATING_BANDS = [4, 3, 2, 1];
+
+export interface ProductSearchFacets {
+  categories: { id: string; name: string; slug: string; count: number }[];
+  price: { minCents: number; maxCents: number | null; count: number }[];
+  rating: { minRating: number | null; count: number }[];
+  stock: { inStock: number; outOfStock: number };
+}
+
+/**
+ * Counts for each facet of the current search. A facet ignores its own filter and applies
+ * all the others, so selecting a category still shows how many results the other categories
+ * would have. Price buckets are half-open ranges; rating bands count products whose average
+ * review is at least `minRating`, plus unreviewed products under `minRating: null`.
+ */
+export async function searchProductFacets(
+  filters: ProductSearchFilters,
+): Promise<ProductSearchFacets> {
+  const bounds = Prisma.sql`ARRAY[${Prisma.join(PRICE_BUCKET_BOUNDS)}]::int[]`;
+
+  const [categories, priceRows, [ratingRow], [stock]] = await Promise.all([
+    prisma.$queryRaw<ProductSearchFacets['categories']>`
+      SELECT c."id", c."name", c."slug", COUNT(*)::int AS count
+      FROM "Product" p
+      JOIN "Category" c ON c."id" = p."categoryId"
+      ${productSearchWhere({ ...filters, categoryId: undefined })}
+      GROUP BY c."id"
+      ORDER BY count DESC, c."name"
+    `,
+    prisma.$queryRaw<{ bucket: number; count: number }[]>`
+      SELECT width_bucket(p."priceCents", ${bounds}) AS bucket, COUNT(*)::int AS count
+      FROM "Product" p
+      ${productSearchWhere({ ...filters, minPrice: undefined, maxPrice: undefined })}
+      GROUP BY bucket
+    `,
+    prisma.$queryRaw<Record<string, number>[]>`
+      SELECT
+        ${Prisma.join(
+          RATING_BANDS.map(
+            (band) =>
+              Prisma.sql`COUNT(*) FILTER (WHERE r.average >= ${band})::int AS ${Prisma.raw(`"${band}"`)}`,
+          ),
+        )},
+        COUNT(*) FILTER (WHERE r.average IS NULL)::int AS unrated
+      FROM "Product" p
+      LEFT JOIN (
+        SELECT "productId", AVG("rating") AS average FROM "Review" GROUP BY "productId"
+      ) r ON r."productId" = p."id"
+      ${productSearchWhere(filters)}
+    `,
+    prisma.$queryRaw<ProductSearchFacets['stock'][]>`
+      SELECT
+        COUNT(*) FILTER (WHERE p."stock" > 0)::int AS "inStock",
+        COUNT(*) FILTER (WHERE p."stock" <= 0)::int AS "outOfStock"
+      FROM "Product" p
+      ${productSearchWhere({ ...filters, inStock: undefined })}
+    `,
+  ]);
+
+  const priceCounts = new Map(priceRows.map((row) => [row.bucket, row.count]));
+  const price = [0, ...PRICE_BUCKET_BOUNDS].map((minCents, index) => ({
+    minCents,
+    maxCents: PRICE_BUCKET_BOUNDS[index] ?? null,
+    count: priceCounts.get(index) ?? 0,
+  }));
+
+  return {
+    categories,
+    price,
+    rating: [
+      ...RATING_BANDS.map((band) => ({ minRating: band, count: ratingRow[band] })),
+      { minRating: null, count: ratingRow.unrated },
+    ],
+    stock,
+  };
+}
@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { Prisma } from '@prisma/client';
 
 import { prisma } from '../../config/prisma';
+import { searchProductIds } from './product-search';
 import { CreateProductInput, UpdateProductInput } from './products.schema';
 
 function slugify(input: string) {
@@ -28,12 +29,38 @@ export async function listProducts(req: Request, res: Response) {
   const currentPage = Math.max(Number(page) || 1, 1);
   const skip = (currentPage - 1) * take;
 
+  if (q) {
+    // Text matching needs SQL, so filtering, sorting and paging all happen in that one query
+    const categoryId = category
+      ? (await prisma.category.findUnique({ where: { slug: category }, select: { id: true } }))?.id
+      : undefined;
+    if (category && !categoryId) {
+      return res.json({ page: currentPage, limit: take, total: 0, items: [] });
+    }
+
+    const { hits, total } = await searchProductIds({
+      q,
+      categoryId,
+      minPrice: minPrice ? Number(minPrice) : undefined,
+      maxPrice: maxPrice ? Number(maxPrice) : undefined,
+      active: typeof active !== 'undefined' ? active === 'true' : null,
+      sortBy: sort === 'price_asc' || sort === 'price_desc' ? 'priceCents' : 'createdAt',
+      sortOrder: sort === 'price_asc' ? 'asc' : 'desc',
+      skip,
+      take,
+      highlight: false,
+    });
+    const found = await prisma.product.findMany({
+      where: { id: { in: hits.map((hit) => hit.id) } },
+      include: { category: true },
+    });
+    const byId = new Map(found.map((product) => [product.id, product]));
+    const items = hits.flatMap((hit) => byId.get(hit.id) ?? []);
+
+    return res.json({ page: currentPage, limit: take, total, items });
+  }
+
   const where: NonNullable<Parameters<typeof prisma.product.findMany>[0]>['where'] = {};
-  if (q)
-    where.OR = [
-      { title: { contains: q, mode: 'insensitive' } },
-      { description: { contains: q, mode: 'insensitive' } },
-    ];
   if (category) where.category = { slug: category };
   if (typeof active !== 'undefined') where.active = active === 'true';
   if (minPrice || maxPrice)
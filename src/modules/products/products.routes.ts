@@ -1,8 +1,12 @@
 import { Router } from 'express';
 
-import { authGuard, requireRole } from '../../middleware/auth';
+import { authGuard, requireKeyScope, requirePermission } from '../../middleware/auth';
 import { validate } from '../../middleware/validate';
-import { createProductSchema, updateProductSchema } from './products.schema';
+import {
+  createProductSchema,
+  searchProductsQuerySchema,
+  updateProductSchema,
+} from './products.schema';
 import {
   createProduct,
   deleteProduct,
@@ -84,7 +88,7 @@ productsRouter.get('/', listProducts);
  *         name: q
  *         schema:
  *           type: string
- *         description: Search query (searches in title and description)
+ *         description: Search query matched against title and description with stemming. Supports quoted phrases, "or" and -excluded words. Expanded with the synonym rules under /search/synonyms.
  *       - in: query
  *         name: categoryId
  *         schema:
@@ -110,15 +114,14 @@ productsRouter.get('/', listProducts);
  *         name: sortBy
  *         schema:
  *           type: string
- *           enum: [title, priceCents, createdAt, stock]
- *         description: Sort field
+ *           enum: [relevance, title, priceCents, createdAt, stock]
+ *         description: Sort field. Defaults to relevance when q is given (title matches rank above description matches), otherwise createdAt
  *       - in: query
  *         name: sortOrder
  *         schema:
  *           type: string
  *           enum: [asc, desc]
- *           default: desc
- *         description: Sort order
+ *         description: Sort order. Defaults to desc for relevance and createdAt, asc for other fields
  *       - in: query
  *         name: page
  *         schema:
@@ -130,7 +133,14 @@ productsRouter.get('/', listProducts);
  *         schema:
  *           type: integer
  *           default: 20
+ *           maximum: 100
  *         description: Items per page
+ *       - in: query
+ *         name: facets
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Include facet counts. Each facet applies every filter except its own
  *     responses:
  *       200:
  *         description: Search results with pagination
@@ -139,10 +149,31 @@ productsRouter.get('/', listProducts);
  *             schema:
  *               type: object
  *               properties:
+ *                 searchId:
+ *                   type: string
+ *                   format: uuid
+ *                   nullable: true
+ *                   description: Set on the first page of a text search; send it to /search/clicks when a result is opened
+ *                 redirect:
+ *                   $ref: '#/components/schemas/SearchRedirect'
  *                 products:
  *                   type: array
  *                   items:
- *                     $ref: '#/components/schemas/Product'
+ *                     allOf:
+ *                       - $ref: '#/components/schemas/Product'
+ *                       - type: object
+ *                         properties:
+ *                           relevance:
+ *                             type: number
+ *                             nullable: true
+ *                             description: Text match score, null without q
+ *                           highlight:
+ *                             type: object
+ *                             nullable: true
+ *                             description: Matched words wrapped in <mark> tags, null without q
+ *                             properties:
+ *                               title: { type: string }
+ *                               description: { type: string }
  *                 pagination:
  *                   type: object
  *                   properties:
@@ -151,8 +182,43 @@ productsRouter.get('/', listProducts);
  *                     limit: { type: integer }
  *                     totalPages: { type: integer }
  *                     hasMore: { type: boolean }
+ *                 facets:
+ *                   type: object
+ *                   description: Only present when facets=true
+ *                   properties:
+ *                     categories:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id: { type: string, format: uuid }
+ *                           name: { type: string }
+ *                           slug: { type: string }
+ *                           count: { type: integer }
+ *                     price:
+ *                       type: array
+ *                       description: Histogram buckets from minCents (inclusive) to maxCents (exclusive)
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           minCents: { type: integer }
+ *                           maxCents: { type: integer, nullable: true }
+ *                           count: { type: integer }
+ *                     rating:
+ *                       type: array
+ *                       description: Products whose average review is at least minRating; minRating null counts unreviewed products
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           minRating: { type: integer, nullable: true }
+ *                           count: { type: integer }
+ *                     stock:
+ *                       type: object
+ *                       properties:
+ *                         inStock: { type: integer }
+ *                         outOfStock: { type: integer }
  */
-productsRouter.get('/search', searchProducts);
+productsRouter.get('/search', validate({ query: searchProductsQuerySchema }), searchProducts);
 
 /**
  * @swagger
@@ -184,7 +250,7 @@ productsRouter.get('/search', searchProducts);
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  */
-productsRouter.get('/recommendations', authGuard, getRecommendations);
+productsRouter.get('/recommendations', authGuard, requireKeyScope('account'), getRecommendations);
 
 /**
  * @swagger
@@ -255,7 +321,7 @@ productsRouter.get('/:slug', getProductBySlug);
  * @swagger
  * /api/v1/products:
  *   post:
- *     summary: Create a new product (Admin only)
+ *     summary: Create a new product (requires catalog:write)
  *     tags: [Products]
  *     security:
  *       - bearerAuth: []
@@ -311,12 +377,12 @@ productsRouter.get('/:slug', getProductBySlug);
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
- *         description: Forbidden (Admin only)
+ *         description: Forbidden (requires catalog:write)
  */
 productsRouter.post(
   '/',
   authGuard,
-  requireRole('ADMIN'),
+  requirePermission('catalog:write'),
   validate({ body: createProductSchema }),
   createProduct,
 );
@@ -325,7 +391,7 @@ productsRouter.post(
  * @swagger
  * /api/v1/products/{id}:
  *   patch:
- *     summary: Update a product (Admin only)
+ *     summary: Update a product (requires catalog:write)
  *     tags: [Products]
  *     security:
  *       - bearerAuth: []
@@ -381,14 +447,14 @@ productsRouter.post(
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
- *         description: Forbidden (Admin only)
+ *         description: Forbidden (requires catalog:write)
  *       404:
  *         $ref: '#/components/responses/NotFound'
  */
 productsRouter.patch(
   '/:id',
   authGuard,
-  requireRole('ADMIN'),
+  requirePermission('catalog:write'),
   validate({ body: updateProductSchema }),
   updateProduct,
 );
@@ -397,7 +463,7 @@ productsRouter.patch(
  * @swagger
  * /api/v1/products/{id}:
  *   delete:
- *     summary: Delete a product (Admin only)
+ *     summary: Delete a product (requires catalog:write)
  *     tags: [Products]
  *     security:
  *       - bearerAuth: []
@@ -415,11 +481,11 @@ productsRouter.patch(
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
- *         description: Forbidden (Admin only)
+ *         description: Forbidden (requires catalog:write)
  *       404:
  *         $ref: '#/components/responses/NotFound'
  */
-productsRouter.delete('/:id', authGuard, requireRole('ADMIN'), deleteProduct);
+productsRouter.delete('/:id', authGuard, requirePermission('catalog:write'), deleteProduct);
 
 /**
  * @swagger
@@ -456,7 +522,7 @@ productsRouter.get('/:id/variants', getProductVariants);
  * @swagger
  * /api/v1/products/{id}/variants:
  *   post:
- *     summary: Add product variant (Admin only)
+ *     summary: Add product variant (requires catalog:write)
  *     tags: [Products]
  *     security:
  *       - bearerAuth: []
@@ -489,7 +555,7 @@ productsRouter.get('/:id/variants', getProductVariants);
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
- *         description: Forbidden (Admin only)
+ *         description: Forbidden (requires catalog:write)
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       409:
@@ -498,7 +564,7 @@ productsRouter.get('/:id/variants', getProductVariants);
 productsRouter.post(
   '/:id/variants',
   authGuard,
-  requireRole('ADMIN'),
+  requirePermission('catalog:write'),
   validate({ body: createVariantSchema }),
   createProductVariant,
 );
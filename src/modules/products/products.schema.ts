@@ -1,5 +1,7 @@
 import { z } from 'zod';
 
+import { SEARCH_SORT_FIELDS } from './product-search';
+
 export const createProductSchema = z.object({
   title: z.string().min(1),
   description: z.string().min(1),
@@ -14,5 +16,19 @@ export const createProductSchema = z.object({
 
 export const updateProductSchema = createProductSchema.partial();
 
+export const searchProductsQuerySchema = z.object({
+  q: z.string().max(200).optional(),
+  categoryId: z.string().uuid().optional(),
+  minPrice: z.string().regex(/^\d+$/).optional(),
+  maxPrice: z.string().regex(/^\d+$/).optional(),
+  inStock: z.enum(['true', 'false']).optional(),
+  sortBy: z.enum(SEARCH_SORT_FIELDS).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+  page: z.string().regex(/^\d+$/).optional(),
+  limit: z.string().regex(/^\d+$/).optional(),
+  facets: z.enum(['true', 'false']).optional(),
+});
+
 export type CreateProductInput = z.infer<typeof createProductSchema>;
 export type UpdateProductInput = z.infer<typeof updateProductSchema>;
+export type SearchProductsQuery = z.infer<typeof searchProductsQuerySchema>;
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 
 import { prisma } from '../../config/prisma';
+import { PURCHASED_ORDER_STATUSES } from '../orders/order-state';
 
 export async function getRecommendations(req: Request, res: Response) {
   const userId = req.user?.id;
@@ -11,7 +12,7 @@ export async function getRecommendations(req: Request, res: Response) {
   // Get user's order history to find categories they've purchased from
   const userOrders = userId
     ? await prisma.order.findMany({
-        where: { userId, status: { in: ['PAID', 'FULFILLED'] } },
+        where: { userId, status: { in: PURCHASED_ORDER_STATUSES } },
         include: {
           items: {
             include: {
@@ -0,0 +1,115 @@
+import { Prisma } from '@prisma/client';
+
+import { prisma } from '../../config/prisma';
+import { PURCHASED_ORDER_STATUSES } from '../orders/order-state';
+
+const PRODUCT_SUGGESTION_LIMIT = 10;
+const CATEGORY_SUGGESTION_LIMIT = 5;
+// Low enough that a transposed or dropped letter ("hoodei", "hodie") still matches
+const SIMILARITY_THRESHOLD = 0.3;
+// How much popularity can lift a weaker match; similarity still dominates the ranking
+const POPULARITY_WEIGHT = 0.05;
+
+export interface ProductSuggestion {
+  id: string;
+  title: string;
+  slug: string;
+  image: string | null;
+  matchedSku: string | null;
+  score: number;
+}
+
+export interface CategorySuggestion {
+  id: string;
+  name: string;
+  slug: string;
+  productCount: number;
+  score: number;
+}
+
+/**
+ * Fuzzy-match `q` against product titles and SKUs (including variant SKUs) and category
+ * names using pg_trgm word similarity, which tolerates typos and matches partial words.
+ * Products are ranked by similarity plus units sold, categories by similarity plus the number
+ * of active products in them. Expanded queries are matched as well, scoring the best match.
+ */
+export async function findSearchSuggestions(q: string, expandedQueries: string[] = []) {
+  const queries = Prisma.sql`
+    queries AS (SELECT unnest(ARRAY[${Prisma.join([q, ...expandedQueries])}]::text[]) AS q)
+  `;
+
+  return prisma.$transaction(async (tx) => {
+    // Scoped to this transaction, so the `<%` operators below can use the trigram indexes
+    await tx.$queryRaw`
+      SELECT set_config('pg_trgm.word_similarity_threshold', ${String(SIMILARITY_THRESHOLD)}, true)
+    `;
+
+    const products = await tx.$queryRaw<
+      (Omit<ProductSuggestion, 'image'> & { images: string[] })[]
+    >`
+      WITH ${queries},
+      matches AS (
+        SELECT p."id", word_similarity(x.q, p."title") AS similarity, NULL::text AS sku
+        FROM queries x, "Product" p
+        WHERE p."active" = true AND x.q <% p."title"
+        UNION ALL
+        SELECT p."id", word_similarity(x.q, p."sku"), p."sku"
+        FROM queries x, "Product" p
+        WHERE p."active" = true AND x.q <% p."sku"
+        UNION ALL
+        SELECT p."id", word_similarity(x.q, v."sku"), v."sku"
+        FROM queries x, "ProductVariant" v
+        JOIN "Product" p ON p."id" = v."productId"
+        WHERE p."active" = true AND x.q <% v."sku"
+      ),
+      best AS (
+        SELECT DISTINCT ON ("id") "id", similarity, sku
+        FROM matches
+        ORDER BY "id", similarity DESC
+      ),
+      sales AS (
+        SELECT oi."productId", SUM(oi."quantity") AS sold
+        FROM "OrderItem" oi
+        JOIN "Order" o ON o."id" = oi."orderId"
+        WHERE oi."productId" IN (SELECT "id" FROM best)
+          AND o."status"::text IN (${Prisma.join(PURCHASED_ORDER_STATUSES)})
+        GROUP BY oi."productId"
+      )
+      SELECT p."id", p."title", p."slug", p."images", b.sku AS "matchedSku",
+        (b.similarity + ${POPULARITY_WEIGHT}::float8 * ln(1 + COALESCE(s.sold, 0)::float8))::float8 AS score
+      FROM best b
+      JOIN "Product" p ON p."id" = b."id"
+      LEFT JOIN sales s ON s."productId" = b."id"
+      ORDER BY score DESC, p."title"
+      LIMIT ${PRODUCT_SUGGESTION_LIMIT}
+    `;
+
+    const categories = await tx.$queryRaw<CategorySuggestion[]>`
+      WITH ${queries},
+      matches AS (
+        SELECT c."id", MAX(word_similarity(x.q, c."name")) AS similarity
+        FROM queries x, "Category" c
+        WHERE x.q <% c."name"
+        GROUP BY c."id"
+      )
+      SELECT c."id", c."name", c."slug", COUNT(p."id")::int AS "productCount",
+        (m.similarity + ${POPULARITY_WEIGHT}::float8 * ln(1 + COUNT(p."id")::float8))::float8 AS score
+      FROM matches m
+      JOIN "Category" c ON c."id" = m."id"
+      LEFT JOIN "Product" p ON p."categoryId" = c."id" AND p."active" = true
+      GROUP BY c."id", m.similarity
+      ORDER BY score DESC, c."name"
+      LIMIT ${CATEGORY_SUGGESTION_LIMIT}
+    `;
+
+    return {
+      products: products.map(
+        ({ images, ...product }): ProductSuggestion => ({
+          ...product,
+          image: images[0] || null,
+        }),
+      ),
+      categories,
+    };
+  });
+}
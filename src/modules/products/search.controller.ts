@@ -1,95 +1,72 @@
 import { Request, Response } from 'express';
 
 import { prisma } from '../../config/prisma';
+import { ProductSearchFilters, searchProductFacets, searchProductIds } from './product-search';
+import { SearchProductsQuery } from './products.schema';
+import { logSearch } from '../search/search-analytics';
+import { rewriteQuery } from '../search/search-synonyms';
+import { findSearchSuggestions } from './search-suggestions';
 
 export async function searchProducts(req: Request, res: Response) {
-  const { q, categoryId, minPrice, maxPrice, inStock, sortBy, sortOrder, page, limit } =
-    req.query as {
-      q?: string;
-      categoryId?: string;
-      minPrice?: string;
-      maxPrice?: string;
-      inStock?: string;
-      sortBy?: string;
-      sortOrder?: 'asc' | 'desc';
-      page?: string;
-      limit?: string;
-    };
+  const { q, categoryId, minPrice, maxPrice, inStock, sortBy, sortOrder, page, limit, facets } =
+    req.query as SearchProductsQuery;
 
-  const where: {
-    active?: boolean;
-    categoryId?: string;
-    priceCents?: { gte?: number; lte?: number };
-    stock?: { gt?: number };
-    OR?: Array<{
-      title?: { contains: string; mode?: 'insensitive' };
-      description?: { contains: string; mode?: 'insensitive' };
-    }>;
-  } = {
-    active: true,
-  };
-
-  // Text search
-  if (q) {
-    where.OR = [
-      { title: { contains: q, mode: 'insensitive' } },
-      { description: { contains: q, mode: 'insensitive' } },
-    ];
-  }
-
-  // Category filter
-  if (categoryId) {
-    where.categoryId = categoryId;
-  }
-
-  // Price range filter
-  if (minPrice || maxPrice) {
-    where.priceCents = {};
-    if (minPrice) {
-      where.priceCents.gte = parseInt(minPrice, 10);
-    }
-    if (maxPrice) {
-      where.priceCents.lte = parseInt(maxPrice, 10);
-    }
-  }
-
-  // Stock filter
-  if (inStock === 'true') {
-    where.stock = { gt: 0 };
-  }
-
-  // Sorting
-  const orderBy: Record<string, 'asc' | 'desc'> = {};
-  if (sortBy) {
-    const validSortFields = ['title', 'priceCents', 'createdAt', 'stock'];
-    if (validSortFields.includes(sortBy)) {
-      orderBy[sortBy] = sortOrder === 'desc' ? 'desc' : 'asc';
-    } else {
-      orderBy.createdAt = 'desc'; // Default
-    }
-  } else {
-    orderBy.createdAt = 'desc'; // Default
-  }
+  // Sorting: relevance by default when searching, newest first otherwise
+  const resolvedSortBy = sortBy ?? (q ? 'relevance' : 'createdAt');
+  const defaultSortOrder = sortBy && sortBy !== 'relevance' ? 'asc' : 'desc';
+  const resolvedSortOrder = sortOrder ?? defaultSortOrder;
 
   // Pagination
-  const pageNum = page ? parseInt(page, 10) : 1;
-  const limitNum = limit ? parseInt(limit, 10) : 20;
+  const pageNum = Math.max(Number(page) || 1, 1);
+  const limitNum = Math.min(Number(limit) || 20, 100);
   const skip = (pageNum - 1) * limitNum;
 
-  const [products, total] = await Promise.all([
-    prisma.product.findMany({
-      where,
-      orderBy,
+  const query = q?.trim() || undefined;
+  const { expandedQueries, redirect } = query
+    ? await rewriteQuery(query)
+    : { expandedQueries: [], redirect: null };
+
+  const filters: ProductSearchFilters = {
+    q: query,
+    expandedQueries,
+    categoryId,
+    minPrice: minPrice ? parseInt(minPrice, 10) : undefined,
+    maxPrice: maxPrice ? parseInt(maxPrice, 10) : undefined,
+    inStock: inStock === 'true',
+  };
+
+  const [{ hits, total }, facetCounts] = await Promise.all([
+    searchProductIds({
+      ...filters,
+      sortBy: resolvedSortBy,
+      sortOrder: resolvedSortOrder,
       skip,
       take: limitNum,
-      include: {
-        category: { select: { id: true, name: true, slug: true } },
-      },
     }),
-    prisma.product.count({ where }),
+    facets === 'true' ? searchProductFacets(filters) : undefined,
   ]);
 
+  const found = await prisma.product.findMany({
+    where: { id: { in: hits.map((hit) => hit.id) } },
+    include: {
+      category: { select: { id: true, name: true, slug: true } },
+    },
+  });
+  const byId = new Map(found.map((product) => [product.id, product]));
+  const products = hits.flatMap((hit) => {
+    const product = byId.get(hit.id);
+    return product ? [{ ...product, relevance: hit.relevance, highlight: hit.highlight }] : [];
+  });
+
+  // Paging through the same results is not a new search
+  const searchId =
+    filters.q && pageNum === 1
+      ? await logSearch(req, { query: filters.q, source: 'SEARCH', resultCount: total })
+      : null;
+
   return res.json({
+    searchId,
+    redirect,
     products,
     pagination: {
       total,
@@ -98,40 +75,24 @@ export async function searchProducts(req: Request, res: Response) {
       totalPages: Math.ceil(total / limitNum),
       hasMore: skip + limitNum < total,
     },
+    ...(facetCounts && { facets: facetCounts }),
   });
 }
 
 export async function getSearchSuggestions(req: Request, res: Response) {
   const { q } = req.query as { q?: string };
+  const query = q?.trim();
 
-  if (!q || q.length < 2) {
-    return res.json({ suggestions: [] });
+  if (!query || query.length < 2) {
+    return res.json({ suggestions: { products: [], categories: [] } });
   }
 
-  const products = await prisma.product.findMany({
-    where: {
-      active: true,
-      OR: [
-        { title: { contains: q, mode: 'insensitive' } },
-        { description: { contains: q, mode: 'insensitive' } },
-      ],
-    },
-    take: 10,
-    select: {
-      id: true,
-      title: true,
-      slug: true,
-      images: true,
-    },
-    orderBy: { createdAt: 'desc' },
+  const { expandedQueries, redirect } = await rewriteQuery(query);
+  const suggestions = await findSearchSuggestions(query, expandedQueries);
+  const searchId = await logSearch(req, {
+    query,
+    source: 'SUGGESTIONS',
+    resultCount: suggestions.products.length + suggestions.categories.length,
   });
-
-  const suggestions = products.map((product) => ({
-    id: product.id,
-    title: product.title,
-    slug: product.slug,
-    image: product.images[0] || null,
-  }));
-
-  return res.json({ suggestions });
+  return res.json({ searchId, redirect, suggestions });
 }
@@ -1,4 +1,5 @@
 import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 
 import { prisma } from '../../config/prisma';
 
@@ -98,7 +99,15 @@ export async function deleteProductVariant(req: Request, res: Response) {
     return res.status(404).json({ message: 'Variant not found' });
   }
 
-  await prisma.productVariant.delete({ where: { id } });
+  try {
+    await prisma.productVariant.delete({ where: { id } });
+  } catch (error) {
+    // Order items keep pointing at the variant they were bought as
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003') {
+      return res.status(409).json({ message: 'Variant has been ordered and cannot be deleted' });
+    }
+    throw error;
+  }
 
   return res.json({ message: 'Variant deleted successfully' });
 }
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 
-import { authGuard, requireRole } from '../../middleware/auth';
+import { authGuard, requirePermission } from '../../middleware/auth';
 import { validate } from '../../middleware/validate';
 import { deleteProductVariant, updateProductVariant } from './variants.controller';
 import { updateVariantSchema } from './variants.schema';
@@ -11,7 +11,7 @@ export const variantsRouter = Router();
  * @swagger
  * /api/v1/variants/{id}:
  *   patch:
- *     summary: Update product variant (Admin only)
+ *     summary: Update product variant (requires catalog:write)
  *     tags: [Products]
  *     security:
  *       - bearerAuth: []
@@ -44,7 +44,7 @@ export const variantsRouter = Router();
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
- *         description: Forbidden (Admin only)
+ *         description: Forbidden (requires catalog:write)
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       409:
@@ -53,7 +53,7 @@ export const variantsRouter = Router();
 variantsRouter.patch(
   '/:id',
   authGuard,
-  requireRole('ADMIN'),
+  requirePermission('catalog:write'),
   validate({ body: updateVariantSchema }),
   updateProductVariant,
 );
@@ -62,7 +62,7 @@ variantsRouter.patch(
  * @swagger
  * /api/v1/variants/{id}:
  *   delete:
- *     summary: Delete product variant (Admin only)
+ *     summary: Delete product variant (requires catalog:write)
  *     tags: [Products]
  *     security:
  *       - bearerAuth: []
@@ -86,8 +86,10 @@ variantsRouter.patch(
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
- *         description: Forbidden (Admin only)
+ *         description: Forbidden (requires catalog:write)
  *       404:
  *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Variant has been ordered and cannot be deleted
  */
-variantsRouter.delete('/:id', authGuard, requireRole('ADMIN'), deleteProductVariant);
+variantsRouter.delete('/:id', authGuard, requirePermission('catalog:write'), deleteProductVariant);
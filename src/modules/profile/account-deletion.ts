@@ -0,0 +1,211 @@
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+
+import { env } from '../../config/env';
+import { prisma } from '../../config/prisma';
+import { Clock, systemClock } from '../../utils/clock';
+import { sendEmail } from '../../utils/email';
+import { hashToken, invalidateUserTokens } from '../auth/session-utils';
+
+export interface DeletionSweeperOptions {
+  clock?: Clock;
+}
+
+const DELETION_CONFIRM_TTL_HOURS = 24;
+
+/**
+ * Email the user a link to confirm that they want their account deleted. Nothing is scheduled
+ * until the link is used, so a stolen session alone cannot delete the account.
+ */
+export async function requestAccountDeletion(
+  user: { id: string; email: string },
+  clock: Clock = systemClock,
+) {
+  const token = crypto.randomBytes(32).toString('hex');
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      deletionToken: hashToken(token),
+      deletionTokenExpires: new Date(
+        clock().getTime() + DELETION_CONFIRM_TTL_HOURS * 60 * 60 * 1000,
+      ),
+    },
+  });
+
+  const confirmUrl = `${env.APP_URL || 'http://localhost:4000'}/api/v1/profile/deletion/confirm/${token}`;
+  await sendEmail({
+    to: user.email,
+    subject: 'Confirm your account deletion',
+    html: `
+      <h2>Confirm your account deletion</h2>
+      <p>We received a request to delete your account. Confirm it with the link below:</p>
+      <p><a href="${confirmUrl}">Confirm Deletion</a></p>
+      <p>This link will expire in ${DELETION_CONFIRM_TTL_HOURS} hours. Your account is deleted ${env.ACCOUNT_DELETION_GRACE_DAYS} days after you confirm, and you can cancel until then.</p>
+      <p>If this wasn't you, ignore this email and change your password.</p>
+    `,
+    text: `Confirm your account deletion\n\nWe received a request to delete your account. Confirm it here: ${confirmUrl}\n\nThis link will expire in ${DELETION_CONFIRM_TTL_HOURS} hours. Your account is deleted ${env.ACCOUNT_DELETION_GRACE_DAYS} days after you confirm, and you can cancel until then.\n\nIf this wasn't you, ignore this email and change your password.`,
+  });
+}
+
+/**
+ * Schedule the account an emailed confirmation token belongs to for anonymisation once the
+ * grace period ends and email the owner the date. The token is the only credential needed, so
+ * the link works straight from the email. Returns the scheduled date, or null if the token is
+ * unknown or has expired.
+ */
+export async function confirmAccountDeletion(token: string, clock: Clock = systemClock) {
+  const now = clock();
+  const user = await prisma.user.findUnique({
+    where: { deletionToken: hashToken(token) },
+    select: { id: true, email: true },
+  });
+  if (!user) return null;
+
+  const scheduledFor = new Date(
+    now.getTime() + env.ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000,
+  );
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      deletionToken: hashToken(token),
+      deletionTokenExpires: { gt: now },
+      deletionScheduledFor: null,
+    },
+    data: { deletionScheduledFor: scheduledFor, deletionToken: null, deletionTokenExpires: null },
+  });
+  if (count === 0) return null;
+
+  const date = scheduledFor.toUTCString();
+  await sendEmail({
+    to: user.email,
+    subject: 'Your account is scheduled for deletion',
+    html: `
+      <h2>Your account is scheduled for deletion</h2>
+      <p>You confirmed that you want to delete your account. It will be permanently anonymised on ${date}.</p>
+      <p>Changed your mind? Log in and cancel the deletion from your account settings before then.</p>
+      <p>Order records are kept for accounting but will no longer be linked to your personal details.</p>
+    `,
+    text: `Your account is scheduled for deletion\n\nYou confirmed that you want to delete your account. It will be permanently anonymised on ${date}.\n\nChanged your mind? Log in and cancel the deletion from your account settings before then.\n\nOrder records are kept for accounting but will no longer be linked to your personal details.`,
+  });
+
+  return scheduledFor;
+}
+
+/**
+ * Strip personal data from an account whose deletion is due. Orders stay for accounting and
+ * now point at an anonymous user; everything else personal is deleted. Returns false if the
+ * deletion was cancelled in the meantime.
+ */
+async function anonymiseUser(userId: string, now: Date) {
+  const unusablePassword = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
+
+  return prisma.$transaction(async (tx) => {
+    // Claim the account so a cancellation that lands first wins
+    const { count } = await tx.user.updateMany({
+      where: { id: userId, deletedAt: null, deletionScheduledFor: { lte: now } },
+      data: { deletedAt: now },
+    });
+    if (count === 0) return false;
+
+    await invalidateUserTokens(userId, tx);
+    // Sessions hold the user agent and IP address; their refresh tokens cascade
+    await tx.authSession.deleteMany({ where: { userId } });
+    await tx.address.deleteMany({ where: { userId } });
+    await tx.wishlist.deleteMany({ where: { userId } });
+    await tx.cart.deleteMany({ where: { userId } });
+    await tx.review.deleteMany({ where: { userId } });
+    await tx.recoveryCode.deleteMany({ where: { userId } });
+    await tx.apiKey.deleteMany({ where: { userId } });
+    await tx.userIdentity.deleteMany({ where: { userId } });
+
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        email: `deleted-${userId}@deleted.invalid`,
+        name: 'Deleted User',
+        passwordHash: unusablePassword,
+        role: 'USER',
+        staffRoleId: null,
+        suspendedReason: null,
+        emailVerified: false,
+        verificationToken: null,
+        verificationTokenExpires: null,
+        resetPasswordToken: null,
+        resetPasswordExpires: null,
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastStep: null,
+        unlockToken: null,
+        unlockTokenExpires: null,
+        deletionToken: null,
+        deletionTokenExpires: null,
+        deletionScheduledFor: null,
+        exportToken: null,
+        exportAvailableAt: null,
+        exportTokenExpires: null,
+      },
+    });
+    return true;
+  });
+}
+
+/**
+ * Anonymise every account whose deletion grace period has ended. Returns the affected user IDs.
+ */
+export async function purgeScheduledDeletions(
+  options: DeletionSweeperOptions = {},
+): Promise<string[]> {
+  const clock = options.clock ?? systemClock;
+  const now = clock();
+
+  const due = await prisma.user.findMany({
+    where: { deletedAt: null, deletionScheduledFor: { lte: now } },
+    select: { id: true, email: true },
+  });
+
+  const deleted: string[] = [];
+  for (const user of due) {
+    if (!(await anonymiseUser(user.id, now))) continue;
+    deleted.push(user.id);
+
+    await sendEmail({
+      to: user.email,
+      subject: 'Your account has been deleted',
+      html: `
+        <h2>Your account has been deleted</h2>
+        <p>As requested, your account and personal data have been deleted.</p>
+      `,
+      text: 'Your account has been deleted\n\nAs requested, your account and personal data have been deleted.',
+    }).catch((error) => console.error('Failed to send account deletion email:', error));
+  }
+
+  return deleted;
+}
+
+/**
+ * Run `purgeScheduledDeletions` on an interval. Returns a function that stops the sweeper.
+ */
+export function startAccountDeletionSweeper(
+  options: DeletionSweeperOptions & { intervalSeconds?: number } = {},
+) {
+  const intervalMs = (options.intervalSeconds ?? 60 * 60) * 1000;
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const deleted = await purgeScheduledDeletions(options);
+      if (deleted.length > 0) {
+        console.log(`🗑️  Anonymised ${deleted.length} deleted account(s)`);
+      }
+    } catch (error) {
+      console.error('Failed to purge deleted accounts:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
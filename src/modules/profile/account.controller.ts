@@ -0,0 +1,195 @@
+import bcrypt from 'bcryptjs';
+import { Request, Response } from 'express';
+
+import { prisma } from '../../config/prisma';
+import { sendEmail } from '../../utils/email';
+import { hashToken } from '../auth/session-utils';
+import { confirmAccountDeletion, requestAccountDeletion } from './account-deletion';
+import { requestDataExport } from './data-export';
+import { DeleteAccountInput } from './profile.schema';
+
+export async function requestExport(req: Request, res: Response) {
+  const user = await prisma.user.findUnique({ where: { id: req.user!.id } });
+  if (!user) return res.status(404).json({ message: 'User not found' });
+
+  const availableAt = await requestDataExport(user);
+
+  return res.status(202).json({
+    message: 'Data export requested. We emailed you a download link.',
+    availableAt,
+  });
+}
+
+export async function cancelExport(req: Request, res: Response) {
+  const { count } = await prisma.user.updateMany({
+    where: { id: req.user!.id, exportToken: { not: null } },
+    data: { exportToken: null, exportAvailableAt: null, exportTokenExpires: null },
+  });
+  if (count === 0) {
+    return res.status(400).json({ message: 'No data export is pending' });
+  }
+
+  return res.json({ message: 'Data export cancelled' });
+}
+
+/**
+ * Download everything we hold about a user as a single JSON document once the waiting period of
+ * their export request is over. The link emailed by `requestExport` works on its own; signed-in
+ * users can also download their requested export without it.
+ */
+export async function exportProfile(req: Request, res: Response) {
+  const { token } = req.params as { token?: string };
+  const now = new Date();
+
+  const exportRequest = await prisma.user.findFirst({
+    where: {
+      ...(token
+        ? { exportToken: hashToken(token) }
+        : { id: req.user!.id, exportToken: { not: null } }),
+      exportTokenExpires: { gt: now },
+    },
+    select: { id: true, exportAvailableAt: true },
+  });
+  if (!exportRequest) {
+    return token
+      ? res.status(400).json({ message: 'Invalid or expired export link' })
+      : res.status(404).json({ message: 'No data export has been requested' });
+  }
+  const userId = exportRequest.id;
+  if (exportRequest.exportAvailableAt && exportRequest.exportAvailableAt > now) {
+    return res.status(409).json({
+      message: 'Data export is not available yet',
+      availableAt: exportRequest.exportAvailableAt,
+    });
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      role: true,
+      emailVerified: true,
+      twoFactorEnabledAt: true,
+      deletionScheduledFor: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+  if (!user) return res.status(404).json({ message: 'User not found' });
+
+  const [addresses, orders, reviews, wishlist, cart] = await Promise.all([
+    prisma.address.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.order.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        items: {
+          include: {
+            product: { select: { title: true, slug: true } },
+            variant: { select: { name: true, sku: true } },
+          },
+        },
+        statusHistory: { orderBy: { createdAt: 'asc' } },
+        refunds: { orderBy: { createdAt: 'asc' } },
+      },
+    }),
+    prisma.review.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: { product: { select: { title: true, slug: true } } },
+    }),
+    prisma.wishlist.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: { product: { select: { title: true, slug: true } } },
+    }),
+    prisma.cart.findUnique({
+      where: { userId },
+      include: {
+        items: {
+          include: {
+            product: { select: { title: true, slug: true } },
+          },
+        },
+      },
+    }),
+  ]);
+
+  // A download of personal data is worth telling the owner about in case the account is compromised
+  sendEmail({
+    to: user.email,
+    subject: 'Your data export was downloaded',
+    html: `
+      <h2>Your data export was downloaded</h2>
+      <p>A copy of your account data was just downloaded.</p>
+      <p>If this wasn't you, change your password and sign out of other sessions right away.</p>
+    `,
+    text: `Your data export was downloaded\n\nA copy of your account data was just downloaded.\n\nIf this wasn't you, change your password and sign out of other sessions right away.`,
+  }).catch((error) => console.error('Failed to send data export email:', error));
+
+  res.setHeader('Content-Disposition', `attachment; filename="cozzy-export-${user.id}.json"`);
+  return res.json({
+    exportedAt: now.toISOString(),
+    profile: user,
+    addresses,
+    orders,
+    reviews,
+    wishlist,
+    cart,
+  });
+}
+
+export async function deleteAccount(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const { password } = req.body as DeleteAccountInput;
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) return res.status(404).json({ message: 'User not found' });
+
+  const isValid = await bcrypt.compare(password, user.passwordHash);
+  if (!isValid) {
+    return res.status(401).json({ message: 'Password is incorrect' });
+  }
+  if (user.deletionScheduledFor) {
+    return res.status(409).json({
+      message: 'Account deletion is already scheduled',
+      scheduledFor: user.deletionScheduledFor,
+    });
+  }
+
+  await requestAccountDeletion(user);
+
+  return res.status(202).json({
+    message: 'Check your email to confirm the account deletion.',
+  });
+}
+
+export async function confirmDeletion(req: Request, res: Response) {
+  const { token } = req.params as { token: string };
+
+  const scheduledFor = await confirmAccountDeletion(token);
+  if (!scheduledFor) {
+    return res.status(400).json({ message: 'Invalid or expired confirmation link' });
+  }
+
+  return res.status(202).json({
+    message: 'Account scheduled for deletion. Log in and cancel before then to keep it.',
+    scheduledFor,
+  });
+}
+
+export async function cancelAccountDeletion(req: Request, res: Response) {
+  const userId = req.user!.id;
+
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, deletionScheduledFor: { not: null } },
+    data: { deletionScheduledFor: null, deletionToken: null, deletionTokenExpires: null },
+  });
+  if (count === 0) {
+    return res.status(400).json({ message: 'Account deletion is not scheduled' });
+  }
+
+  return res.json({ message: 'Account deletion cancelled' });
+}
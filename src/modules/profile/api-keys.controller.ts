@@ -0,0 +1,81 @@
+import { Request, Response } from 'express';
+
+import { isPermission } from '../../config/permissions';
+import { prisma } from '../../config/prisma';
+import { hasPermission } from '../../middleware/auth';
+import { systemClock } from '../../utils/clock';
+import { generateApiKey } from '../auth/api-key-utils';
+import { CreateApiKeyInput } from './profile.schema';
+
+const MAX_ACTIVE_API_KEYS = 20;
+
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+};
+
+export async function listApiKeys(req: Request, res: Response) {
+  const keys = await prisma.apiKey.findMany({
+    where: { userId: req.user!.id, revokedAt: null },
+    orderBy: { createdAt: 'desc' },
+    select: apiKeySelect,
+  });
+
+  const now = systemClock();
+  return res.json({
+    apiKeys: keys.map((key) => ({ ...key, expired: !!key.expiresAt && key.expiresAt <= now })),
+  });
+}
+
+export async function createApiKey(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const { name, scopes = [], expiresAt } = req.body as CreateApiKeyInput;
+
+  // A key can never do more than its owner
+  const missing = scopes.filter((scope) => isPermission(scope) && !hasPermission(req.user!, scope));
+  if (missing.length > 0) {
+    return res
+      .status(403)
+      .json({ message: `You do not have the permissions: ${missing.join(', ')}` });
+  }
+
+  const expires = expiresAt ? new Date(expiresAt) : null;
+  if (expires && expires <= systemClock()) {
+    return res.status(400).json({ message: 'expiresAt must be in the future' });
+  }
+
+  const activeKeys = await prisma.apiKey.count({ where: { userId, revokedAt: null } });
+  if (activeKeys >= MAX_ACTIVE_API_KEYS) {
+    return res
+      .status(409)
+      .json({ message: `You can have at most ${MAX_ACTIVE_API_KEYS} API keys; revoke one first` });
+  }
+
+  const { key, prefix, keyHash } = generateApiKey();
+  const apiKey = await prisma.apiKey.create({
+    data: { userId, name, prefix, keyHash, scopes: [...new Set(scopes)], expiresAt: expires },
+    select: apiKeySelect,
+  });
+
+  // The plaintext key is never stored, so this is the only time it can be shown
+  return res.status(201).json({ apiKey, key });
+}
+
+export async function revokeApiKey(req: Request, res: Response) {
+  const { id } = req.params as { id: string };
+
+  const { count } = await prisma.apiKey.updateMany({
+    where: { id, userId: req.user!.id, revokedAt: null },
+    data: { revokedAt: systemClock() },
+  });
+  if (count === 0) {
+    return res.status(404).json({ message: 'API key not found' });
+  }
+
+  return res.json({ message: 'API key revoked successfully' });
+}
@@ -0,0 +1,49 @@
+import crypto from 'crypto';
+
+import { env } from '../../config/env';
+import { prisma } from '../../config/prisma';
+import { Clock, systemClock } from '../../utils/clock';
+import { sendEmail } from '../../utils/email';
+import { hashToken } from '../auth/session-utils';
+
+const EXPORT_LINK_TTL_DAYS = 7;
+
+/**
+ * Email the user a download link for their data. The link only works after
+ * `DATA_EXPORT_DELAY_HOURS`, which gives the owner time to react to a request they did not
+ * make. A new request replaces the previous link. Returns when the export becomes available.
+ */
+export async function requestDataExport(
+  user: { id: string; email: string },
+  clock: Clock = systemClock,
+) {
+  const token = crypto.randomBytes(32).toString('hex');
+  const availableAt = new Date(clock().getTime() + env.DATA_EXPORT_DELAY_HOURS * 60 * 60 * 1000);
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      exportToken: hashToken(token),
+      exportAvailableAt: availableAt,
+      exportTokenExpires: new Date(
+        availableAt.getTime() + EXPORT_LINK_TTL_DAYS * 24 * 60 * 60 * 1000,
+      ),
+    },
+  });
+
+  const date = availableAt.toUTCString();
+  const downloadUrl = `${env.APP_URL || 'http://localhost:4000'}/api/v1/profile/export/${token}`;
+  await sendEmail({
+    to: user.email,
+    subject: 'Your data export was requested',
+    html: `
+      <h2>Your data export was requested</h2>
+      <p>A copy of your account data was requested. From ${date}, download it with the link below:</p>
+      <p><a href="${downloadUrl}">Download Your Data</a></p>
+      <p>The link works for ${EXPORT_LINK_TTL_DAYS} days after that.</p>
+      <p>If this wasn't you, cancel the export from your account settings and change your password right away.</p>
+    `,
+    text: `Your data export was requested\n\nA copy of your account data was requested. From ${date}, download it here: ${downloadUrl}\n\nThe link works for ${EXPORT_LINK_TTL_DAYS} days after that.\n\nIf this wasn't you, cancel the export from your account settings and change your password right away.`,
+  });
+
+  return availableAt;
+}
@@ -0,0 +1,51 @@
+import { Request, Response } from 'express';
+
+import { prisma } from '../../config/prisma';
+import { getOidcProvider, OidcError } from '../auth/oidc-client';
+import { setStateCookie, startAuthorization } from '../auth/oidc-utils';
+
+export async function listIdentities(req: Request, res: Response) {
+  const identities = await prisma.userIdentity.findMany({
+    where: { userId: req.user!.id },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, provider: true, email: true, lastLoginAt: true, createdAt: true },
+  });
+  return res.json({ identities });
+}
+
+/**
+ * Start linking a provider to the current account. The client sends the user to the returned
+ * URL; the provider's callback then completes the link.
+ */
+export async function linkProvider(req: Request, res: Response) {
+  const provider = getOidcProvider(req.params.provider);
+  if (!provider) return res.status(404).json({ message: 'Unknown sign-in provider' });
+
+  const existing = await prisma.userIdentity.findUnique({
+    where: { userId_provider: { userId: req.user!.id, provider: provider.name } },
+  });
+  if (existing) {
+    return res.status(409).json({ message: 'This provider is already linked to your account' });
+  }
+
+  try {
+    const { authorizationUrl, state } = await startAuthorization(provider, req.user!.id);
+    setStateCookie(res, state);
+    return res.json({ authorizationUrl });
+  } catch (error) {
+    if (error instanceof OidcError)
+      return res.status(error.status).json({ message: error.message });
+    throw error;
+  }
+}
+
+export async function unlinkIdentity(req: Request, res: Response) {
+  const { id } = req.params as { id: string };
+
+  const { count } = await prisma.userIdentity.deleteMany({ where: { id, userId: req.user!.id } });
+  if (count === 0) {
+    return res.status(404).json({ message: 'Linked login not found' });
+  }
+
+  return res.json({ message: 'Provider unlinked successfully' });
+}
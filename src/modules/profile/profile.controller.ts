@@ -2,6 +2,7 @@ import bcrypt from 'bcryptjs';
 import { Request, Response } from 'express';
 
 import { prisma } from '../../config/prisma';
+import { clientInfo, invalidateUserTokens, startSession } from '../auth/session-utils';
 
 export async function getProfile(req: Request, res: Response) {
   const userId = req.user!.id;
@@ -13,6 +14,7 @@ export async function getProfile(req: Request, res: Response) {
       name: true,
       role: true,
       emailVerified: true,
+      deletionScheduledFor: true,
       createdAt: true,
       updatedAt: true,
     },
@@ -88,10 +90,13 @@ export async function changePassword(req: Request, res: Response) {
   }
 
   const passwordHash = await bcrypt.hash(newPassword, 10);
-  await prisma.user.update({
-    where: { id: userId },
-    data: { passwordHash },
+  const updated = await prisma.$transaction(async (tx) => {
+    // Sign out every device, then keep this one signed in with a fresh session
+    await invalidateUserTokens(userId, tx);
+    return tx.user.update({ where: { id: userId }, data: { passwordHash } });
   });
 
-  return res.json({ message: 'Password changed successfully' });
+  const { accessToken, refreshToken } = await startSession(updated, clientInfo(req));
+
+  return res.json({ message: 'Password changed successfully', accessToken, refreshToken });
 }
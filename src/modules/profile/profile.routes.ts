@@ -1,15 +1,108 @@
 import { Router } from 'express';
 
-import { authGuard } from '../../middleware/auth';
+import {
+  authGuard,
+  rejectApiKeys,
+  requireKeyScope,
+  requireVerifiedEmail,
+} from '../../middleware/auth';
 import { validate } from '../../middleware/validate';
 import { createAddress, deleteAddress, getAddresses, updateAddress } from './address.controller';
 import { createAddressSchema, updateAddressSchema } from './address.schema';
+import {
+  cancelAccountDeletion,
+  cancelExport,
+  confirmDeletion,
+  deleteAccount,
+  exportProfile,
+  requestExport,
+} from './account.controller';
+import { createApiKey, listApiKeys, revokeApiKey } from './api-keys.controller';
+import { linkProvider, listIdentities, unlinkIdentity } from './identities.controller';
 import { changePassword, getProfile, updateProfile } from './profile.controller';
-import { changePasswordSchema, updateProfileSchema } from './profile.schema';
+import {
+  changePasswordSchema,
+  createApiKeySchema,
+  deleteAccountSchema,
+  updateProfileSchema,
+} from './profile.schema';
+import { deleteSession, listSessions } from './sessions.controller';
 
 export const profileRouter = Router();
 
-profileRouter.use(authGuard);
+/**
+ * @swagger
+ * /api/v1/profile/export/{token}:
+ *   get:
+ *     summary: Download all personal data
+ *     description: |
+ *       Returns a JSON archive of the profile, addresses, orders, reviews, wishlist and cart.
+ *       This is the link from the export email; the token is the only credential needed. The
+ *       account owner is emailed whenever an export is downloaded.
+ *     tags: [Profile]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Token from the export email
+ *     responses:
+ *       200:
+ *         description: Data archive (sent as an attachment)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 exportedAt: { type: string, format: date-time }
+ *                 profile: { type: object }
+ *                 addresses: { type: array, items: { type: object } }
+ *                 orders: { type: array, items: { type: object } }
+ *                 reviews: { type: array, items: { type: object } }
+ *                 wishlist: { type: array, items: { type: object } }
+ *                 cart: { type: object, nullable: true }
+ *       400:
+ *         description: Invalid or expired export link
+ *       409:
+ *         description: The export is not available yet
+ */
+// Registered before authGuard: the emailed token is the credential, so the links work when
+// opened straight from an email client
+profileRouter.get('/export/:token', exportProfile);
+
+/**
+ * @swagger
+ * /api/v1/profile/deletion/confirm/{token}:
+ *   get:
+ *     summary: Confirm account deletion
+ *     description: |
+ *       Schedules the account for deletion once the grace period ends. This is the link from
+ *       the confirmation email; the token is the only credential needed.
+ *     tags: [Profile]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Token from the confirmation email
+ *     responses:
+ *       202:
+ *         description: Deletion scheduled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message: { type: string }
+ *                 scheduledFor: { type: string, format: date-time }
+ *       400:
+ *         description: Invalid or expired confirmation link
+ */
+profileRouter.get('/deletion/confirm/:token', confirmDeletion);
+
+profileRouter.use(authGuard, requireKeyScope('account'));
 
 /**
  * @swagger
@@ -35,6 +128,7 @@ profileRouter.use(authGuard);
  *                     name: { type: string }
  *                     role: { type: string, enum: [USER, ADMIN] }
  *                     emailVerified: { type: boolean }
+ *                     deletionScheduledFor: { type: string, format: date-time, nullable: true }
  *                     createdAt: { type: string, format: date-time }
  *                     updatedAt: { type: string, format: date-time }
  *       401:
@@ -82,10 +176,12 @@ profileRouter.get('/', getProfile);
  *         $ref: '#/components/responses/BadRequest'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Not available when authenticated with an API key
  *       409:
  *         description: Email already in use
  */
-profileRouter.patch('/', validate({ body: updateProfileSchema }), updateProfile);
+profileRouter.patch('/', rejectApiKeys, validate({ body: updateProfileSchema }), updateProfile);
 
 /**
  * @swagger
@@ -108,21 +204,156 @@ profileRouter.patch('/', validate({ body: updateProfileSchema }), updateProfile)
  *               confirmPassword: { type: string, minLength: 8, maxLength: 100 }
  *     responses:
  *       200:
- *         description: Password changed successfully
+ *         description: Password changed. Other sessions are signed out and fresh tokens are issued for this one.
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
  *                 message: { type: string, example: 'Password changed successfully' }
+ *                 accessToken: { type: string }
+ *                 refreshToken: { type: string }
  *       400:
  *         $ref: '#/components/responses/BadRequest'
  *       401:
  *         description: Current password is incorrect
+ *       403:
+ *         description: Not available when authenticated with an API key
  *       404:
  *         $ref: '#/components/responses/NotFound'
  */
-profileRouter.patch('/password', validate({ body: changePasswordSchema }), changePassword);
+profileRouter.patch(
+  '/password',
+  rejectApiKeys,
+  validate({ body: changePasswordSchema }),
+  changePassword,
+);
+
+/**
+ * @swagger
+ * /api/v1/profile/export:
+ *   post:
+ *     summary: Request an export of all personal data
+ *     description: |
+ *       Emails the account owner a download link that starts working after
+ *       DATA_EXPORT_DELAY_HOURS and stays valid for 7 days. A new request replaces the previous link.
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       202:
+ *         description: Export requested
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message: { type: string }
+ *                 availableAt: { type: string, format: date-time }
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Not available when authenticated with an API key
+ */
+profileRouter.post('/export', rejectApiKeys, requestExport);
+
+/**
+ * @swagger
+ * /api/v1/profile/export:
+ *   get:
+ *     summary: Download all personal data (signed in)
+ *     description: |
+ *       Same archive as the emailed link, for a signed-in user whose export request has passed
+ *       its waiting period. The account owner is emailed whenever an export is downloaded.
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Data archive (sent as an attachment)
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Not available when authenticated with an API key
+ *       404:
+ *         description: No data export has been requested, or its link has expired
+ *       409:
+ *         description: The export is not available yet
+ */
+profileRouter.get('/export', rejectApiKeys, exportProfile);
+
+/**
+ * @swagger
+ * /api/v1/profile/export/cancel:
+ *   post:
+ *     summary: Cancel a pending data export
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Export cancelled
+ *       400:
+ *         description: No data export is pending
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Not available when authenticated with an API key
+ */
+profileRouter.post('/export/cancel', rejectApiKeys, cancelExport);
+
+/**
+ * @swagger
+ * /api/v1/profile:
+ *   delete:
+ *     summary: Delete account
+ *     description: |
+ *       Emails a link to confirm the deletion, valid for 24 hours. Once confirmed, the account
+ *       is deleted after a grace period (ACCOUNT_DELETION_GRACE_DAYS): personal data is removed
+ *       and the account anonymised; orders are kept for accounting.
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [password]
+ *             properties:
+ *               password: { type: string }
+ *     responses:
+ *       202:
+ *         description: Confirmation email sent
+ *       401:
+ *         description: Password is incorrect
+ *       403:
+ *         description: Not available when authenticated with an API key
+ *       409:
+ *         description: Deletion is already scheduled
+ */
+profileRouter.delete('/', rejectApiKeys, validate({ body: deleteAccountSchema }), deleteAccount);
+
+/**
+ * @swagger
+ * /api/v1/profile/deletion/cancel:
+ *   post:
+ *     summary: Cancel a scheduled account deletion
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Deletion cancelled
+ *       400:
+ *         description: Deletion is not scheduled
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Not available when authenticated with an API key
+ */
+profileRouter.post('/deletion/cancel', rejectApiKeys, cancelAccountDeletion);
 
 /**
  * @swagger
@@ -177,8 +408,15 @@ profileRouter.get('/addresses', getAddresses);
  *         $ref: '#/components/responses/BadRequest'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/EmailNotVerified'
  */
-profileRouter.post('/addresses', validate({ body: createAddressSchema }), createAddress);
+profileRouter.post(
+  '/addresses',
+  requireVerifiedEmail('addresses'),
+  validate({ body: createAddressSchema }),
+  createAddress,
+);
 
 /**
  * @swagger
@@ -216,10 +454,17 @@ profileRouter.post('/addresses', validate({ body: createAddressSchema }), create
  *         $ref: '#/components/responses/BadRequest'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/EmailNotVerified'
  *       404:
  *         $ref: '#/components/responses/NotFound'
  */
-profileRouter.patch('/addresses/:id', validate({ body: updateAddressSchema }), updateAddress);
+profileRouter.patch(
+  '/addresses/:id',
+  requireVerifiedEmail('addresses'),
+  validate({ body: updateAddressSchema }),
+  updateAddress,
+);
 
 /**
  * @swagger
@@ -248,7 +493,300 @@ profileRouter.patch('/addresses/:id', validate({ body: updateAddressSchema }), u
  *                 message: { type: string, example: 'Address deleted successfully' }
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/EmailNotVerified'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+profileRouter.delete('/addresses/:id', requireVerifiedEmail('addresses'), deleteAddress);
+
+/**
+ * @swagger
+ * /api/v1/profile/sessions:
+ *   get:
+ *     summary: List active login sessions
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions, most recently used first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 sessions:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id: { type: string, format: uuid }
+ *                       userAgent: { type: string, nullable: true }
+ *                       ipAddress: { type: string, nullable: true }
+ *                       createdAt: { type: string, format: date-time }
+ *                       lastUsedAt: { type: string, format: date-time }
+ *                       expiresAt: { type: string, format: date-time }
+ *                       current:
+ *                         type: boolean
+ *                         description: Whether this is the session making the request
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Not available when authenticated with an API key
+ */
+profileRouter.get('/sessions', rejectApiKeys, listSessions);
+
+/**
+ * @swagger
+ * /api/v1/profile/sessions/{id}:
+ *   delete:
+ *     summary: Revoke a login session
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Session ID
+ *     responses:
+ *       200:
+ *         description: Session revoked; its refresh tokens can no longer be used
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message: { type: string, example: 'Session revoked successfully' }
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Not available when authenticated with an API key
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+profileRouter.delete('/sessions/:id', rejectApiKeys, deleteSession);
+
+/**
+ * @swagger
+ * /api/v1/profile/api-keys:
+ *   get:
+ *     summary: List personal API keys
+ *     description: Revoked keys are omitted. The key itself is never returned after creation.
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active and expired API keys, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 apiKeys:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ApiKey'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Not available when authenticated with an API key
+ */
+profileRouter.get('/api-keys', rejectApiKeys, listApiKeys);
+
+/**
+ * @swagger
+ * /api/v1/profile/api-keys:
+ *   post:
+ *     summary: Create a personal API key
+ *     description: |
+ *       Send the returned `key` as `Authorization: Bearer <key>`. It is shown only in this
+ *       response. A key can only do what its scopes allow: `account` lets it act as the
+ *       customer who owns it (orders, cart, addresses, reviews and so on), and each staff
+ *       permission the caller holds unlocks the matching staff routes. Account security
+ *       settings and profile changes are never available to keys. Keys are revoked when the
+ *       owner's password changes or they log out everywhere.
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name: { type: string, maxLength: 100, example: 'ERP sync' }
+ *               scopes:
+ *                 type: array
+ *                 items: { type: string, example: 'account' }
+ *               expiresAt: { type: string, format: date-time }
+ *     responses:
+ *       201:
+ *         description: API key created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 apiKey:
+ *                   $ref: '#/components/schemas/ApiKey'
+ *                 key:
+ *                   type: string
+ *                   description: The plaintext key; store it now, it cannot be retrieved later
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: A requested scope is not held by the caller, or the caller used an API key
+ *       409:
+ *         description: Too many active API keys
+ */
+profileRouter.post(
+  '/api-keys',
+  rejectApiKeys,
+  validate({ body: createApiKeySchema }),
+  createApiKey,
+);
+
+/**
+ * @swagger
+ * /api/v1/profile/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke a personal API key
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: API key ID
+ *     responses:
+ *       200:
+ *         description: API key revoked; requests using it are rejected from now on
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message: { type: string, example: 'API key revoked successfully' }
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Not available when authenticated with an API key
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+profileRouter.delete('/api-keys/:id', rejectApiKeys, revokeApiKey);
+
+/**
+ * @swagger
+ * /api/v1/profile/identities:
+ *   get:
+ *     summary: List logins linked from OpenID Connect providers
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Linked provider logins
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 identities:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id: { type: string, format: uuid }
+ *                       provider: { type: string, example: google }
+ *                       email: { type: string, nullable: true }
+ *                       lastLoginAt: { type: string, format: date-time, nullable: true }
+ *                       createdAt: { type: string, format: date-time }
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+profileRouter.get('/identities', listIdentities);
+
+/**
+ * @swagger
+ * /api/v1/profile/identities/{provider}:
+ *   post:
+ *     summary: Start linking an OpenID Connect provider to this account
+ *     description: |
+ *       Returns the provider URL to send the user to. Signing in there completes the link at
+ *       `/api/v1/auth/oidc/{provider}/callback`, whatever email the provider reports. The
+ *       response sets an HttpOnly `oidc_state` cookie the callback checks, so call this with
+ *       credentials included from the browser that will follow the URL.
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Provider name from OIDC_PROVIDERS
+ *     responses:
+ *       200:
+ *         description: Authorization URL to redirect the user to
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 authorizationUrl: { type: string, format: uri }
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Not available when authenticated with an API key
+ *       404:
+ *         description: Unknown sign-in provider
+ *       409:
+ *         description: The provider is already linked
+ *       502:
+ *         description: The provider's discovery document could not be loaded
+ */
+profileRouter.post('/identities/:provider', rejectApiKeys, linkProvider);
+
+/**
+ * @swagger
+ * /api/v1/profile/identities/{id}:
+ *   delete:
+ *     summary: Unlink an OpenID Connect login
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Linked identity ID
+ *     responses:
+ *       200:
+ *         description: Provider unlinked; it can no longer be used to sign in
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Not available when authenticated with an API key
  *       404:
  *         $ref: '#/components/responses/NotFound'
  */
-profileRouter.delete('/addresses/:id', deleteAddress);
+profileRouter.delete('/identities/:id', rejectApiKeys, unlinkIdentity);
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 
+import { API_KEY_SCOPES } from '../../config/permissions';
+
 export const updateProfileSchema = z
   .object({
     name: z.string().min(1, 'Name cannot be empty').max(100).optional(),
@@ -27,3 +29,17 @@ export const changePasswordSchema = z
     message: 'New password and confirm password must match',
     path: ['confirmPassword'],
   });
+
+export const deleteAccountSchema = z.object({
+  password: z.string().min(1),
+});
+
+export const createApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).default([]),
+  expiresAt: z.string().datetime().optional(),
+});
+
+export type DeleteAccountInput = z.infer<typeof deleteAccountSchema>;
+// Input type: the validate middleware does not apply defaults to req.body
+export type CreateApiKeyInput = z.input<typeof createApiKeySchema>;
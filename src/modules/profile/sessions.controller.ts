@@ -0,0 +1,43 @@
+import { Request, Response } from 'express';
+
+import { prisma } from '../../config/prisma';
+import { revokeSession } from '../auth/session-utils';
+
+export async function listSessions(req: Request, res: Response) {
+  const userId = req.user!.id;
+
+  const sessions = await prisma.authSession.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastUsedAt: 'desc' },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true,
+    },
+  });
+
+  return res.json({
+    sessions: sessions.map((session) => ({
+      ...session,
+      current: session.id === req.user!.sessionId,
+    })),
+  });
+}
+
+export async function deleteSession(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const { id } = req.params as { id: string };
+
+  const session = await prisma.authSession.findFirst({
+    where: { id, userId, revokedAt: null },
+  });
+  if (!session) {
+    return res.status(404).json({ message: 'Session not found' });
+  }
+
+  await revokeSession(session.id);
+  return res.json({ message: 'Session revoked successfully' });
+}
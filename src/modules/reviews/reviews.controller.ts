@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 
 import { prisma } from '../../config/prisma';
+import { PURCHASED_ORDER_STATUSES } from '../orders/order-state';
 import { CreateReviewInput, UpdateReviewInput } from './reviews.schema';
 
 /**
@@ -10,7 +11,7 @@ async function hasUserPurchasedProduct(userId: string, productId: string): Promi
   const order = await prisma.order.findFirst({
     where: {
       userId,
-      status: 'PAID',
+      status: { in: PURCHASED_ORDER_STATUSES },
       items: {
         some: {
           productId,
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 
-import { authGuard } from '../../middleware/auth';
+import { authGuard, requireKeyScope, requireVerifiedEmail } from '../../middleware/auth';
 import { validate } from '../../middleware/validate';
 import { createReviewSchema, updateReviewSchema } from './reviews.schema';
 import {
@@ -65,6 +65,8 @@ export const reviewsRouter = Router();
  *         $ref: '#/components/responses/ValidationError'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/EmailNotVerified'
  *       404:
  *         description: Product not found
  *       409:
@@ -73,6 +75,8 @@ export const reviewsRouter = Router();
 reviewsRouter.post(
   '/products/:productId/reviews',
   authGuard,
+  requireKeyScope('account'),
+  requireVerifiedEmail('reviews'),
   validate({ body: createReviewSchema }),
   createReview,
 );
@@ -220,13 +224,17 @@ reviewsRouter.get('/reviews/:reviewId', getReview);
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
- *         description: Forbidden (can only update own reviews)
+ *         description: |
+ *           Forbidden (can only update own reviews), or the email address is not verified
+ *           (`code: EMAIL_NOT_VERIFIED`)
  *       404:
  *         $ref: '#/components/responses/NotFound'
  */
 reviewsRouter.patch(
   '/reviews/:reviewId',
   authGuard,
+  requireKeyScope('account'),
+  requireVerifiedEmail('reviews'),
   validate({ body: updateReviewSchema }),
   updateReview,
 );
@@ -257,4 +265,4 @@ reviewsRouter.patch(
  *       404:
  *         $ref: '#/components/responses/NotFound'
  */
-reviewsRouter.delete('/reviews/:reviewId', authGuard, deleteReview);
+reviewsRouter.delete('/reviews/:reviewId', authGuard, requireKeyScope('account'), deleteReview);
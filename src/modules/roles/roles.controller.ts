@@ -0,0 +1,66 @@
+import { Request, Response } from 'express';
+
+import { PERMISSIONS } from '../../config/permissions';
+import { prisma } from '../../config/prisma';
+import { CreateStaffRoleInput, UpdateStaffRoleInput } from './roles.schema';
+
+export async function listPermissions(_req: Request, res: Response) {
+  res.json({ permissions: PERMISSIONS });
+}
+
+export async function listStaffRoles(_req: Request, res: Response) {
+  const roles = await prisma.staffRole.findMany({
+    orderBy: { name: 'asc' },
+    include: { _count: { select: { users: true } } },
+  });
+  res.json({ roles });
+}
+
+export async function createStaffRole(req: Request, res: Response) {
+  const { name, description, permissions } = req.body as CreateStaffRoleInput;
+
+  const existing = await prisma.staffRole.findUnique({ where: { name } });
+  if (existing) {
+    return res.status(409).json({ message: 'A role with this name already exists' });
+  }
+
+  const role = await prisma.staffRole.create({
+    data: { name, description: description ?? null, permissions: [...new Set(permissions)] },
+  });
+  res.status(201).json({ role });
+}
+
+export async function updateStaffRole(req: Request, res: Response) {
+  const { id } = req.params as { id: string };
+  const { name, description, permissions } = req.body as UpdateStaffRoleInput;
+
+  const existing = await prisma.staffRole.findUnique({ where: { id } });
+  if (!existing) return res.status(404).json({ message: 'Role not found' });
+
+  if (name && name !== existing.name) {
+    const taken = await prisma.staffRole.findUnique({ where: { name } });
+    if (taken) return res.status(409).json({ message: 'A role with this name already exists' });
+  }
+
+  // Permissions are read on every request, so changes apply to assigned staff immediately
+  const role = await prisma.staffRole.update({
+    where: { id },
+    data: {
+      name,
+      description,
+      permissions: permissions ? [...new Set(permissions)] : undefined,
+    },
+  });
+  res.json({ role });
+}
+
+export async function deleteStaffRole(req: Request, res: Response) {
+  const { id } = req.params as { id: string };
+
+  const existing = await prisma.staffRole.findUnique({ where: { id } });
+  if (!existing) return res.status(404).json({ message: 'Role not found' });
+
+  // Staff holding the role drop back to plain customer access
+  await prisma.staffRole.delete({ where: { id } });
+  res.json({ message: 'Role deleted successfully' });
+}
@@ -0,0 +1,182 @@
+import { Router } from 'express';
+
+import { authGuard, requireRole } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import {
+  createStaffRole,
+  deleteStaffRole,
+  listPermissions,
+  listStaffRoles,
+  updateStaffRole,
+} from './roles.controller';
+import { createStaffRoleSchema, updateStaffRoleSchema } from './roles.schema';
+
+export const rolesRouter = Router();
+
+// Only full admins may define what staff can do
+rolesRouter.use(authGuard, requireRole('ADMIN'));
+
+/**
+ * @swagger
+ * /api/v1/roles/permissions:
+ *   get:
+ *     summary: List the permissions a staff role can grant (Admin only)
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Known permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 permissions:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                     example: orders:fulfil
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Forbidden (Admin only)
+ */
+rolesRouter.get('/permissions', listPermissions);
+
+/**
+ * @swagger
+ * /api/v1/roles:
+ *   get:
+ *     summary: List staff roles (Admin only)
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Staff roles with the number of users holding each
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 roles:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/StaffRole'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Forbidden (Admin only)
+ */
+rolesRouter.get('/', listStaffRoles);
+
+/**
+ * @swagger
+ * /api/v1/roles:
+ *   post:
+ *     summary: Create a staff role (Admin only)
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/StaffRoleInput'
+ *     responses:
+ *       201:
+ *         description: Role created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 role:
+ *                   $ref: '#/components/schemas/StaffRole'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Forbidden (Admin only)
+ *       409:
+ *         description: A role with this name already exists
+ */
+rolesRouter.post('/', validate({ body: createStaffRoleSchema }), createStaffRole);
+
+/**
+ * @swagger
+ * /api/v1/roles/{id}:
+ *   patch:
+ *     summary: Update a staff role (Admin only)
+ *     description: Permission changes apply to every assigned user on their next request.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Role ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/StaffRoleInput'
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 role:
+ *                   $ref: '#/components/schemas/StaffRole'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Forbidden (Admin only)
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: A role with this name already exists
+ */
+rolesRouter.patch('/:id', validate({ body: updateStaffRoleSchema }), updateStaffRole);
+
+/**
+ * @swagger
+ * /api/v1/roles/{id}:
+ *   delete:
+ *     summary: Delete a staff role (Admin only)
+ *     description: Users holding the role keep their account but lose its permissions.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Role ID
+ *     responses:
+ *       200:
+ *         description: Role deleted
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Forbidden (Admin only)
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+rolesRouter.delete('/:id', deleteStaffRole);
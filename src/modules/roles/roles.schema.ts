@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+import { PERMISSIONS } from '../../config/permissions';
+
+export const createStaffRoleSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  permissions: z.array(z.enum(PERMISSIONS)).min(1),
+});
+
+export const updateStaffRoleSchema = createStaffRoleSchema.partial();
+
+export type CreateStaffRoleInput = z.infer<typeof createStaffRoleSchema>;
+export type UpdateStaffRoleInput = z.infer<typeof updateStaffRoleSchema>;
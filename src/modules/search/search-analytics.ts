@@ -0,0 +1,140 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { Prisma, SearchSource } from '@prisma/client';
+
+import { env } from '../../config/env';
+import { prisma } from '../../config/prisma';
+import { Clock, systemClock } from '../../utils/clock';
+
+// Queries need at least this many searches before a low click-through rate is meaningful
+const LOW_CTR_MIN_SEARCHES = 5;
+
+export function normaliseQuery(q: string) {
+  return q.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, 200);
+}
+
+/**
+ * Identify a visitor for analytics without storing who they are: an HMAC of the client's
+ * `X-Session-Id` header (or IP address and user agent) together with the current date. The
+ * same visitor can be followed within a day, but not across days or back to a person.
+ */
+export function visitorHash(req: Request, clock: Clock = systemClock) {
+  const sessionId = req.get('x-session-id')?.slice(0, 200);
+  const visitor = sessionId ?? `${req.ip ?? ''}|${req.get('user-agent') ?? ''}`;
+  const day = clock().toISOString().slice(0, 10);
+  return crypto
+    .createHmac('sha256', `search-analytics:${env.JWT_ACCESS_SECRET}`)
+    .update(`${day}|${visitor}`)
+    .digest('hex');
+}
+
+/**
+ * Record a search and return its ID, which the client sends back with clicks. Analytics must
+ * never break searching, so failures are logged and yield `null`.
+ */
+export async function logSearch(
+  req: Request,
+  search: { query: string; source: SearchSource; resultCount: number },
+) {
+  try {
+    const { id } = await prisma.searchQuery.create({
+      data: {
+        query: normaliseQuery(search.query),
+        source: search.source,
+        resultCount: search.resultCount,
+        visitorHash: visitorHash(req),
+      },
+      select: { id: true },
+    });
+    return id;
+  } catch (error) {
+    console.error('Failed to log search query:', error);
+    return null;
+  }
+}
+
+/**
+ * Attribute a click on a result to a logged search. Only the first click counts towards
+ * click-through. Returns false if the search does not exist.
+ */
+export async function recordSearchClick(searchId: string, productId: string, now: Date) {
+  const { count } = await prisma.searchQuery.updateMany({
+    where: { id: searchId, clickedAt: null },
+    data: { clickedProductId: productId, clickedAt: now },
+  });
+  if (count > 0) return true;
+  return (await prisma.searchQuery.count({ where: { id: searchId } })) > 0;
+}
+
+interface QueryStats {
+  query: string;
+  searches: number;
+  averageResults: number;
+  clicks: number;
+  clickThroughRate: number;
+}
+
+/**
+ * Summarise logged searches between `from` (inclusive) and `to` (exclusive)
+ */
+export async function buildSearchReport(options: {
+  from: Date;
+  to: Date;
+  source: SearchSource;
+  limit: number;
+}) {
+  const where = Prisma.sql`
+    WHERE s."createdAt" >= ${options.from} AND s."createdAt" < ${options.to}
+      AND s."source"::text = ${options.source}
+  `;
+  const perQuery = Prisma.sql`
+    SELECT s."query",
+      COUNT(*)::int AS searches,
+      ROUND(AVG(s."resultCount"), 1)::float8 AS "averageResults",
+      COUNT(s."clickedAt")::int AS clicks,
+      ROUND(COUNT(s."clickedAt")::numeric / COUNT(*), 4)::float8 AS "clickThroughRate"
+    FROM "SearchQuery" s
+    ${where}
+    GROUP BY s."query"
+  `;
+
+  const [[summary], topQueries, zeroResultQueries, lowClickThroughQueries] = await Promise.all([
+    prisma.$queryRaw<
+      {
+        searches: number;
+        uniqueVisitors: number;
+        zeroResultSearches: number;
+        clickThroughRate: number | null;
+      }[]
+    >`
+      SELECT COUNT(*)::int AS searches,
+        COUNT(DISTINCT s."visitorHash")::int AS "uniqueVisitors",
+        COUNT(*) FILTER (WHERE s."resultCount" = 0)::int AS "zeroResultSearches",
+        ROUND(COUNT(s."clickedAt")::numeric / NULLIF(COUNT(*), 0), 4)::float8 AS "clickThroughRate"
+      FROM "SearchQuery" s
+      ${where}
+    `,
+    prisma.$queryRaw<QueryStats[]>`
+      ${perQuery}
+      ORDER BY searches DESC, s."query"
+      LIMIT ${options.limit}
+    `,
+    prisma.$queryRaw<{ query: string; searches: number; lastSearchedAt: Date }[]>`
+      SELECT s."query", COUNT(*)::int AS searches, MAX(s."createdAt") AS "lastSearchedAt"
+      FROM "SearchQuery" s
+      ${where} AND s."resultCount" = 0
+      GROUP BY s."query"
+      ORDER BY searches DESC, s."query"
+      LIMIT ${options.limit}
+    `,
+    // Queries that find products but whose results rarely get clicked
+    prisma.$queryRaw<QueryStats[]>`
+      ${perQuery}
+      HAVING COUNT(*) >= ${LOW_CTR_MIN_SEARCHES} AND MIN(s."resultCount") > 0
+      ORDER BY "clickThroughRate", searches DESC, s."query"
+      LIMIT ${options.limit}
+    `,
+  ]);
+
+  return { summary, topQueries, zeroResultQueries, lowClickThroughQueries };
+}
@@ -0,0 +1,70 @@
+import { prisma } from '../../config/prisma';
+import { normaliseQuery } from './search-analytics';
+
+// Longest synonym term, in words, looked for inside a query
+const MAX_TERM_WORDS = 4;
+// Bounds the OR-ed queries when several terms with many synonyms appear together
+const MAX_EXPANDED_QUERIES = 20;
+
+export interface SearchRedirect {
+  type: 'category';
+  categoryId: string;
+  slug: string;
+  name: string;
+  url: string;
+}
+
+/**
+ * Every run of up to MAX_TERM_WORDS consecutive words in the query
+ */
+function queryPhrases(query: string) {
+  const words = query.split(' ');
+  const phrases = new Set<string>();
+  for (let start = 0; start < words.length; start++) {
+    for (let end = start + 1; end <= Math.min(words.length, start + MAX_TERM_WORDS); end++) {
+      phrases.add(words.slice(start, end).join(' '));
+    }
+  }
+  return [...phrases];
+}
+
+function replacePhrase(query: string, term: string, replacement: string) {
+  return ` ${query} `.split(` ${term} `).join(` ${replacement} `).trim();
+}
+
+/**
+ * Look up the synonym rules for a search. Each rule whose term appears in the query as whole
+ * words yields extra queries with the term swapped for each synonym, e.g. "white tee" also
+ * searches "white t-shirt". A query that is exactly a rule's term returns the rule's category
+ * redirect, if it has one.
+ */
+export async function rewriteQuery(q: string) {
+  const query = normaliseQuery(q);
+  const rules = await prisma.searchSynonym.findMany({
+    where: { term: { in: queryPhrases(query) } },
+    include: { redirectCategory: { select: { id: true, name: true, slug: true } } },
+  });
+  // Longer terms first, so "running shoes" is rewritten before "shoes"
+  rules.sort((a, b) => b.term.length - a.term.length);
+
+  let variants = [query];
+  for (const rule of rules) {
+    const rewritten = variants.flatMap((variant) =>
+      rule.synonyms.map((synonym) => replacePhrase(variant, rule.term, synonym)),
+    );
+    variants = [...new Set([...variants, ...rewritten])].slice(0, MAX_EXPANDED_QUERIES + 1);
+  }
+
+  const category = rules.find((rule) => rule.term === query)?.redirectCategory;
+  const redirect: SearchRedirect | null = category
+    ? {
+        type: 'category',
+        categoryId: category.id,
+        slug: category.slug,
+        name: category.name,
+        url: `/categories/${category.slug}`,
+      }
+    : null;
+
+  return { expandedQueries: variants.slice(1), redirect };
+}
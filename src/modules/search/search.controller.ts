@@ -0,0 +1,38 @@
+import { Request, Response } from 'express';
+
+import { systemClock } from '../../utils/clock';
+import { buildSearchReport, recordSearchClick } from './search-analytics';
+import { RecordSearchClickInput, SearchReportQuery } from './search.schema';
+
+const DEFAULT_REPORT_DAYS = 30;
+
+export async function recordClick(req: Request, res: Response) {
+  const { searchId, productId } = req.body as RecordSearchClickInput;
+
+  if (!(await recordSearchClick(searchId, productId, systemClock()))) {
+    return res.status(404).json({ message: 'Search not found' });
+  }
+
+  res.json({ message: 'Click recorded' });
+}
+
+export async function getSearchReport(req: Request, res: Response) {
+  const { from, to, source = 'SEARCH', limit = '20' } = req.query as SearchReportQuery;
+
+  const toDate = to ? new Date(to) : systemClock();
+  const fromDate = from
+    ? new Date(from)
+    : new Date(toDate.getTime() - DEFAULT_REPORT_DAYS * 24 * 60 * 60 * 1000);
+  if (fromDate >= toDate) {
+    return res.status(400).json({ message: 'from must be before to' });
+  }
+
+  const report = await buildSearchReport({
+    from: fromDate,
+    to: toDate,
+    source,
+    limit: Math.min(Math.max(Number(limit) || 20, 1), 100),
+  });
+
+  res.json({ from: fromDate, to: toDate, source, ...report });
+}
@@ -1,6 +1,21 @@
 import { Router } from 'express';
 
+import { authGuard, requirePermission } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
 import { getSearchSuggestions } from '../products/search.controller';
+import { getSearchReport, recordClick } from './search.controller';
+import {
+  createSearchSynonymSchema,
+  recordSearchClickSchema,
+  searchReportQuerySchema,
+  updateSearchSynonymSchema,
+} from './search.schema';
+import {
+  createSearchSynonym,
+  deleteSearchSynonym,
+  listSearchSynonyms,
+  updateSearchSynonym,
+} from './synonyms.controller';
 
 export const searchRouter = Router();
 
@@ -9,6 +24,7 @@ export const searchRouter = Router();
  * /api/v1/search/suggestions:
  *   get:
  *     summary: Get search suggestions/autocomplete
+ *     description: Typo-tolerant matching on product titles, product and variant SKUs and category names, grouped by type. Each group is ranked by similarity, then popularity (units sold for products, active products for categories).
  *     tags: [Search]
  *     parameters:
  *       - in: query
@@ -26,16 +42,285 @@ export const searchRouter = Router();
  *             schema:
  *               type: object
  *               properties:
+ *                 searchId:
+ *                   type: string
+ *                   format: uuid
+ *                   nullable: true
+ *                   description: Send back to /search/clicks when a suggestion is chosen
+ *                 redirect:
+ *                   $ref: '#/components/schemas/SearchRedirect'
  *                 suggestions:
+ *                   type: object
+ *                   properties:
+ *                     products:
+ *                       type: array
+ *                       maxItems: 10
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id: { type: string, format: uuid }
+ *                           title: { type: string }
+ *                           slug: { type: string }
+ *                           image: { type: string, format: url, nullable: true }
+ *                           matchedSku:
+ *                             type: string
+ *                             nullable: true
+ *                             description: Set when the product matched on its own or a variant's SKU
+ *                           score: { type: number }
+ *                     categories:
+ *                       type: array
+ *                       maxItems: 5
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id: { type: string, format: uuid }
+ *                           name: { type: string }
+ *                           slug: { type: string }
+ *                           productCount: { type: integer }
+ *                           score: { type: number }
+ *       400:
+ *         description: Query too short (minimum 2 characters)
+ */
+searchRouter.get('/suggestions', getSearchSuggestions);
+
+/**
+ * @swagger
+ * /api/v1/search/clicks:
+ *   post:
+ *     summary: Record a click on a search result or suggestion
+ *     description: Only the first click per search counts towards click-through.
+ *     tags: [Search]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [searchId, productId]
+ *             properties:
+ *               searchId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: The searchId returned with the results
+ *               productId:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       200:
+ *         description: Click recorded
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         description: Search not found
+ */
+searchRouter.post('/clicks', validate({ body: recordSearchClickSchema }), recordClick);
+
+/**
+ * @swagger
+ * /api/v1/search/analytics:
+ *   get:
+ *     summary: Search analytics report (requires analytics:read)
+ *     description: Top queries, queries without results and queries whose results are rarely clicked. Low click-through only lists queries searched at least 5 times.
+ *     tags: [Search]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the range (inclusive). Defaults to 30 days before `to`
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the range (exclusive). Defaults to now
+ *       - in: query
+ *         name: source
+ *         schema:
+ *           type: string
+ *           enum: [SEARCH, SUGGESTIONS]
+ *           default: SEARCH
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *         description: Rows per list
+ *     responses:
+ *       200:
+ *         description: Search report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 from: { type: string, format: date-time }
+ *                 to: { type: string, format: date-time }
+ *                 source: { type: string }
+ *                 summary:
+ *                   type: object
+ *                   properties:
+ *                     searches: { type: integer }
+ *                     uniqueVisitors: { type: integer }
+ *                     zeroResultSearches: { type: integer }
+ *                     clickThroughRate: { type: number, nullable: true }
+ *                 topQueries:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SearchQueryStats'
+ *                 zeroResultQueries:
  *                   type: array
  *                   items:
  *                     type: object
  *                     properties:
- *                       id: { type: string, format: uuid }
- *                       title: { type: string }
- *                       slug: { type: string }
- *                       image: { type: string, format: url, nullable: true }
+ *                       query: { type: string }
+ *                       searches: { type: integer }
+ *                       lastSearchedAt: { type: string, format: date-time }
+ *                 lowClickThroughQueries:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SearchQueryStats'
  *       400:
- *         description: Query too short (minimum 2 characters)
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Missing analytics:read permission
  */
-searchRouter.get('/suggestions', getSearchSuggestions);
+searchRouter.get(
+  '/analytics',
+  authGuard,
+  requirePermission('analytics:read'),
+  validate({ query: searchReportQuerySchema }),
+  getSearchReport,
+);
+
+/**
+ * @swagger
+ * /api/v1/search/synonyms:
+ *   get:
+ *     summary: List search synonym and redirect rules (requires catalog:write)
+ *     tags: [Search]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Synonym rules
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 synonyms:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SearchSynonym'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Missing catalog:write permission
+ *   post:
+ *     summary: Create a search synonym or redirect rule (requires catalog:write)
+ *     tags: [Search]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SearchSynonymInput'
+ *     responses:
+ *       201:
+ *         description: Rule created
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Missing catalog:write permission
+ *       409:
+ *         description: A rule for this term already exists
+ */
+searchRouter.get('/synonyms', authGuard, requirePermission('catalog:write'), listSearchSynonyms);
+searchRouter.post(
+  '/synonyms',
+  authGuard,
+  requirePermission('catalog:write'),
+  validate({ body: createSearchSynonymSchema }),
+  createSearchSynonym,
+);
+
+/**
+ * @swagger
+ * /api/v1/search/synonyms/{id}:
+ *   patch:
+ *     summary: Update a search synonym or redirect rule (requires catalog:write)
+ *     tags: [Search]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SearchSynonymInput'
+ *     responses:
+ *       200:
+ *         description: Rule updated
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Missing catalog:write permission
+ *       404:
+ *         description: Synonym rule not found
+ *       409:
+ *         description: A rule for this term already exists
+ *   delete:
+ *     summary: Delete a search synonym or redirect rule (requires catalog:write)
+ *     tags: [Search]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Rule deleted
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Missing catalog:write permission
+ *       404:
+ *         description: Synonym rule not found
+ */
+searchRouter.patch(
+  '/synonyms/:id',
+  authGuard,
+  requirePermission('catalog:write'),
+  validate({ body: updateSearchSynonymSchema }),
+  updateSearchSynonym,
+);
+searchRouter.delete(
+  '/synonyms/:id',
+  authGuard,
+  requirePermission('catalog:write'),
+  deleteSearchSynonym,
+);
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+export const recordSearchClickSchema = z.object({
+  searchId: z.string().uuid(),
+  productId: z.string().uuid(),
+});
+
+export const searchReportQuerySchema = z.object({
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  source: z.enum(['SEARCH', 'SUGGESTIONS']).optional(),
+  limit: z.string().regex(/^\d+$/).optional(),
+});
+
+const synonymTermSchema = z.string().trim().min(1).max(100);
+// Queries are only checked for terms of up to four words
+const ruleTermSchema = synonymTermSchema.refine((term) => term.split(/\s+/).length <= 4, {
+  message: 'Terms can be at most 4 words',
+});
+
+export const createSearchSynonymSchema = z
+  .object({
+    term: ruleTermSchema,
+    synonyms: z.array(synonymTermSchema).max(20).default([]),
+    redirectCategoryId: z.string().uuid().nullable().optional(),
+  })
+  .refine((rule) => rule.synonyms.length > 0 || rule.redirectCategoryId, {
+    message: 'Provide synonyms, a redirect category or both',
+  });
+
+export const updateSearchSynonymSchema = z.object({
+  term: ruleTermSchema.optional(),
+  synonyms: z.array(synonymTermSchema).max(20).optional(),
+  redirectCategoryId: z.string().uuid().nullable().optional(),
+});
+
+export type CreateSearchSynonymInput = z.input<typeof createSearchSynonymSchema>;
+export type UpdateSearchSynonymInput = z.infer<typeof updateSearchSynonymSchema>;
+export type RecordSearchClickInput = z.infer<typeof recordSearchClickSchema>;
+export type SearchReportQuery = z.infer<typeof searchReportQuerySchema>;
@@ -0,0 +1,93 @@
+import { Request, Response } from 'express';
+
+import { prisma } from '../../config/prisma';
+import { normaliseQuery } from './search-analytics';
+import { CreateSearchSynonymInput, UpdateSearchSynonymInput } from './search.schema';
+
+const redirectCategoryInclude = {
+  redirectCategory: { select: { id: true, name: true, slug: true } },
+} as const;
+
+// Stored the way queries are normalised, so lookups are exact string matches
+function normaliseSynonyms(term: string, synonyms: string[]) {
+  return [...new Set(synonyms.map(normaliseQuery))].filter((synonym) => synonym !== term);
+}
+
+async function categoryExists(categoryId: string | null | undefined) {
+  if (!categoryId) return true;
+  return (await prisma.category.count({ where: { id: categoryId } })) > 0;
+}
+
+export async function listSearchSynonyms(_req: Request, res: Response) {
+  const synonyms = await prisma.searchSynonym.findMany({
+    orderBy: { term: 'asc' },
+    include: redirectCategoryInclude,
+  });
+  res.json({ synonyms });
+}
+
+export async function createSearchSynonym(req: Request, res: Response) {
+  const body = req.body as CreateSearchSynonymInput;
+  const term = normaliseQuery(body.term);
+
+  const existing = await prisma.searchSynonym.findUnique({ where: { term } });
+  if (existing) {
+    return res.status(409).json({ message: 'A rule for this term already exists' });
+  }
+  if (!(await categoryExists(body.redirectCategoryId))) {
+    return res.status(400).json({ message: 'Redirect category not found' });
+  }
+
+  const synonyms = normaliseSynonyms(term, body.synonyms ?? []);
+  if (synonyms.length === 0 && !body.redirectCategoryId) {
+    return res.status(400).json({ message: 'Provide synonyms, a redirect category or both' });
+  }
+
+  const synonym = await prisma.searchSynonym.create({
+    data: { term, synonyms, redirectCategoryId: body.redirectCategoryId ?? null },
+    include: redirectCategoryInclude,
+  });
+  res.status(201).json({ synonym });
+}
+
+export async function updateSearchSynonym(req: Request, res: Response) {
+  const { id } = req.params as { id: string };
+  const body = req.body as UpdateSearchSynonymInput;
+
+  const existing = await prisma.searchSynonym.findUnique({ where: { id } });
+  if (!existing) return res.status(404).json({ message: 'Synonym rule not found' });
+
+  const term = body.term ? normaliseQuery(body.term) : existing.term;
+  if (term !== existing.term) {
+    const taken = await prisma.searchSynonym.findUnique({ where: { term } });
+    if (taken) return res.status(409).json({ message: 'A rule for this term already exists' });
+  }
+  if (!(await categoryExists(body.redirectCategoryId))) {
+    return res.status(400).json({ message: 'Redirect category not found' });
+  }
+
+  const synonyms = normaliseSynonyms(term, body.synonyms ?? existing.synonyms);
+  const redirectCategoryId =
+    body.redirectCategoryId === undefined ? existing.redirectCategoryId : body.redirectCategoryId;
+  if (synonyms.length === 0 && !redirectCategoryId) {
+    return res.status(400).json({ message: 'Provide synonyms, a redirect category or both' });
+  }
+
+  // Rules are read on every search, so changes apply immediately
+  const synonym = await prisma.searchSynonym.update({
+    where: { id },
+    data: { term, synonyms, redirectCategoryId },
+    include: redirectCategoryInclude,
+  });
+  res.json({ synonym });
+}
+
+export async function deleteSearchSynonym(req: Request, res: Response) {
+  const { id } = req.params as { id: string };
+
+  const existing = await prisma.searchSynonym.findUnique({ where: { id } });
+  if (!existing) return res.status(404).json({ message: 'Synonym rule not found' });
+
+  await prisma.searchSynonym.delete({ where: { id } });
+  res.json({ message: 'Synonym rule deleted successfully' });
+}
@@ -1,21 +1,206 @@
 import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 
 import { prisma } from '../../config/prisma';
+import { claimPasswordResetSlot } from '../auth/login-protection';
+import { createPasswordResetToken, sendPasswordResetEmail } from '../auth/password-reset-utils';
+import { invalidateUserTokens } from '../auth/session-utils';
+import { PURCHASED_ORDER_STATUSES } from '../orders/order-state';
+import {
+  AssignStaffRoleInput,
+  ListUsersQuery,
+  SuspendUserInput,
+  UpdateUserRoleInput,
+} from './users.schema';
 
-export async function listUsers(_req: Request, res: Response) {
-  const users = await prisma.user.findMany({
-    orderBy: { createdAt: 'desc' },
-    select: { id: true, email: true, name: true, role: true, createdAt: true },
-  });
-  res.json({ users });
+const userSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  staffRole: { select: { id: true, name: true, permissions: true } },
+  emailVerified: true,
+  suspendedAt: true,
+  suspendedReason: true,
+  createdAt: true,
+} satisfies Prisma.UserSelect;
+
+export async function listUsers(req: Request, res: Response) {
+  const { page = '1', limit = '20', q, role, status } = req.query as Partial<ListUsersQuery>;
+
+  const take = Math.min(Number(limit) || 20, 100);
+  const currentPage = Math.max(Number(page) || 1, 1);
+  const skip = (currentPage - 1) * take;
+
+  const where: Prisma.UserWhereInput = {};
+  if (q)
+    where.OR = [
+      { email: { contains: q, mode: 'insensitive' } },
+      { name: { contains: q, mode: 'insensitive' } },
+    ];
+  if (role) where.role = role;
+  if (status) where.suspendedAt = status === 'suspended' ? { not: null } : null;
+
+  const [users, total] = await Promise.all([
+    prisma.user.findMany({ where, skip, take, orderBy: { createdAt: 'desc' }, select: userSelect }),
+    prisma.user.count({ where }),
+  ]);
+
+  res.json({ page: currentPage, limit: take, total, users });
 }
 
 export async function getUser(req: Request, res: Response) {
   const { id } = req.params as { id: string };
   const user = await prisma.user.findUnique({
     where: { id },
-    select: { id: true, email: true, name: true, role: true, createdAt: true },
+    select: {
+      ...userSelect,
+      twoFactorEnabledAt: true,
+      addresses: { orderBy: [{ isDefault: 'desc' }, { createdAt: 'desc' }] },
+    },
   });
   if (!user) return res.status(404).json({ message: 'User not found' });
+
+  const [orderCount, spend, reviewCount] = await Promise.all([
+    prisma.order.count({ where: { userId: id } }),
+    // Orders that were paid for, net of anything refunded since
+    prisma.order.aggregate({
+      where: { userId: id, status: { in: [...PURCHASED_ORDER_STATUSES, 'REFUNDED'] } },
+      _sum: { totalCents: true, refundedCents: true },
+    }),
+    prisma.review.count({ where: { userId: id } }),
+  ]);
+
+  res.json({
+    user,
+    stats: {
+      orderCount,
+      lifetimeSpendCents: (spend._sum.totalCents ?? 0) - (spend._sum.refundedCents ?? 0),
+      reviewCount,
+    },
+  });
+}
+
+export async function updateUserRole(req: Request, res: Response) {
+  const { id } = req.params as { id: string };
+  const { role } = req.body as UpdateUserRoleInput;
+
+  if (id === req.user!.id) {
+    return res.status(400).json({ message: 'You cannot change your own role' });
+  }
+
+  const existing = await prisma.user.findUnique({ where: { id } });
+  if (!existing) return res.status(404).json({ message: 'User not found' });
+  if (existing.role === role) {
+    return res.status(400).json({ message: `User already has role ${role}` });
+  }
+
+  // Tokens carrying the old role must stop working straight away
+  const user = await prisma.$transaction(async (tx) => {
+    await invalidateUserTokens(id, tx);
+    return tx.user.update({
+      where: { id },
+      data: { role },
+      select: userSelect,
+    });
+  });
+
+  res.json({ user });
+}
+
+export async function assignStaffRole(req: Request, res: Response) {
+  const { id } = req.params as { id: string };
+  const { staffRoleId } = req.body as AssignStaffRoleInput;
+
+  if (id === req.user!.id) {
+    return res.status(400).json({ message: 'You cannot change your own role' });
+  }
+
+  const existing = await prisma.user.findUnique({ where: { id } });
+  if (!existing) return res.status(404).json({ message: 'User not found' });
+
+  if (staffRoleId) {
+    const staffRole = await prisma.staffRole.findUnique({ where: { id: staffRoleId } });
+    if (!staffRole) return res.status(404).json({ message: 'Role not found' });
+  }
+
+  // Permissions are loaded on every request, so existing tokens pick up the change
+  const user = await prisma.user.update({
+    where: { id },
+    data: { staffRoleId },
+    select: userSelect,
+  });
+
+  res.json({ user });
+}
+
+export async function suspendUser(req: Request, res: Response) {
+  const { id } = req.params as { id: string };
+  const { reason } = req.body as SuspendUserInput;
+
+  if (id === req.user!.id) {
+    return res.status(400).json({ message: 'You cannot suspend your own account' });
+  }
+
+  const existing = await prisma.user.findUnique({ where: { id } });
+  if (!existing) return res.status(404).json({ message: 'User not found' });
+  if (existing.role === 'ADMIN' && req.user!.role !== 'ADMIN') {
+    return res.status(403).json({ message: 'Only admins can suspend admin accounts' });
+  }
+  if (existing.suspendedAt) {
+    return res.status(409).json({ message: 'User is already suspended' });
+  }
+
+  const user = await prisma.$transaction(async (tx) => {
+    await invalidateUserTokens(id, tx);
+    return tx.user.update({
+      where: { id },
+      data: { suspendedAt: new Date(), suspendedReason: reason ?? null },
+      select: userSelect,
+    });
+  });
+
   res.json({ user });
 }
+
+export async function reactivateUser(req: Request, res: Response) {
+  const { id } = req.params as { id: string };
+
+  if (id === req.user!.id) {
+    return res.status(400).json({ message: 'You cannot reactivate your own account' });
+  }
+
+  const existing = await prisma.user.findUnique({ where: { id } });
+  if (!existing) return res.status(404).json({ message: 'User not found' });
+  if (existing.role === 'ADMIN' && req.user!.role !== 'ADMIN') {
+    return res.status(403).json({ message: 'Only admins can reactivate admin accounts' });
+  }
+  if (!existing.suspendedAt) {
+    return res.status(409).json({ message: 'User is not suspended' });
+  }
+
+  const user = await prisma.user.update({
+    where: { id },
+    data: { suspendedAt: null, suspendedReason: null },
+    select: userSelect,
+  });
+
+  res.json({ user });
+}
+
+export async function sendUserPasswordReset(req: Request, res: Response) {
+  const { id } = req.params as { id: string };
+
+  const user = await prisma.user.findUnique({ where: { id } });
+  if (!user) return res.status(404).json({ message: 'User not found' });
+  if (!(await claimPasswordResetSlot(user))) {
+    return res
+      .status(429)
+      .json({ message: 'Too many password reset emails sent to this user. Try again later.' });
+  }
+
+  const resetToken = await createPasswordResetToken(user.id);
+  await sendPasswordResetEmail(user.email, resetToken, { requestedByAdmin: true });
+
+  res.json({ message: `Password reset email sent to ${user.email}` });
+}
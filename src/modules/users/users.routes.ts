@@ -1,7 +1,22 @@
 import { Router } from 'express';
 
-import { authGuard, requireRole } from '../../middleware/auth';
-import { getUser, listUsers } from './users.controller';
+import { authGuard, requirePermission, requireRole } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import {
+  assignStaffRole,
+  getUser,
+  listUsers,
+  reactivateUser,
+  sendUserPasswordReset,
+  suspendUser,
+  updateUserRole,
+} from './users.controller';
+import {
+  assignStaffRoleSchema,
+  listUsersQuerySchema,
+  suspendUserSchema,
+  updateUserRoleSchema,
+} from './users.schema';
 
 export const usersRouter = Router();
 
@@ -9,18 +24,51 @@ export const usersRouter = Router();
  * @swagger
  * /api/v1/users:
  *   get:
- *     summary: List all users (Admin only)
+ *     summary: List users (requires users:manage)
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Search by email or name
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [USER, ADMIN]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, suspended]
  *     responses:
  *       200:
- *         description: List of users
+ *         description: Page of users, newest first
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
+ *                 page:
+ *                   type: integer
+ *                 limit:
+ *                   type: integer
+ *                 total:
+ *                   type: integer
  *                 users:
  *                   type: array
  *                   items:
@@ -28,16 +76,17 @@ export const usersRouter = Router();
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
- *         description: Forbidden (Admin only)
+ *         description: Forbidden (requires users:manage)
  */
-usersRouter.use(authGuard, requireRole('ADMIN'));
-usersRouter.get('/', listUsers);
+usersRouter.use(authGuard, requirePermission('users:manage'));
+usersRouter.get('/', validate({ query: listUsersQuerySchema }), listUsers);
 
 /**
  * @swagger
  * /api/v1/users/{id}:
  *   get:
- *     summary: Get user by ID (Admin only)
+ *     summary: Get user details (requires users:manage)
+ *     description: Includes addresses and order, spend and review totals.
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
@@ -58,7 +107,73 @@ usersRouter.get('/', listUsers);
  *               type: object
  *               properties:
  *                 user:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/User'
+ *                     - type: object
+ *                       properties:
+ *                         addresses:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                 stats:
+ *                   type: object
+ *                   properties:
+ *                     orderCount:
+ *                       type: integer
+ *                     lifetimeSpendCents:
+ *                       type: integer
+ *                       description: Total of paid orders minus refunds
+ *                     reviewCount:
+ *                       type: integer
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Forbidden (requires users:manage)
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+usersRouter.get('/:id', getUser);
+
+/**
+ * @swagger
+ * /api/v1/users/{id}/role:
+ *   patch:
+ *     summary: Promote or demote a user (Admin only)
+ *     description: Signs the user out of every session so the new role applies immediately.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: User ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [role]
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [USER, ADMIN]
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 user:
  *                   $ref: '#/components/schemas/User'
+ *       400:
+ *         description: Own role, or the user already has this role
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
@@ -66,4 +181,169 @@ usersRouter.get('/', listUsers);
  *       404:
  *         $ref: '#/components/responses/NotFound'
  */
-usersRouter.get('/:id', getUser);
+usersRouter.patch(
+  '/:id/role',
+  requireRole('ADMIN'),
+  validate({ body: updateUserRoleSchema }),
+  updateUserRole,
+);
+
+/**
+ * @swagger
+ * /api/v1/users/{id}/staff-role:
+ *   patch:
+ *     summary: Assign or remove a user's staff role (Admin only)
+ *     description: The user gains the role's permissions on their next request.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: User ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [staffRoleId]
+ *             properties:
+ *               staffRoleId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *                 description: Role to assign, or null to remove it
+ *     responses:
+ *       200:
+ *         description: Staff role updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 user:
+ *                   $ref: '#/components/schemas/User'
+ *       400:
+ *         description: Own role
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Forbidden (Admin only)
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+usersRouter.patch(
+  '/:id/staff-role',
+  requireRole('ADMIN'),
+  validate({ body: assignStaffRoleSchema }),
+  assignStaffRole,
+);
+
+/**
+ * @swagger
+ * /api/v1/users/{id}/suspend:
+ *   post:
+ *     summary: Suspend a user (requires users:manage)
+ *     description: Signs the user out everywhere and blocks login and API access until reactivated.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: User ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: User suspended
+ *       400:
+ *         description: Cannot suspend your own account
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Forbidden (requires users:manage; only admins can suspend admins)
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: User is already suspended
+ */
+usersRouter.post('/:id/suspend', validate({ body: suspendUserSchema }), suspendUser);
+
+/**
+ * @swagger
+ * /api/v1/users/{id}/reactivate:
+ *   post:
+ *     summary: Reactivate a suspended user (requires users:manage)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: User ID
+ *     responses:
+ *       200:
+ *         description: User reactivated
+ *       400:
+ *         description: Cannot reactivate your own account
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Forbidden (requires users:manage; only admins can reactivate admins)
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: User is not suspended
+ */
+usersRouter.post('/:id/reactivate', reactivateUser);
+
+/**
+ * @swagger
+ * /api/v1/users/{id}/password-reset:
+ *   post:
+ *     summary: Send a password reset email to a user (requires users:manage)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: User ID
+ *     responses:
+ *       200:
+ *         description: Reset email sent
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Forbidden (requires users:manage)
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       429:
+ *         description: The user's hourly password reset email limit has been reached
+ */
+usersRouter.post('/:id/password-reset', sendUserPasswordReset);
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+export const listUsersQuerySchema = z.object({
+  page: z.string().regex(/^\d+$/).optional(),
+  limit: z.string().regex(/^\d+$/).optional(),
+  q: z.string().max(200).optional(),
+  role: z.enum(['USER', 'ADMIN']).optional(),
+  status: z.enum(['active', 'suspended']).optional(),
+});
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(['USER', 'ADMIN']),
+});
+
+export const assignStaffRoleSchema = z.object({
+  staffRoleId: z.string().uuid().nullable(),
+});
+
+export const suspendUserSchema = z.object({
+  reason: z.string().min(1).max(500).optional(),
+});
+
+export type ListUsersQuery = z.infer<typeof listUsersQuerySchema>;
+export type UpdateUserRoleInput = z.infer<typeof updateUserRoleSchema>;
+export type AssignStaffRoleInput = z.infer<typeof assignStaffRoleSchema>;
+export type SuspendUserInput = z.infer<typeof suspendUserSchema>;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 
-import { authGuard } from '../../middleware/auth';
+import { authGuard, requireKeyScope } from '../../middleware/auth';
 import {
   addToWishlist,
   checkWishlist,
@@ -11,7 +11,7 @@ import {
 export const wishlistRouter = Router();
 
 // All wishlist routes require authentication
-wishlistRouter.use(authGuard);
+wishlistRouter.use(authGuard, requireKeyScope('account'));
 
 /**
  * @swagger
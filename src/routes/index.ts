@@ -2,6 +2,7 @@ import { Router } from 'express';
 
 import { authRouter } from '../modules/auth/auth.routes';
 import { usersRouter } from '../modules/users/users.routes';
+import { rolesRouter } from '../modules/roles/roles.routes';
 import { categoriesRouter } from '../modules/categories/categories.routes';
 import { productsRouter } from '../modules/products/products.routes';
 import { ordersRouter } from '../modules/orders/orders.routes';
@@ -20,6 +21,7 @@ export const router = Router();
 router.use('/health', healthRouter);
 router.use('/auth', authRouter);
 router.use('/users', usersRouter);
+router.use('/roles', rolesRouter);
 router.use('/categories', categoriesRouter);
 router.use('/products', productsRouter);
 router.use('/orders', ordersRouter);
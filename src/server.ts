@@ -2,6 +2,8 @@ import { createServer } from 'http';
 
 import { createApp } from './app';
 import { env } from './config/env';
+import { startReservationSweeper } from './modules/orders/reservation-sweeper';
+import { startAccountDeletionSweeper } from './modules/profile/account-deletion';
 
 const app = createApp();
 const server = createServer(app);
@@ -10,3 +12,9 @@ const port = env.PORT;
 server.listen(port, () => {
   console.log(`🚀 Cozzy API Server listening on http://localhost:${port}`);
 });
+
+// Release stock held by orders that were never paid
+startReservationSweeper();
+
+// Anonymise accounts whose deletion grace period has ended
+startAccountDeletionSweeper();
@@ -0,0 +1,6 @@
+/**
+ * Source of the current time. Injected into time-dependent code so tests can control it.
+ */
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
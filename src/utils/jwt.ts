@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import jwt, { type SignOptions } from 'jsonwebtoken';
 
 import { env } from '../config/env';
@@ -19,3 +20,16 @@ export function signRefreshToken(payload: Payload) {
 export function verifyRefreshToken(token: string) {
   return jwt.verify(token, env.JWT_REFRESH_SECRET);
 }
+
+// Challenge tokens get their own key so they can never be used as access or refresh tokens
+function challengeSecret() {
+  return crypto.createHmac('sha256', env.JWT_ACCESS_SECRET).update('2fa-challenge').digest();
+}
+
+export function signTwoFactorChallenge(payload: Payload) {
+  return jwt.sign(payload, challengeSecret(), { expiresIn: '5m' });
+}
+
+export function verifyTwoFactorChallenge(token: string) {
+  return jwt.verify(token, challengeSecret());
+}
@@ -0,0 +1,242 @@
+import request from 'supertest';
+import { vi } from 'vitest';
+
+import { createApp } from '../src/app';
+import { prisma } from '../src/config/prisma';
+import { purgeScheduledDeletions } from '../src/modules/profile/account-deletion';
+import { sendEmail } from '../src/utils/email';
+import { createTestUser, createTestCategory, createTestProduct, cleanupDatabase } from './helpers';
+
+vi.mock('../src/utils/email', () => ({
+  sendEmail: vi.fn().mockResolvedValue(undefined),
+}));
+
+const app = createApp();
+
+const daysFromNow = (days: number) => () => new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+describe('Account Data Export and Deletion', () => {
+  let userToken: string;
+  let userId: string;
+  let orderId: string;
+
+  const tokenFromEmail = (subject: string, path: string) => {
+    const call = vi
+      .mocked(sendEmail)
+      .mock.calls.filter(([options]) => options.subject === subject)
+      .pop();
+    return call![0].text!.match(new RegExp(`${path}/([a-f0-9]+)`))![1];
+  };
+
+  const requestExport = async () => {
+    const res = await request(app)
+      .post('/api/v1/profile/export')
+      .set('Authorization', `Bearer ${userToken}`);
+    expect(res.status).toBe(202);
+    return tokenFromEmail('Your data export was requested', '/profile/export');
+  };
+
+  // Emailed links are opened without signing in
+  const downloadExport = (token: string) => request(app).get(`/api/v1/profile/export/${token}`);
+
+  const scheduleDeletion = async () => {
+    const res = await request(app)
+      .delete('/api/v1/profile')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ password: 'password123' });
+    expect(res.status).toBe(202);
+    const token = tokenFromEmail('Confirm your account deletion', '/profile/deletion/confirm');
+
+    return request(app).get(`/api/v1/profile/deletion/confirm/${token}`);
+  };
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    vi.mocked(sendEmail).mockClear();
+    const user = await createTestUser('user@example.com', 'USER');
+    userId = user.id;
+
+    const userLogin = await request(app).post('/api/v1/auth/login').send({
+      email: 'user@example.com',
+      password: 'password123',
+    });
+    userToken = userLogin.body.accessToken;
+
+    const category = await createTestCategory('Electronics');
+    const product = await createTestProduct(category.id, { title: 'Test Product', stock: 10 });
+
+    const orderRes = await request(app)
+      .post('/api/v1/orders')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ items: [{ productId: product.id, quantity: 1 }] });
+    orderId = orderRes.body.order.id;
+
+    await prisma.address.create({
+      data: {
+        userId,
+        label: 'Home',
+        firstName: 'Test',
+        lastName: 'User',
+        street: '1 Main St',
+        city: 'Springfield',
+        zipCode: '12345',
+      },
+    });
+    await prisma.review.create({ data: { userId, productId: product.id, rating: 4 } });
+    await prisma.wishlist.create({ data: { userId, productId: product.id } });
+  });
+
+  describe('Data export', () => {
+    it('should only allow the emailed link after the waiting period', async () => {
+      const token = await requestExport();
+
+      const early = await downloadExport(token);
+      expect(early.status).toBe(409);
+      expect(early.body.availableAt).toBeDefined();
+    });
+
+    it('should export all personal data as a JSON attachment', async () => {
+      const token = await requestExport();
+      await prisma.user.update({
+        where: { id: userId },
+        data: { exportAvailableAt: new Date(Date.now() - 1000) },
+      });
+
+      const res = await downloadExport(token);
+
+      expect(res.status).toBe(200);
+      expect(res.headers['content-disposition']).toContain('attachment');
+      expect(res.body.profile.email).toBe('user@example.com');
+      expect(res.body.profile).not.toHaveProperty('passwordHash');
+      expect(res.body.addresses).toHaveLength(1);
+      expect(res.body.orders).toHaveLength(1);
+      expect(res.body.orders[0].items[0].product.title).toBe('Test Product');
+      expect(res.body.reviews).toHaveLength(1);
+      expect(res.body.wishlist).toHaveLength(1);
+      expect(res.body).toHaveProperty('cart');
+    });
+
+    it('should let the signed-in user download a requested export', async () => {
+      const download = () =>
+        request(app).get('/api/v1/profile/export').set('Authorization', `Bearer ${userToken}`);
+
+      expect((await download()).status).toBe(404);
+
+      await requestExport();
+      expect((await download()).status).toBe(409);
+
+      await prisma.user.update({
+        where: { id: userId },
+        data: { exportAvailableAt: new Date(Date.now() - 1000) },
+      });
+      const res = await download();
+      expect(res.status).toBe(200);
+      expect(res.body.profile.email).toBe('user@example.com');
+    });
+
+    it('should reject unknown and cancelled export links', async () => {
+      expect((await downloadExport('0'.repeat(64))).status).toBe(400);
+
+      const token = await requestExport();
+      const cancelRes = await request(app)
+        .post('/api/v1/profile/export/cancel')
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(cancelRes.status).toBe(200);
+
+      expect((await downloadExport(token)).status).toBe(400);
+    });
+  });
+
+  describe('DELETE /api/v1/profile', () => {
+    it('should require the current password', async () => {
+      const res = await request(app)
+        .delete('/api/v1/profile')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ password: 'wrongpassword' });
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should not schedule deletion until the emailed link is confirmed', async () => {
+      const res = await request(app)
+        .delete('/api/v1/profile')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ password: 'password123' });
+
+      expect(res.status).toBe(202);
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      expect(user?.deletionScheduledFor).toBeNull();
+
+      const invalid = await request(app).get(`/api/v1/profile/deletion/confirm/${'0'.repeat(64)}`);
+      expect(invalid.status).toBe(400);
+    });
+
+    it('should schedule deletion after the grace period', async () => {
+      const res = await scheduleDeletion();
+
+      expect(res.status).toBe(202);
+      const scheduledFor = new Date(res.body.scheduledFor).getTime();
+      expect(scheduledFor).toBeGreaterThan(daysFromNow(13)().getTime());
+
+      const again = await request(app)
+        .delete('/api/v1/profile')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ password: 'password123' });
+      expect(again.status).toBe(409);
+
+      expect(await purgeScheduledDeletions({ clock: daysFromNow(1) })).toHaveLength(0);
+    });
+
+    it('should anonymise the account but keep orders once the grace period ends', async () => {
+      const staffRole = await prisma.staffRole.create({
+        data: { name: 'Support', permissions: ['orders:fulfil'] },
+      });
+      await prisma.user.update({
+        where: { id: userId },
+        data: { staffRoleId: staffRole.id, suspendedReason: 'Chargeback review' },
+      });
+      await scheduleDeletion();
+
+      const deleted = await purgeScheduledDeletions({ clock: daysFromNow(15) });
+
+      expect(deleted).toEqual([userId]);
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      expect(user?.email).not.toBe('user@example.com');
+      expect(user?.name).toBe('Deleted User');
+      expect(user?.deletedAt).not.toBeNull();
+      expect(user?.staffRoleId).toBeNull();
+      expect(user?.suspendedReason).toBeNull();
+      expect(await prisma.address.count({ where: { userId } })).toBe(0);
+      expect(await prisma.review.count({ where: { userId } })).toBe(0);
+      expect(await prisma.wishlist.count({ where: { userId } })).toBe(0);
+      expect(await prisma.authSession.count({ where: { userId } })).toBe(0);
+
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      expect(order?.userId).toBe(userId);
+
+      const profileRes = await request(app)
+        .get('/api/v1/profile')
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(profileRes.status).toBe(401);
+
+      const loginRes = await request(app).post('/api/v1/auth/login').send({
+        email: 'user@example.com',
+        password: 'password123',
+      });
+      expect(loginRes.status).toBe(401);
+    });
+
+    it('should not delete an account whose deletion was cancelled', async () => {
+      await scheduleDeletion();
+
+      const cancelRes = await request(app)
+        .post('/api/v1/profile/deletion/cancel')
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(cancelRes.status).toBe(200);
+
+      expect(await purgeScheduledDeletions({ clock: daysFromNow(15) })).toHaveLength(0);
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      expect(user?.email).toBe('user@example.com');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import bcrypt from 'bcryptjs';
+import request from 'supertest';
+import { vi } from 'vitest';
+
+import { createApp } from '../src/app';
+import { prisma } from '../src/config/prisma';
+import { sendEmail } from '../src/utils/email';
+import { createTestUser, cleanupDatabase } from './helpers';
+
+vi.mock('../src/utils/email', () => ({
+  sendEmail: vi.fn().mockResolvedValue(undefined),
+}));
+
+const app = createApp();
+
+describe('Account Lockout', () => {
+  const email = 'user@example.com';
+
+  const login = (password: string) =>
+    request(app).post('/api/v1/auth/login').send({ email, password });
+
+  const failLogins = async (times: number) => {
+    for (let i = 0; i < times; i++) {
+      const res = await login('wrongpassword');
+      expect(res.status).toBe(401);
+    }
+  };
+
+  const unlockTokenFromEmail = () => {
+    const call = vi
+      .mocked(sendEmail)
+      .mock.calls.find(([options]) => options.subject === 'Your account has been locked');
+    return call![0].text!.match(/\/auth\/unlock\/([a-f0-9]+)/)![1];
+  };
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    vi.mocked(sendEmail).mockClear();
+    await createTestUser(email, 'USER');
+  });
+
+  it('should lock the account after repeated failures, even for the right password', async () => {
+    await failLogins(5);
+
+    const res = await login('password123');
+
+    expect(res.status).toBe(401);
+    expect(res.body.message).toBe('Invalid credentials');
+    const user = await prisma.user.findUnique({ where: { email } });
+    expect(user?.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ to: email, subject: 'Your account has been locked' }),
+    );
+  });
+
+  it('should count concurrent failures before answering them', async () => {
+    const results = await Promise.all(Array.from({ length: 5 }, () => login('wrongpassword')));
+
+    expect(results.every((res) => res.status === 401)).toBe(true);
+    const user = await prisma.user.findUniqueOrThrow({ where: { email } });
+    expect(user.failedLoginAttempts).toBe(5);
+    expect(user.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+    expect((await login('password123')).status).toBe(401);
+  });
+
+  it('should reset the failure count after a successful login', async () => {
+    await failLogins(4);
+    expect((await login('password123')).status).toBe(200);
+
+    await failLogins(4);
+    expect((await login('password123')).status).toBe(200);
+  });
+
+  it('should unlock the account from the emailed link', async () => {
+    await failLogins(5);
+
+    const unlockRes = await request(app).get(`/api/v1/auth/unlock/${unlockTokenFromEmail()}`);
+    expect(unlockRes.status).toBe(200);
+
+    expect((await login('password123')).status).toBe(200);
+
+    const reused = await request(app).get(`/api/v1/auth/unlock/${unlockTokenFromEmail()}`);
+    expect(reused.status).toBe(400);
+  });
+
+  it('should allow login again once the lock expires', async () => {
+    await failLogins(5);
+    await prisma.user.update({
+      where: { email },
+      data: { lockedUntil: new Date(Date.now() - 1000) },
+    });
+
+    expect((await login('password123')).status).toBe(200);
+  });
+
+  it('should lock for longer on each repeated lockout', async () => {
+    await failLogins(5);
+    const first = await prisma.user.findUniqueOrThrow({ where: { email } });
+    const firstMinutes = (first.lockedUntil!.getTime() - Date.now()) / 60000;
+
+    await prisma.user.update({
+      where: { email },
+      data: { lockedUntil: new Date(Date.now() - 1000) },
+    });
+    await failLogins(5);
+    const second = await prisma.user.findUniqueOrThrow({ where: { email } });
+    const secondMinutes = (second.lockedUntil!.getTime() - Date.now()) / 60000;
+
+    expect(secondMinutes).toBeGreaterThan(firstMinutes * 1.5);
+  });
+
+  it('should spend bcrypt time on unknown emails', async () => {
+    const compare = vi.spyOn(bcrypt, 'compare');
+
+    const res = await request(app)
+      .post('/api/v1/auth/login')
+      .send({ email: 'nobody@example.com', password: 'password123' });
+
+    expect(res.status).toBe(401);
+    expect(res.body.message).toBe('Invalid credentials');
+    expect(compare).toHaveBeenCalledTimes(1);
+    compare.mockRestore();
+  });
+});
@@ -0,0 +1,203 @@
+import request from 'supertest';
+
+import { createApp } from '../src/app';
+import { prisma } from '../src/config/prisma';
+import { createTestUser, createTestCategory, createTestProduct, cleanupDatabase } from './helpers';
+
+const app = createApp();
+
+describe('Personal API Keys', () => {
+  let userToken: string;
+  let adminToken: string;
+
+  const createKey = (token: string, body: Record<string, unknown>) =>
+    request(app)
+      .post('/api/v1/profile/api-keys')
+      .set('Authorization', `Bearer ${token}`)
+      .send(body);
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    await createTestUser('user@example.com', 'USER');
+    await createTestUser('admin@example.com', 'ADMIN');
+
+    const userLogin = await request(app).post('/api/v1/auth/login').send({
+      email: 'user@example.com',
+      password: 'password123',
+    });
+    userToken = userLogin.body.accessToken;
+
+    const adminLogin = await request(app).post('/api/v1/auth/login').send({
+      email: 'admin@example.com',
+      password: 'password123',
+    });
+    adminToken = adminLogin.body.accessToken;
+  });
+
+  it('should show the key once and store only its hash', async () => {
+    const res = await createKey(userToken, { name: 'ERP sync' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.key).toMatch(/^ck_[a-f0-9]{64}$/);
+    expect(res.body.apiKey.prefix).toBe(res.body.key.slice(0, 11));
+
+    const stored = await prisma.apiKey.findUniqueOrThrow({ where: { id: res.body.apiKey.id } });
+    expect(stored.keyHash).not.toBe(res.body.key);
+
+    const listRes = await request(app)
+      .get('/api/v1/profile/api-keys')
+      .set('Authorization', `Bearer ${userToken}`);
+    expect(listRes.body.apiKeys).toHaveLength(1);
+    expect(JSON.stringify(listRes.body)).not.toContain(res.body.key);
+  });
+
+  it('should authenticate requests and record when the key was last used', async () => {
+    const { key, apiKey } = (await createKey(userToken, { name: 'ERP sync', scopes: ['account'] }))
+      .body;
+
+    const res = await request(app).get('/api/v1/profile').set('Authorization', `Bearer ${key}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.user.email).toBe('user@example.com');
+    const stored = await prisma.apiKey.findUniqueOrThrow({ where: { id: apiKey.id } });
+    expect(stored.lastUsedAt).not.toBeNull();
+  });
+
+  it('should reject revoked and expired keys', async () => {
+    const revoked = (await createKey(userToken, { name: 'Old script' })).body;
+    const revokeRes = await request(app)
+      .delete(`/api/v1/profile/api-keys/${revoked.apiKey.id}`)
+      .set('Authorization', `Bearer ${userToken}`);
+    expect(revokeRes.status).toBe(200);
+
+    const revokedRes = await request(app)
+      .get('/api/v1/profile')
+      .set('Authorization', `Bearer ${revoked.key}`);
+    expect(revokedRes.status).toBe(401);
+
+    const expiring = (
+      await createKey(userToken, {
+        name: 'Short lived',
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      })
+    ).body;
+    await prisma.apiKey.update({
+      where: { id: expiring.apiKey.id },
+      data: { expiresAt: new Date(Date.now() - 1000) },
+    });
+
+    const expiredRes = await request(app)
+      .get('/api/v1/profile')
+      .set('Authorization', `Bearer ${expiring.key}`);
+    expect(expiredRes.status).toBe(401);
+  });
+
+  it('should only grant scoped permissions the owner holds', async () => {
+    const notHeld = await createKey(userToken, { name: 'Sneaky', scopes: ['coupons:manage'] });
+    expect(notHeld.status).toBe(403);
+
+    const category = await createTestCategory('Electronics');
+    await createTestProduct(category.id, { title: 'Test Product', stock: 10 });
+
+    const unscoped = (await createKey(adminToken, { name: 'Reports' })).body.key;
+    const catalogKey = (await createKey(adminToken, { name: 'Catalog', scopes: ['catalog:write'] }))
+      .body.key;
+    const createCategory = (key: string) =>
+      request(app)
+        .post('/api/v1/categories')
+        .set('Authorization', `Bearer ${key}`)
+        .send({ name: 'Imported' });
+
+    expect((await createCategory(unscoped)).status).toBe(403);
+    expect((await createCategory(catalogKey)).status).toBe(201);
+
+    const couponsRes = await request(app)
+      .get('/api/v1/coupons')
+      .set('Authorization', `Bearer ${catalogKey}`);
+    expect(couponsRes.status).toBe(403);
+
+    // Admin-only routes cannot be reached with a key at all
+    const rolesRes = await request(app)
+      .get('/api/v1/roles')
+      .set('Authorization', `Bearer ${catalogKey}`);
+    expect(rolesRes.status).toBe(403);
+  });
+
+  it('should only let keys with the account scope act as the customer', async () => {
+    const category = await createTestCategory('Electronics');
+    const product = await createTestProduct(category.id, { title: 'Test Product', stock: 10 });
+
+    const unscoped = (await createKey(userToken, { name: 'Nothing' })).body.key;
+    const accountKey = (await createKey(userToken, { name: 'Shop', scopes: ['account'] })).body.key;
+    const catalogKey = (await createKey(adminToken, { name: 'Catalog', scopes: ['catalog:write'] }))
+      .body.key;
+    const placeOrder = (key: string) =>
+      request(app)
+        .post('/api/v1/orders')
+        .set('Authorization', `Bearer ${key}`)
+        .send({ items: [{ productId: product.id, quantity: 1 }] });
+
+    expect((await placeOrder(unscoped)).status).toBe(403);
+    expect((await placeOrder(catalogKey)).status).toBe(403);
+    expect((await placeOrder(accountKey)).status).toBe(201);
+
+    const reviewRes = await request(app)
+      .post(`/api/v1/products/${product.id}/reviews`)
+      .set('Authorization', `Bearer ${catalogKey}`)
+      .send({ rating: 5, comment: 'Great' });
+    expect(reviewRes.status).toBe(403);
+  });
+
+  it('should revoke keys when the password changes or the owner logs out everywhere', async () => {
+    const useKey = (key: string) =>
+      request(app).get('/api/v1/profile').set('Authorization', `Bearer ${key}`);
+
+    const first = (await createKey(userToken, { name: 'First', scopes: ['account'] })).body.key;
+    expect((await useKey(first)).status).toBe(200);
+    await request(app)
+      .patch('/api/v1/profile/password')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({
+        currentPassword: 'password123',
+        newPassword: 'newpassword123',
+        confirmPassword: 'newpassword123',
+      });
+    expect((await useKey(first)).status).toBe(401);
+
+    const login = await request(app)
+      .post('/api/v1/auth/login')
+      .send({ email: 'user@example.com', password: 'newpassword123' });
+    const token = login.body.accessToken;
+    const second = (await createKey(token, { name: 'Second', scopes: ['account'] })).body.key;
+    const logoutRes = await request(app)
+      .post('/api/v1/auth/logout-all')
+      .set('Authorization', `Bearer ${token}`);
+    expect(logoutRes.body.revokedApiKeys).toBe(1);
+    expect((await useKey(second)).status).toBe(401);
+  });
+
+  it('should not let an API key manage credentials', async () => {
+    const { key } = (await createKey(userToken, { name: 'ERP sync', scopes: ['account'] })).body;
+
+    const keyRes = await createKey(key, { name: 'Another' });
+    expect(keyRes.status).toBe(403);
+
+    const passwordRes = await request(app)
+      .patch('/api/v1/profile/password')
+      .set('Authorization', `Bearer ${key}`)
+      .send({
+        currentPassword: 'password123',
+        newPassword: 'newpassword123',
+        confirmPassword: 'newpassword123',
+      });
+    expect(passwordRes.status).toBe(403);
+
+    const emailRes = await request(app)
+      .patch('/api/v1/profile')
+      .set('Authorization', `Bearer ${key}`)
+      .send({ email: 'attacker@example.com' });
+    expect(emailRes.status).toBe(403);
+    const user = await prisma.user.findUnique({ where: { email: 'user@example.com' } });
+    expect(user).not.toBeNull();
+  });
+});
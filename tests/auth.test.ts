@@ -1,6 +1,7 @@
 import request from 'supertest';
 
 import { createApp } from '../src/app';
+import { prisma } from '../src/config/prisma';
 import { createTestUser, cleanupDatabase } from './helpers';
 
 const app = createApp();
@@ -111,6 +112,93 @@ describe('Auth', () => {
 
       expect(res.status).toBe(401);
     });
+
+    it('should rotate refresh tokens and revoke the session on reuse', async () => {
+      await createTestUser('test@example.com');
+      const loginRes = await request(app).post('/api/v1/auth/login').send({
+        email: 'test@example.com',
+        password: 'password123',
+      });
+      const firstToken = loginRes.body.refreshToken;
+
+      const rotated = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: firstToken });
+      expect(rotated.status).toBe(200);
+      expect(rotated.body.refreshToken).not.toBe(firstToken);
+
+      // Replaying the old token looks like theft: the whole session is revoked
+      const reused = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: firstToken });
+      expect(reused.status).toBe(401);
+
+      const afterReuse = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: rotated.body.refreshToken });
+      expect(afterReuse.status).toBe(401);
+    });
+
+    it('should store only a hash of the refresh token', async () => {
+      await createTestUser('test@example.com');
+      const loginRes = await request(app).post('/api/v1/auth/login').send({
+        email: 'test@example.com',
+        password: 'password123',
+      });
+
+      const stored = await prisma.refreshToken.findMany();
+      expect(stored).toHaveLength(1);
+      expect(stored[0].tokenHash).not.toBe(loginRes.body.refreshToken);
+    });
+  });
+
+  describe('POST /api/v1/auth/logout', () => {
+    it('should revoke the session of the refresh token', async () => {
+      await createTestUser('test@example.com');
+      const loginRes = await request(app).post('/api/v1/auth/login').send({
+        email: 'test@example.com',
+        password: 'password123',
+      });
+
+      const res = await request(app)
+        .post('/api/v1/auth/logout')
+        .send({ refreshToken: loginRes.body.refreshToken });
+      expect(res.status).toBe(200);
+
+      const refreshRes = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: loginRes.body.refreshToken });
+      expect(refreshRes.status).toBe(401);
+    });
+
+    it('should reject an unknown refresh token', async () => {
+      const res = await request(app)
+        .post('/api/v1/auth/logout')
+        .send({ refreshToken: 'invalid-token' });
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('POST /api/v1/auth/logout-all', () => {
+    it('should revoke every session of the user', async () => {
+      await createTestUser('test@example.com');
+      const credentials = { email: 'test@example.com', password: 'password123' };
+      const laptop = await request(app).post('/api/v1/auth/login').send(credentials);
+      const phone = await request(app).post('/api/v1/auth/login').send(credentials);
+
+      const res = await request(app)
+        .post('/api/v1/auth/logout-all')
+        .set('Authorization', `Bearer ${laptop.body.accessToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.revoked).toBe(2);
+
+      const refreshRes = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: phone.body.refreshToken });
+      expect(refreshRes.status).toBe(401);
+    });
   });
 
   describe('GET /api/v1/auth/me', () => {
@@ -1,6 +1,7 @@
 import request from 'supertest';
 
 import { createApp } from '../src/app';
+import { prisma } from '../src/config/prisma';
 import { createTestUser, createTestCategory, createTestProduct, cleanupDatabase } from './helpers';
 
 const app = createApp();
@@ -116,6 +117,78 @@ describe('Cart', () => {
       expect(res.body.item.quantity).toBe(5); // 2 + 3
     });
 
+    it('should keep a single line when the same product is added concurrently', async () => {
+      const add = () =>
+        request(app)
+          .post('/api/v1/cart')
+          .set('Authorization', `Bearer ${userToken}`)
+          .send({ productId, quantity: 1 });
+
+      await prisma.cart.create({ data: { user: { connect: { email: 'user@example.com' } } } });
+
+      const results = await Promise.all([add(), add(), add()]);
+
+      for (const res of results) expect([200, 201, 409]).toContain(res.status);
+      const items = await prisma.cartItem.findMany({ where: { productId } });
+      expect(items).toHaveLength(1);
+    });
+
+    it('should add product variant to cart using variant price', async () => {
+      const variant = await prisma.productVariant.create({
+        data: { productId, name: 'Size: Large', priceCents: 1500, stock: 3 },
+      });
+
+      const res = await request(app)
+        .post('/api/v1/cart')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ productId, variantId: variant.id, quantity: 2 });
+
+      expect(res.status).toBe(201);
+      expect(res.body.item.variantId).toBe(variant.id);
+      expect(res.body.item.variant).toHaveProperty('name', 'Size: Large');
+
+      // Same product without variant is a separate line
+      await request(app)
+        .post('/api/v1/cart')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ productId, quantity: 1 });
+
+      const cartRes = await request(app)
+        .get('/api/v1/cart')
+        .set('Authorization', `Bearer ${userToken}`);
+
+      expect(cartRes.body.cart.items).toHaveLength(2);
+      expect(cartRes.body.cart.totalCents).toBe(4000); // (2 * 1500) + (1 * 1000)
+    });
+
+    it('should reject variant quantity exceeding variant stock', async () => {
+      const variant = await prisma.productVariant.create({
+        data: { productId, name: 'Size: Small', stock: 1 },
+      });
+
+      const res = await request(app)
+        .post('/api/v1/cart')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ productId, variantId: variant.id, quantity: 2 });
+
+      expect(res.status).toBe(400);
+      expect(res.body.message).toContain('Insufficient stock');
+    });
+
+    it('should reject variant of another product', async () => {
+      const variant = await prisma.productVariant.create({
+        data: { productId: product2Id, name: 'Color: Red', stock: 5 },
+      });
+
+      const res = await request(app)
+        .post('/api/v1/cart')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ productId, variantId: variant.id, quantity: 1 });
+
+      expect(res.status).toBe(404);
+      expect(res.body.message).toBe('Variant not found');
+    });
+
     it('should reject adding non-existent product', async () => {
       const res = await request(app)
         .post('/api/v1/cart')
@@ -337,6 +410,104 @@ describe('Cart', () => {
     });
   });
 
+  describe('POST /api/v1/cart/checkout', () => {
+    it('should create order from cart and empty the cart', async () => {
+      await request(app)
+        .post('/api/v1/cart')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ productId, quantity: 2 });
+
+      await request(app)
+        .post('/api/v1/cart')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ productId: product2Id, quantity: 1 });
+
+      const res = await request(app)
+        .post('/api/v1/cart/checkout')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({});
+
+      expect(res.status).toBe(201);
+      expect(res.body.order.status).toBe('PENDING');
+      expect(res.body.order.totalCents).toBe(4000);
+      expect(res.body.order.itemsCount).toBe(3);
+      expect(res.body.order.items).toHaveLength(2);
+
+      const cartRes = await request(app)
+        .get('/api/v1/cart')
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(cartRes.body.cart.items).toHaveLength(0);
+
+      const product = await prisma.product.findUnique({ where: { id: productId } });
+      expect(product?.stock).toBe(8);
+    });
+
+    it('should apply coupon code', async () => {
+      await prisma.coupon.create({
+        data: {
+          code: 'SAVE10',
+          discountType: 'PERCENTAGE',
+          discountValue: 10,
+          validFrom: new Date(Date.now() - 86400000),
+          validUntil: new Date(Date.now() + 86400000),
+        },
+      });
+
+      await request(app)
+        .post('/api/v1/cart')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ productId, quantity: 2 });
+
+      const res = await request(app)
+        .post('/api/v1/cart/checkout')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ couponCode: 'SAVE10' });
+
+      expect(res.status).toBe(201);
+      expect(res.body.order.couponCode).toBe('SAVE10');
+      expect(res.body.order.discountCents).toBe(200);
+      expect(res.body.order.totalCents).toBe(1800);
+    });
+
+    it('should keep cart when stock is insufficient', async () => {
+      await request(app)
+        .post('/api/v1/cart')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ productId, quantity: 5 });
+
+      await prisma.product.update({ where: { id: productId }, data: { stock: 1 } });
+
+      const res = await request(app)
+        .post('/api/v1/cart/checkout')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({});
+
+      expect(res.status).toBe(400);
+      expect(res.body.message).toContain('Insufficient stock');
+
+      const cartRes = await request(app)
+        .get('/api/v1/cart')
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(cartRes.body.cart.items).toHaveLength(1);
+    });
+
+    it('should reject checkout of empty cart', async () => {
+      const res = await request(app)
+        .post('/api/v1/cart/checkout')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({});
+
+      expect(res.status).toBe(400);
+      expect(res.body.message).toBe('Cart is empty');
+    });
+
+    it('should reject unauthenticated request', async () => {
+      const res = await request(app).post('/api/v1/cart/checkout').send({});
+
+      expect(res.status).toBe(401);
+    });
+  });
+
   describe('Cart persistence', () => {
     it('should persist cart across requests', async () => {
       // Add item to cart
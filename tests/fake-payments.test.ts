@@ -0,0 +1,260 @@
+import request from 'supertest';
+import { vi } from 'vitest';
+
+import { createApp } from '../src/app';
+import { env } from '../src/config/env';
+import { prisma } from '../src/config/prisma';
+import { expirePendingOrders } from '../src/modules/orders/reservation-sweeper';
+import { fakePaymentProvider, getPaymentProvider } from '../src/modules/payments/payment-providers';
+import { createTestUser, createTestCategory, createTestProduct, cleanupDatabase } from './helpers';
+
+vi.mock('../src/config/env', async () => {
+  const actual = (await vi.importActual('../src/config/env')) as { env: Record<string, unknown> };
+  return {
+    ...actual,
+    env: {
+      ...actual.env,
+      PAYMENT_PROVIDER: 'FAKE',
+      FAKE_PAYMENT_WEBHOOK_SECRET: 'fake_webhook_secret_test',
+    },
+  };
+});
+
+const app = createApp();
+
+describe('Fake payment provider', () => {
+  let userToken: string;
+  let adminToken: string;
+  let productId: string;
+  let orderId: string;
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    await createTestUser('user@example.com', 'USER');
+    await createTestUser('admin@example.com', 'ADMIN');
+
+    const userLogin = await request(app).post('/api/v1/auth/login').send({
+      email: 'user@example.com',
+      password: 'password123',
+    });
+    userToken = userLogin.body.accessToken;
+
+    const adminLogin = await request(app).post('/api/v1/auth/login').send({
+      email: 'admin@example.com',
+      password: 'password123',
+    });
+    adminToken = adminLogin.body.accessToken;
+
+    const category = await createTestCategory('Electronics');
+    const product = await createTestProduct(category.id, {
+      title: 'Test Product',
+      priceCents: 1000,
+      stock: 10,
+    });
+    productId = product.id;
+
+    const orderRes = await request(app)
+      .post('/api/v1/orders')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ items: [{ productId, quantity: 2 }] });
+    expect(orderRes.status).toBe(201);
+    orderId = orderRes.body.order.id;
+  });
+
+  const startCheckout = async () => {
+    const res = await request(app)
+      .post('/api/v1/payments/checkout')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ orderId });
+    expect(res.status).toBe(200);
+    return res.body.sessionId as string;
+  };
+
+  it('should create orders with the configured provider', async () => {
+    const order = await prisma.order.findUnique({ where: { id: orderId } });
+    expect(order?.paymentProvider).toBe('FAKE');
+  });
+
+  it('should run the full pay-and-fulfil flow offline', async () => {
+    const checkout = await request(app)
+      .post('/api/v1/payments/checkout')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ orderId });
+
+    expect(checkout.status).toBe(200);
+    expect(checkout.body.provider).toBe('FAKE');
+    expect(checkout.body.url).toContain(`/payments/fake/sessions/${checkout.body.sessionId}`);
+
+    const paid = await request(app)
+      .post(`/api/v1/payments/fake/sessions/${checkout.body.sessionId}/complete`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({});
+
+    expect(paid.status).toBe(200);
+    expect(paid.body.order.status).toBe('PAID');
+
+    const shipped = await request(app)
+      .patch(`/api/v1/orders/${orderId}/status`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: 'SHIPPED', carrier: 'DHL', trackingNumber: 'TRACK123' });
+    expect(shipped.status).toBe(200);
+
+    const delivered = await request(app)
+      .post(`/api/v1/orders/${orderId}/deliver`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({});
+    expect(delivered.status).toBe(200);
+    expect(delivered.body.order.status).toBe('DELIVERED');
+
+    const tracking = await request(app)
+      .get(`/api/v1/orders/${orderId}/tracking`)
+      .set('Authorization', `Bearer ${userToken}`);
+    expect(tracking.body.order.timeline.map((e: { status: string }) => e.status)).toEqual([
+      'PENDING',
+      'PAID',
+      'SHIPPED',
+      'DELIVERED',
+    ]);
+  });
+
+  it('should cancel the order and release stock when the payment fails', async () => {
+    const sessionId = await startCheckout();
+
+    const res = await request(app)
+      .post(`/api/v1/payments/fake/sessions/${sessionId}/complete`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ outcome: 'failed' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.order.status).toBe('CANCELLED');
+    const product = await prisma.product.findUnique({ where: { id: productId } });
+    expect(product?.stock).toBe(10);
+  });
+
+  it('should not let other users complete the payment', async () => {
+    const sessionId = await startCheckout();
+    await createTestUser('other@example.com', 'USER');
+    const otherLogin = await request(app).post('/api/v1/auth/login').send({
+      email: 'other@example.com',
+      password: 'password123',
+    });
+
+    const res = await request(app)
+      .post(`/api/v1/payments/fake/sessions/${sessionId}/complete`)
+      .set('Authorization', `Bearer ${otherLogin.body.accessToken}`)
+      .send({});
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should refund through the fake provider', async () => {
+    const sessionId = await startCheckout();
+    await request(app)
+      .post(`/api/v1/payments/fake/sessions/${sessionId}/complete`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({});
+
+    const res = await request(app)
+      .post(`/api/v1/orders/${orderId}/refund`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({});
+
+    expect(res.status).toBe(201);
+    expect(res.body.refund.providerRefundId).toMatch(/^fake_re_/);
+    expect(res.body.order.status).toBe('REFUNDED');
+
+    const payment = await fakePaymentProvider.retrievePayment(`fake_pi_${orderId}`);
+    expect(payment).toMatchObject({ orderId, amountCents: 2000, status: 'succeeded' });
+  });
+
+  it('should expire the session and refund a payment that lands after cancellation', async () => {
+    const expireSession = vi.spyOn(fakePaymentProvider, 'expireSession');
+    const sessionId = await startCheckout();
+    await expirePendingOrders({ clock: () => new Date(Date.now() + 31 * 60 * 1000) });
+    expect(expireSession).toHaveBeenCalledWith(sessionId);
+
+    const res = await request(app)
+      .post(`/api/v1/payments/fake/sessions/${sessionId}/complete`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({});
+
+    expect(res.status).toBe(200);
+    expect(res.body.order).toMatchObject({ status: 'CANCELLED', refundedCents: 2000 });
+    const refunds = await prisma.refund.findMany({ where: { orderId } });
+    expect(refunds).toHaveLength(1);
+    expect(refunds[0].providerRefundId).toMatch(/^fake_re_/);
+  });
+
+  describe('POST /api/v1/payments/fake/webhook', () => {
+    const sendFakeWebhook = (payload: string, signature: string) =>
+      request(app)
+        .post('/api/v1/payments/fake/webhook')
+        .set('x-fake-signature', signature)
+        .set('Content-Type', 'application/json')
+        .send(payload);
+
+    it('should accept signed fake events', async () => {
+      const payload = JSON.stringify(
+        fakePaymentProvider.completeSession(`fake_cs_${orderId}`, 'succeeded'),
+      );
+
+      const res = await sendFakeWebhook(payload, fakePaymentProvider.sign(payload));
+
+      expect(res.status).toBe(200);
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      expect(order?.status).toBe('PAID');
+    });
+
+    it('should ignore fake events for orders paid with another provider', async () => {
+      await prisma.order.update({ where: { id: orderId }, data: { paymentProvider: 'STRIPE' } });
+      const payload = JSON.stringify(
+        fakePaymentProvider.completeSession(`fake_cs_${orderId}`, 'succeeded'),
+      );
+
+      const res = await sendFakeWebhook(payload, fakePaymentProvider.sign(payload));
+
+      expect(res.status).toBe(200);
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      expect(order?.status).toBe('PENDING');
+    });
+
+    it('should reject events with an invalid signature', async () => {
+      const payload = JSON.stringify(
+        fakePaymentProvider.completeSession(`fake_cs_${orderId}`, 'succeeded'),
+      );
+
+      const res = await sendFakeWebhook(payload, 'not-a-valid-signature');
+
+      expect(res.status).toBe(400);
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      expect(order?.status).toBe('PENDING');
+    });
+  });
+
+  describe('when not selected', () => {
+    const original = { PAYMENT_PROVIDER: env.PAYMENT_PROVIDER, NODE_ENV: env.NODE_ENV };
+
+    beforeEach(() => {
+      env.PAYMENT_PROVIDER = undefined;
+      env.NODE_ENV = 'development';
+    });
+
+    afterEach(() => {
+      Object.assign(env, original);
+    });
+
+    it('should be disabled', async () => {
+      const sessionId = `fake_cs_${orderId}`;
+
+      const res = await request(app)
+        .post(`/api/v1/payments/fake/sessions/${sessionId}/complete`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({});
+
+      expect(res.status).toBe(404);
+      expect(getPaymentProvider('FAKE')).toBeNull();
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      expect(order?.status).toBe('PENDING');
+    });
+  });
+});
@@ -2,7 +2,12 @@ import bcrypt from 'bcryptjs';
 
 import { prisma } from '../src/config/prisma';
 
-export async function createTestUser(email: string, role: 'USER' | 'ADMIN' = 'USER') {
+// Test users are verified by default so they pass the verified-email policy
+export async function createTestUser(
+  email: string,
+  role: 'USER' | 'ADMIN' = 'USER',
+  options: { emailVerified?: boolean } = {},
+) {
   const passwordHash = await bcrypt.hash('password123', 10);
   return prisma.user.create({
     data: {
@@ -10,6 +15,7 @@ export async function createTestUser(email: string, role: 'USER' | 'ADMIN' = 'US
       name: 'Test User',
       passwordHash,
       role,
+      emailVerified: options.emailVerified ?? true,
     },
   });
 }
@@ -52,16 +58,26 @@ export async function cleanupDatabase() {
   await prisma.review.deleteMany();
   await prisma.wishlist.deleteMany();
   await prisma.address.deleteMany();
-  await prisma.productVariant.deleteMany();
   await prisma.cartItem.deleteMany();
   await prisma.cart.deleteMany();
   await prisma.orderStatusHistory.deleteMany();
+  await prisma.refund.deleteMany();
   await prisma.orderItem.deleteMany();
+  await prisma.productVariant.deleteMany();
   await prisma.order.deleteMany();
   await prisma.coupon.deleteMany();
+  await prisma.webhookEvent.deleteMany();
+  await prisma.searchQuery.deleteMany();
   await prisma.product.deleteMany();
+  await prisma.searchSynonym.deleteMany();
   await prisma.category.deleteMany();
+  await prisma.recoveryCode.deleteMany();
+  await prisma.apiKey.deleteMany();
+  await prisma.userIdentity.deleteMany();
+  await prisma.oidcAuthRequest.deleteMany();
+  await prisma.authSession.deleteMany();
   await prisma.user.deleteMany();
+  await prisma.staffRole.deleteMany();
 }
 
 export async function setupTestDatabase() {
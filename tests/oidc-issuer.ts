@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { URL } from 'url';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+
+export interface IssuerUser {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+interface PendingCode {
+  user: IssuerUser;
+  clientId: string;
+  redirectUri: string;
+  nonce: string;
+  codeChallenge: string;
+}
+
+/**
+ * Minimal OpenID Connect provider for tests: discovery, an authorize endpoint that signs in
+ * `nextUser` straight away, a PKCE-checking token endpoint and a JWKS endpoint.
+ */
+export class TestOidcIssuer {
+  clientId = 'test-client';
+  clientSecret = 'test-client-secret';
+  nextUser: IssuerUser = { sub: 'subject-1', email: 'social@example.com', email_verified: true };
+  // Sign ID tokens with a key that is not published, to simulate a forged token
+  signWithUnknownKey = false;
+
+  private server?: Server;
+  private codes = new Map<string, PendingCode>();
+  private signingKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  private rogueKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  private kid = 'test-key';
+  issuer = '';
+
+  async start() {
+    const app = express();
+    app.use(express.urlencoded({ extended: false }));
+
+    app.get('/.well-known/openid-configuration', (_req, res) => {
+      res.json({
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+        token_endpoint_auth_methods_supported: ['client_secret_basic'],
+      });
+    });
+
+    app.get('/jwks', (_req, res) => {
+      const jwk = this.signingKey.publicKey.export({ format: 'jwk' });
+      res.json({ keys: [{ ...jwk, kid: this.kid, use: 'sig', alg: 'RS256' }] });
+    });
+
+    app.get('/authorize', (req, res) => {
+      const query = req.query as Record<string, string>;
+      if (query.client_id !== this.clientId || query.code_challenge_method !== 'S256') {
+        return res.status(400).send('invalid_request');
+      }
+      const code = crypto.randomBytes(16).toString('hex');
+      this.codes.set(code, {
+        user: this.nextUser,
+        clientId: query.client_id,
+        redirectUri: query.redirect_uri,
+        nonce: query.nonce,
+        codeChallenge: query.code_challenge,
+      });
+      const redirect = new URL(query.redirect_uri);
+      redirect.searchParams.set('code', code);
+      redirect.searchParams.set('state', query.state);
+      res.redirect(302, redirect.toString());
+    });
+
+    app.post('/token', (req, res) => {
+      const expectedAuth = `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64')}`;
+      if (req.headers.authorization !== expectedAuth) {
+        return res.status(401).json({ error: 'invalid_client' });
+      }
+      const pending = this.codes.get(req.body.code);
+      this.codes.delete(req.body.code);
+      const challenge = crypto
+        .createHash('sha256')
+        .update(req.body.code_verifier ?? '')
+        .digest('base64url');
+      if (
+        !pending ||
+        pending.redirectUri !== req.body.redirect_uri ||
+        pending.codeChallenge !== challenge
+      ) {
+        return res.status(400).json({ error: 'invalid_grant' });
+      }
+
+      const key = this.signWithUnknownKey ? this.rogueKey.privateKey : this.signingKey.privateKey;
+      const idToken = jwt.sign({ ...pending.user, nonce: pending.nonce }, key, {
+        algorithm: 'RS256',
+        keyid: this.kid,
+        issuer: this.issuer,
+        audience: pending.clientId,
+        expiresIn: '5m',
+      });
+      res.json({ access_token: 'unused', token_type: 'Bearer', id_token: idToken });
+    });
+
+    await new Promise<void>((resolve) => {
+      this.server = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    const { port } = this.server!.address() as AddressInfo;
+    this.issuer = `http://127.0.0.1:${port}`;
+  }
+
+  async stop() {
+    await new Promise<void>((resolve) => this.server?.close(() => resolve()));
+  }
+
+  providerConfig(name = 'test') {
+    return {
+      name,
+      issuer: this.issuer,
+      clientId: this.clientId,
+      clientSecret: this.clientSecret,
+      scopes: ['openid', 'email', 'profile'],
+    };
+  }
+}
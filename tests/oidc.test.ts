@@ -0,0 +1,176 @@
+import request from 'supertest';
+import { URL } from 'url';
+
+import { createApp } from '../src/app';
+import { env } from '../src/config/env';
+import { prisma } from '../src/config/prisma';
+import { createTestUser, cleanupDatabase } from './helpers';
+import { TestOidcIssuer } from './oidc-issuer';
+
+const app = createApp();
+const issuer = new TestOidcIssuer();
+
+describe('OpenID Connect Login', () => {
+  const originalProviders = env.OIDC_PROVIDERS;
+
+  const stateCookie = (res: request.Response) =>
+    (res.headers['set-cookie'] as unknown as string[]).map((cookie) => cookie.split(';')[0]);
+
+  const callbackPath = async (authorizationUrl: string) => {
+    const authorize = await fetch(authorizationUrl, { redirect: 'manual' });
+    const callback = new URL(authorize.headers.get('location')!);
+    return `${callback.pathname}${callback.search}`;
+  };
+
+  // Follow the provider redirect and hand its callback URL back to the API, as the browser would
+  const completeAuthorization = async (authorizationUrl: string, cookies: string[]) =>
+    request(app)
+      .get(await callbackPath(authorizationUrl))
+      .set('Cookie', cookies);
+
+  const signIn = async () => {
+    const start = await request(app).get('/api/v1/auth/oidc/test');
+    expect(start.status).toBe(302);
+    return completeAuthorization(start.headers.location, stateCookie(start));
+  };
+
+  beforeAll(async () => {
+    await issuer.start();
+  });
+
+  afterAll(async () => {
+    await issuer.stop();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    env.OIDC_PROVIDERS = [issuer.providerConfig()];
+    issuer.signWithUnknownKey = false;
+    issuer.nextUser = { sub: 'subject-1', email: 'social@example.com', email_verified: true };
+  });
+
+  afterEach(() => {
+    env.OIDC_PROVIDERS = originalProviders;
+  });
+
+  it('should redirect to the provider with state, nonce and a PKCE challenge', async () => {
+    const res = await request(app).get('/api/v1/auth/oidc/test');
+
+    expect(res.status).toBe(302);
+    const location = new URL(res.headers.location);
+    expect(location.origin).toBe(issuer.issuer);
+    expect(location.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(location.searchParams.get('code_challenge')).toBeTruthy();
+    expect(location.searchParams.get('state')).toBeTruthy();
+    expect(location.searchParams.get('nonce')).toBeTruthy();
+    const cookie = (res.headers['set-cookie'] as unknown as string[])[0];
+    expect(cookie).toContain(`oidc_state=${location.searchParams.get('state')}`);
+    expect(cookie).toContain('HttpOnly');
+    expect(cookie).toContain('SameSite=Lax');
+  });
+
+  it('should not complete a sign-in started in another browser', async () => {
+    const attackerStart = await request(app).get('/api/v1/auth/oidc/test');
+    const path = await callbackPath(attackerStart.headers.location);
+
+    const withoutCookie = await request(app).get(path);
+    expect(withoutCookie.status).toBe(400);
+
+    const victimStart = await request(app).get('/api/v1/auth/oidc/test');
+    const withOtherCookie = await request(app).get(path).set('Cookie', stateCookie(victimStart));
+    expect(withOtherCookie.status).toBe(400);
+    expect(await prisma.user.count()).toBe(0);
+  });
+
+  it('should reject unknown providers', async () => {
+    const res = await request(app).get('/api/v1/auth/oidc/unknown');
+    expect(res.status).toBe(404);
+  });
+
+  it('should create an account on first sign-in and reuse it afterwards', async () => {
+    const first = await signIn();
+
+    expect(first.status).toBe(201);
+    expect(first.body.user.email).toBe('social@example.com');
+    expect(first.body).toHaveProperty('accessToken');
+    const user = await prisma.user.findUniqueOrThrow({ where: { email: 'social@example.com' } });
+    expect(user.emailVerified).toBe(true);
+
+    const second = await signIn();
+    expect(second.status).toBe(200);
+    expect(second.body.user.id).toBe(user.id);
+  });
+
+  it('should link an existing account when the provider verified the email', async () => {
+    const existing = await createTestUser('social@example.com', 'USER');
+
+    const res = await signIn();
+
+    expect(res.status).toBe(200);
+    expect(res.body.user.id).toBe(existing.id);
+    const identity = await prisma.userIdentity.findFirst({ where: { userId: existing.id } });
+    expect(identity?.subject).toBe('subject-1');
+  });
+
+  it('should not link an existing account when the email is unverified', async () => {
+    await createTestUser('social@example.com', 'USER');
+    issuer.nextUser = { ...issuer.nextUser, email_verified: false };
+
+    const res = await signIn();
+
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('ACCOUNT_EXISTS');
+    expect(await prisma.userIdentity.count()).toBe(0);
+  });
+
+  it('should reject ID tokens not signed by the provider', async () => {
+    issuer.signWithUnknownKey = true;
+
+    const res = await signIn();
+
+    expect(res.status).toBe(401);
+    expect(await prisma.user.count()).toBe(0);
+  });
+
+  it('should not accept the same state twice', async () => {
+    const start = await request(app).get('/api/v1/auth/oidc/test');
+    const path = await callbackPath(start.headers.location);
+
+    const first = await request(app).get(path).set('Cookie', stateCookie(start));
+    expect(first.status).toBe(201);
+
+    const replay = await request(app).get(path).set('Cookie', stateCookie(start));
+    expect(replay.status).toBe(400);
+  });
+
+  it('should link a provider from the profile regardless of email', async () => {
+    await createTestUser('user@example.com', 'USER');
+    const login = await request(app)
+      .post('/api/v1/auth/login')
+      .send({ email: 'user@example.com', password: 'password123' });
+    const token = login.body.accessToken;
+    issuer.nextUser = { sub: 'subject-2', email: 'other@example.com', email_verified: false };
+
+    const linkRes = await request(app)
+      .post('/api/v1/profile/identities/test')
+      .set('Authorization', `Bearer ${token}`);
+    expect(linkRes.status).toBe(200);
+
+    const callbackRes = await completeAuthorization(
+      linkRes.body.authorizationUrl,
+      stateCookie(linkRes),
+    );
+    expect(callbackRes.status).toBe(200);
+    expect(callbackRes.body.identity.provider).toBe('test');
+
+    const listRes = await request(app)
+      .get('/api/v1/profile/identities')
+      .set('Authorization', `Bearer ${token}`);
+    expect(listRes.body.identities).toHaveLength(1);
+
+    // The linked login now signs in to the password account
+    const signInRes = await signIn();
+    expect(signInRes.status).toBe(200);
+    expect(signInRes.body.user.email).toBe('user@example.com');
+  });
+});
@@ -0,0 +1,97 @@
+import request from 'supertest';
+
+import { createApp } from '../src/app';
+import { prisma } from '../src/config/prisma';
+import { expirePendingOrders } from '../src/modules/orders/reservation-sweeper';
+import { createTestUser, createTestCategory, createTestProduct, cleanupDatabase } from './helpers';
+
+const app = createApp();
+
+const minutesFromNow = (minutes: number) => () => new Date(Date.now() + minutes * 60 * 1000);
+
+describe('Order Reservation Expiry', () => {
+  let userToken: string;
+  let productId: string;
+  let orderId: string;
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    await createTestUser('user@example.com', 'USER');
+
+    const userLogin = await request(app).post('/api/v1/auth/login').send({
+      email: 'user@example.com',
+      password: 'password123',
+    });
+    userToken = userLogin.body.accessToken;
+
+    const category = await createTestCategory('Electronics');
+    const product = await createTestProduct(category.id, { title: 'Test Product', stock: 10 });
+    productId = product.id;
+
+    const orderRes = await request(app)
+      .post('/api/v1/orders')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({
+        items: [{ productId, quantity: 3 }],
+      });
+
+    expect(orderRes.status).toBe(201);
+    expect(orderRes.body.order.reservationExpiresAt).toBeDefined();
+    orderId = orderRes.body.order.id;
+  });
+
+  it('should keep orders whose reservation has not expired', async () => {
+    const expired = await expirePendingOrders({ clock: minutesFromNow(5), ttlMinutes: 30 });
+
+    expect(expired).toHaveLength(0);
+    const order = await prisma.order.findUnique({ where: { id: orderId } });
+    expect(order?.status).toBe('PENDING');
+  });
+
+  it('should cancel expired orders, restore stock and record history', async () => {
+    const expired = await expirePendingOrders({ clock: minutesFromNow(31), ttlMinutes: 30 });
+
+    expect(expired).toEqual([orderId]);
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: { statusHistory: { orderBy: { createdAt: 'desc' } } },
+    });
+    expect(order?.status).toBe('CANCELLED');
+    expect(order?.statusHistory[0].status).toBe('CANCELLED');
+    expect(order?.statusHistory[0].note).toContain('expired');
+
+    const product = await prisma.product.findUnique({ where: { id: productId } });
+    expect(product?.stock).toBe(10);
+  });
+
+  it('should not touch paid orders', async () => {
+    await prisma.order.update({ where: { id: orderId }, data: { status: 'PAID' } });
+
+    const expired = await expirePendingOrders({ clock: minutesFromNow(60), ttlMinutes: 30 });
+
+    expect(expired).toHaveLength(0);
+    const product = await prisma.product.findUnique({ where: { id: productId } });
+    expect(product?.stock).toBe(7);
+  });
+
+  it('should fall back to createdAt for orders without a reservation expiry', async () => {
+    await prisma.order.update({ where: { id: orderId }, data: { reservationExpiresAt: null } });
+
+    expect(await expirePendingOrders({ clock: minutesFromNow(10), ttlMinutes: 15 })).toHaveLength(
+      0,
+    );
+    expect(await expirePendingOrders({ clock: minutesFromNow(16), ttlMinutes: 15 })).toEqual([
+      orderId,
+    ]);
+  });
+
+  it('should only expire an order once', async () => {
+    await expirePendingOrders({ clock: minutesFromNow(31), ttlMinutes: 30 });
+    const second = await expirePendingOrders({ clock: minutesFromNow(31), ttlMinutes: 30 });
+
+    expect(second).toHaveLength(0);
+    const product = await prisma.product.findUnique({ where: { id: productId } });
+    expect(product?.stock).toBe(10);
+  });
+});
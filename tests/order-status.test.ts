@@ -1,9 +1,21 @@
 import request from 'supertest';
+import { vi } from 'vitest';
 
 import { createApp } from '../src/app';
 import { prisma } from '../src/config/prisma';
 import { createTestUser, createTestCategory, createTestProduct, cleanupDatabase } from './helpers';
 
+vi.mock('../src/config/env', async () => {
+  const actual = (await vi.importActual('../src/config/env')) as { env: Record<string, unknown> };
+  return {
+    ...actual,
+    env: {
+      ...actual.env,
+      CARRIER_API_KEY: 'carrier_test_key_123',
+    },
+  };
+});
+
 const app = createApp();
 
 describe('Order Status Tracking', () => {
@@ -71,19 +83,77 @@ describe('Order Status Tracking', () => {
       expect(history[0].note).toBe('Payment received');
     });
 
-    it('should set shippedAt when status changes to FULFILLED', async () => {
+    it('should set shippedAt and carrier details when status changes to SHIPPED', async () => {
+      await prisma.order.update({ where: { id: orderId }, data: { status: 'PAID' } });
+
       const res = await request(app)
         .patch(`/api/v1/orders/${orderId}/status`)
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
-          status: 'FULFILLED',
+          status: 'SHIPPED',
           trackingNumber: 'TRACK123',
+          carrier: 'DHL',
+          trackingUrl: 'https://carrier.example.com/track/TRACK123',
         });
 
       expect(res.status).toBe(200);
-      expect(res.body.order).toHaveProperty('status', 'FULFILLED');
+      expect(res.body.order).toHaveProperty('status', 'SHIPPED');
       expect(res.body.order).toHaveProperty('trackingNumber', 'TRACK123');
-      expect(res.body.order.shippedAt).toBeDefined();
+      expect(res.body.order).toHaveProperty('carrier', 'DHL');
+      expect(res.body.order).toHaveProperty(
+        'trackingUrl',
+        'https://carrier.example.com/track/TRACK123',
+      );
+      expect(res.body.order.shippedAt).not.toBeNull();
+    });
+
+    it('should not set shippedAt when an order is only packed', async () => {
+      await prisma.order.update({ where: { id: orderId }, data: { status: 'PAID' } });
+
+      const res = await request(app)
+        .patch(`/api/v1/orders/${orderId}/status`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          status: 'FULFILLED',
+        });
+
+      expect(res.status).toBe(200);
+      expect(res.body.order.shippedAt).toBeNull();
+    });
+
+    it('should reject illegal transitions with the allowed next states', async () => {
+      const res = await request(app)
+        .patch(`/api/v1/orders/${orderId}/status`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          status: 'FULFILLED',
+        });
+
+      expect(res.status).toBe(409);
+      expect(res.body.allowedStatuses).toEqual(['PAID', 'CANCELLED']);
+
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      expect(order?.status).toBe('PENDING');
+    });
+
+    it('should not reopen a cancelled order', async () => {
+      await request(app)
+        .post(`/api/v1/orders/${orderId}/cancel`)
+        .set('Authorization', `Bearer ${userToken}`);
+
+      const res = await request(app)
+        .patch(`/api/v1/orders/${orderId}/status`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          status: 'PAID',
+        });
+
+      expect(res.status).toBe(409);
+      expect(res.body.allowedStatuses).toEqual([]);
+
+      // Stock must not be released twice
+      const product = await prisma.product.findUnique({ where: { id: productId } });
+      expect(product?.stock).toBe(10);
     });
 
     it('should return 403 for non-admin users', async () => {
@@ -112,12 +182,14 @@ describe('Order Status Tracking', () => {
   describe('GET /api/v1/orders/:id/tracking', () => {
     it('should get order tracking information', async () => {
       // Update order status first
+      await prisma.order.update({ where: { id: orderId }, data: { status: 'PAID' } });
       await request(app)
         .patch(`/api/v1/orders/${orderId}/status`)
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
-          status: 'FULFILLED',
+          status: 'SHIPPED',
           trackingNumber: 'TRACK123',
+          carrier: 'DHL',
         });
 
       const res = await request(app)
@@ -127,11 +199,35 @@ describe('Order Status Tracking', () => {
       expect(res.status).toBe(200);
       expect(res.body.order).toHaveProperty('status');
       expect(res.body.order).toHaveProperty('trackingNumber', 'TRACK123');
+      expect(res.body.order).toHaveProperty('carrier', 'DHL');
       expect(res.body.order).toHaveProperty('statusHistory');
       expect(res.body.order.statusHistory).toBeInstanceOf(Array);
       expect(res.body.order.statusHistory.length).toBeGreaterThan(0);
     });
 
+    it('should expose a chronological timeline', async () => {
+      await request(app)
+        .patch(`/api/v1/orders/${orderId}/status`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ status: 'PAID' });
+      await request(app)
+        .patch(`/api/v1/orders/${orderId}/status`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ status: 'SHIPPED', carrier: 'DHL' });
+
+      const res = await request(app)
+        .get(`/api/v1/orders/${orderId}/tracking`)
+        .set('Authorization', `Bearer ${userToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.order.timeline.map((entry: { status: string }) => entry.status)).toEqual([
+        'PENDING',
+        'PAID',
+        'SHIPPED',
+      ]);
+      expect(res.body.order.timeline[0]).toHaveProperty('occurredAt');
+    });
+
     it('should return 403 for other user orders', async () => {
       await createTestUser('other@example.com', 'USER');
       const otherLogin = await request(app).post('/api/v1/auth/login').send({
@@ -156,6 +252,69 @@ describe('Order Status Tracking', () => {
     });
   });
 
+  describe('POST /api/v1/orders/:id/deliver', () => {
+    beforeEach(async () => {
+      await prisma.order.update({
+        where: { id: orderId },
+        data: { status: 'SHIPPED', shippedAt: new Date() },
+      });
+    });
+
+    it('should let an admin mark an order delivered', async () => {
+      const res = await request(app)
+        .post(`/api/v1/orders/${orderId}/deliver`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({});
+
+      expect(res.status).toBe(200);
+      expect(res.body.order).toHaveProperty('status', 'DELIVERED');
+      expect(res.body.order.deliveredAt).not.toBeNull();
+      expect(res.body.order.statusHistory[0].status).toBe('DELIVERED');
+    });
+
+    it('should let a carrier mark an order delivered with its key', async () => {
+      const deliveredAt = '2025-11-13T10:00:00.000Z';
+      const res = await request(app)
+        .post(`/api/v1/orders/${orderId}/deliver`)
+        .set('X-Carrier-Key', 'carrier_test_key_123')
+        .send({ deliveredAt, note: 'Left with neighbour' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.order.deliveredAt).toBe(deliveredAt);
+      expect(res.body.order.statusHistory[0].note).toBe('Left with neighbour');
+    });
+
+    it('should reject an invalid carrier key', async () => {
+      const res = await request(app)
+        .post(`/api/v1/orders/${orderId}/deliver`)
+        .set('X-Carrier-Key', 'wrong_key_wrong_key_')
+        .send({});
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should return 403 for non-admin users', async () => {
+      const res = await request(app)
+        .post(`/api/v1/orders/${orderId}/deliver`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({});
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should return 409 if the order has not shipped', async () => {
+      await prisma.order.update({ where: { id: orderId }, data: { status: 'PAID' } });
+
+      const res = await request(app)
+        .post(`/api/v1/orders/${orderId}/deliver`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({});
+
+      expect(res.status).toBe(409);
+      expect(res.body.allowedStatuses).toContain('SHIPPED');
+    });
+  });
+
   describe('POST /api/v1/orders/:id/cancel', () => {
     it('should cancel order (User)', async () => {
       const res = await request(app)
@@ -185,8 +344,9 @@ describe('Order Status Tracking', () => {
       expect(cancelledEntry?.note).toBe('Cancelled by user');
     });
 
-    it('should return 400 if order cannot be cancelled', async () => {
+    it('should return 409 if order cannot be cancelled', async () => {
       // Update order to FULFILLED
+      await prisma.order.update({ where: { id: orderId }, data: { status: 'PAID' } });
       await request(app)
         .patch(`/api/v1/orders/${orderId}/status`)
         .set('Authorization', `Bearer ${adminToken}`)
@@ -198,8 +358,39 @@ describe('Order Status Tracking', () => {
         .post(`/api/v1/orders/${orderId}/cancel`)
         .set('Authorization', `Bearer ${userToken}`);
 
-      expect(res.status).toBe(400);
+      expect(res.status).toBe(409);
       expect(res.body).toHaveProperty('message');
+      expect(res.body.allowedStatuses).toEqual(['SHIPPED', 'REFUNDED']);
+    });
+
+    it('should release coupon usage on cancel', async () => {
+      const validUntil = new Date();
+      validUntil.setMonth(validUntil.getMonth() + 1);
+      await prisma.coupon.create({
+        data: {
+          code: 'CANCEL10',
+          discountType: 'PERCENTAGE',
+          discountValue: 10,
+          usageLimit: 1,
+          validFrom: new Date(),
+          validUntil,
+          active: true,
+        },
+      });
+
+      const orderRes = await request(app)
+        .post('/api/v1/orders')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ items: [{ productId, quantity: 1 }], couponCode: 'CANCEL10' });
+      expect(orderRes.status).toBe(201);
+
+      const res = await request(app)
+        .post(`/api/v1/orders/${orderRes.body.order.id}/cancel`)
+        .set('Authorization', `Bearer ${userToken}`);
+
+      expect(res.status).toBe(200);
+      const coupon = await prisma.coupon.findUnique({ where: { code: 'CANCEL10' } });
+      expect(coupon?.usageCount).toBe(0);
     });
 
     it('should return 403 for other user orders', async () => {
@@ -1,6 +1,7 @@
 import request from 'supertest';
 
 import { createApp } from '../src/app';
+import { prisma } from '../src/config/prisma';
 import { createTestUser, createTestCategory, createTestProduct, cleanupDatabase } from './helpers';
 
 const app = createApp();
@@ -77,6 +78,66 @@ describe('Orders', () => {
       expect(res.status).toBe(400);
     });
 
+    it('should price and reserve stock per variant', async () => {
+      const variant = await prisma.productVariant.create({
+        data: { productId, name: 'Size: Large', priceCents: 1500, stock: 4 },
+      });
+
+      const res = await request(app)
+        .post('/api/v1/orders')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({
+          items: [{ productId, variantId: variant.id, quantity: 3 }],
+        });
+
+      expect(res.status).toBe(201);
+      expect(res.body.order.totalCents).toBe(4500);
+      expect(res.body.order.items[0].variantId).toBe(variant.id);
+      expect(res.body.order.items[0].unitPriceCents).toBe(1500);
+
+      const updatedVariant = await prisma.productVariant.findUnique({ where: { id: variant.id } });
+      const product = await prisma.product.findUnique({ where: { id: productId } });
+      expect(updatedVariant?.stock).toBe(1);
+      expect(product?.stock).toBe(10);
+    });
+
+    it('should reject order exceeding variant stock', async () => {
+      const variant = await prisma.productVariant.create({
+        data: { productId, name: 'Size: Small', stock: 1 },
+      });
+
+      const res = await request(app)
+        .post('/api/v1/orders')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({
+          items: [{ productId, variantId: variant.id, quantity: 2 }],
+        });
+
+      expect(res.status).toBe(400);
+      expect(res.body.message).toContain('Insufficient stock');
+    });
+
+    it('should restore variant stock when order is cancelled', async () => {
+      const variant = await prisma.productVariant.create({
+        data: { productId, name: 'Size: Large', stock: 4 },
+      });
+
+      const createRes = await request(app)
+        .post('/api/v1/orders')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({
+          items: [{ productId, variantId: variant.id, quantity: 2 }],
+        });
+
+      const cancelRes = await request(app)
+        .post(`/api/v1/orders/${createRes.body.order.id}/cancel`)
+        .set('Authorization', `Bearer ${userToken}`);
+
+      expect(cancelRes.status).toBe(200);
+      const updatedVariant = await prisma.productVariant.findUnique({ where: { id: variant.id } });
+      expect(updatedVariant?.stock).toBe(4);
+    });
+
     it('should reject unauthenticated request', async () => {
       const res = await request(app)
         .post('/api/v1/orders')
@@ -88,6 +149,64 @@ describe('Orders', () => {
     });
   });
 
+  describe('Concurrent order creation', () => {
+    it('should never oversell stock under concurrent checkouts', async () => {
+      const limited = await createTestProduct(categoryId, { title: 'Limited Product', stock: 3 });
+
+      const results = await Promise.all(
+        Array.from({ length: 8 }, () =>
+          request(app)
+            .post('/api/v1/orders')
+            .set('Authorization', `Bearer ${userToken}`)
+            .send({ items: [{ productId: limited.id, quantity: 1 }] }),
+        ),
+      );
+
+      const created = results.filter((r) => r.status === 201);
+      const rejected = results.filter((r) => r.status !== 201);
+      expect(created).toHaveLength(3);
+      rejected.forEach((r) => expect([400, 409]).toContain(r.status));
+
+      const product = await prisma.product.findUnique({ where: { id: limited.id } });
+      expect(product?.stock).toBe(0);
+      expect(await prisma.order.count({ where: { status: 'PENDING' } })).toBe(3);
+    });
+
+    it('should never exceed coupon usage limit under concurrent checkouts', async () => {
+      await prisma.coupon.create({
+        data: {
+          code: 'ONCE',
+          discountType: 'FIXED_AMOUNT',
+          discountValue: 100,
+          usageLimit: 1,
+          validFrom: new Date(Date.now() - 86400000),
+          validUntil: new Date(Date.now() + 86400000),
+        },
+      });
+
+      const results = await Promise.all(
+        Array.from({ length: 4 }, () =>
+          request(app)
+            .post('/api/v1/orders')
+            .set('Authorization', `Bearer ${userToken}`)
+            .send({ items: [{ productId, quantity: 1 }], couponCode: 'ONCE' }),
+        ),
+      );
+
+      expect(results.filter((r) => r.status === 201)).toHaveLength(1);
+      results
+        .filter((r) => r.status !== 201)
+        .forEach((r) => expect([400, 409]).toContain(r.status));
+
+      const coupon = await prisma.coupon.findUnique({ where: { code: 'ONCE' } });
+      expect(coupon?.usageCount).toBe(1);
+
+      // Rolled back orders must not keep their stock
+      const product = await prisma.product.findUnique({ where: { id: productId } });
+      expect(product?.stock).toBe(9);
+    });
+  });
+
   describe('GET /api/v1/orders', () => {
     it('should list user orders', async () => {
       await request(app)
@@ -1,7 +1,9 @@
 import request from 'supertest';
+import { vi } from 'vitest';
 
 import { createApp } from '../src/app';
 import { prisma } from '../src/config/prisma';
+import { requestPasswordReset } from '../src/modules/auth/password-reset-utils';
 import { createTestUser, cleanupDatabase } from './helpers';
 
 const app = createApp();
@@ -10,6 +12,14 @@ describe('Password Reset', () => {
   let userEmail: string;
   let userId: string;
 
+  // The token is stored after the response is sent, so wait for it to differ from `previous`
+  const waitForResetToken = (previous: string | null = null) =>
+    vi.waitFor(async () => {
+      const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+      expect(user.resetPasswordToken).not.toBe(previous);
+      return user;
+    });
+
   beforeEach(async () => {
     await cleanupDatabase();
     const user = await createTestUser('user@example.com', 'USER');
@@ -30,10 +40,10 @@ describe('Password Reset', () => {
       );
 
       // Check that reset token was saved
-      const user = await prisma.user.findUnique({ where: { id: userId } });
-      expect(user?.resetPasswordToken).toBeDefined();
-      expect(user?.resetPasswordExpires).toBeDefined();
-      expect(user?.resetPasswordExpires!.getTime()).toBeGreaterThan(Date.now());
+      const user = await waitForResetToken();
+      expect(user.resetPasswordToken).toBeDefined();
+      expect(user.resetPasswordExpires).toBeDefined();
+      expect(user.resetPasswordExpires!.getTime()).toBeGreaterThan(Date.now());
     });
 
     it('should return same message for non-existent email (security)', async () => {
@@ -68,22 +78,32 @@ describe('Password Reset', () => {
         email: userEmail,
       });
 
-      const user1 = await prisma.user.findUnique({ where: { id: userId } });
-      const firstToken = user1?.resetPasswordToken;
+      const firstToken = (await waitForResetToken()).resetPasswordToken;
 
       // Second request
       await request(app).post('/api/v1/auth/forgot-password').send({
         email: userEmail,
       });
 
-      const user2 = await prisma.user.findUnique({ where: { id: userId } });
-      const secondToken = user2?.resetPasswordToken;
+      const secondToken = (await waitForResetToken(firstToken)).resetPasswordToken;
 
       expect(secondToken).toBeDefined();
       expect(secondToken).not.toBe(firstToken);
     });
   });
 
+  it('should stop issuing reset tokens after the hourly limit', async () => {
+    const tokens: (string | null)[] = [];
+    for (let i = 0; i < 6; i++) {
+      await requestPasswordReset(userEmail);
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      tokens.push(user!.resetPasswordToken);
+    }
+
+    expect(tokens[5]).toBe(tokens[4]);
+    expect(new Set(tokens.slice(0, 5)).size).toBe(5);
+  });
+
   describe('POST /api/v1/auth/reset-password/:token', () => {
     let resetToken: string;
 
@@ -93,11 +113,7 @@ describe('Password Reset', () => {
         email: userEmail,
       });
 
-      const user = await prisma.user.findUnique({ where: { id: userId } });
-      if (!user?.resetPasswordToken) {
-        throw new Error('Reset token not found');
-      }
-      resetToken = user.resetPasswordToken;
+      resetToken = (await waitForResetToken()).resetPasswordToken!;
     });
 
     it('should reset password with valid token', async () => {
@@ -121,6 +137,27 @@ describe('Password Reset', () => {
       expect(loginRes.status).toBe(200);
     });
 
+    it('should revoke tokens issued before the reset', async () => {
+      const loginRes = await request(app).post('/api/v1/auth/login').send({
+        email: userEmail,
+        password: 'password123',
+      });
+
+      await request(app).post(`/api/v1/auth/reset-password/${resetToken}`).send({
+        password: 'newpassword123',
+      });
+
+      const profileRes = await request(app)
+        .get('/api/v1/profile')
+        .set('Authorization', `Bearer ${loginRes.body.accessToken}`);
+      expect(profileRes.status).toBe(401);
+
+      const refreshRes = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: loginRes.body.refreshToken });
+      expect(refreshRes.status).toBe(401);
+    });
+
     it('should return 400 for invalid token', async () => {
       const res = await request(app).post('/api/v1/auth/reset-password/invalid-token').send({
         password: 'newpassword123',
@@ -1,35 +1,35 @@
 import request from 'supertest';
+import Stripe from 'stripe';
 import { vi } from 'vitest';
 
 import { createApp } from '../src/app';
+import { prisma } from '../src/config/prisma';
+import { stripe } from '../src/config/stripe';
+import { transitionOrder } from '../src/modules/orders/order-state';
 import { createTestUser, createTestCategory, createTestProduct, cleanupDatabase } from './helpers';
 
-vi.mock('../src/config/stripe', () => {
-  const mockCreate = vi.fn().mockResolvedValue({ url: 'https://mock.checkout/session' });
-  const mockConstructEvent = vi.fn().mockImplementation((body: Buffer) => {
-    // Parse the body to get the orderId if it's in the request
-    try {
-      const parsed = JSON.parse(body.toString());
-      const orderId = parsed?.data?.object?.metadata?.orderId || 'test-order-id';
-      return {
-        type: 'checkout.session.completed',
-        data: { object: { metadata: { orderId }, payment_intent: 'pi_test' } },
-      };
-    } catch {
-      return {
-        type: 'checkout.session.completed',
-        data: { object: { metadata: { orderId: 'test-order-id' }, payment_intent: 'pi_test' } },
-      };
-    }
-  });
+vi.mock('../src/config/stripe', async () => {
+  // Keep Stripe's real signature verification so fixtures are checked like production events
+  const { default: StripeSdk } = await vi.importActual<typeof import('stripe')>('stripe');
+  const mockCreate = vi
+    .fn()
+    .mockResolvedValue({ id: 'cs_test_mock', url: 'https://mock.checkout/session' });
   return {
     stripe: {
       checkout: { sessions: { create: mockCreate } },
-      webhooks: { constructEvent: mockConstructEvent },
+      webhooks: StripeSdk.webhooks,
     },
   };
 });
 
+// Wraps the real implementation so a test can make a single handler run fail
+vi.mock('../src/modules/orders/order-state', async () => {
+  const actual = await vi.importActual<typeof import('../src/modules/orders/order-state')>(
+    '../src/modules/orders/order-state',
+  );
+  return { ...actual, transitionOrder: vi.fn(actual.transitionOrder) };
+});
+
 vi.mock('../src/config/env', async () => {
   const actual = (await vi.importActual('../src/config/env')) as { env: Record<string, unknown> };
   return {
@@ -44,6 +44,46 @@ vi.mock('../src/config/env', async () => {
 
 const app = createApp();
 
+const sendSignedWebhook = (event: object, secret = 'whsec_mock') => {
+  const payload = JSON.stringify(event);
+  const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret });
+  return request(app)
+    .post('/api/v1/payments/stripe/webhook')
+    .set('stripe-signature', signature)
+    .set('Content-Type', 'application/json')
+    .send(payload);
+};
+
+// Trimmed-down copies of the events Stripe sends, with only the fields we read
+const checkoutCompletedFixture = (orderId: string, id = 'evt_checkout_completed') => ({
+  id,
+  object: 'event',
+  type: 'checkout.session.completed',
+  created: 1763020800,
+  data: {
+    object: {
+      id: 'cs_test_123',
+      object: 'checkout.session',
+      metadata: { orderId },
+      payment_intent: 'pi_test_123',
+    },
+  },
+});
+
+const paymentFailedFixture = (orderId: string, id = 'evt_payment_failed') => ({
+  id,
+  object: 'event',
+  type: 'payment_intent.payment_failed',
+  created: 1763020700,
+  data: {
+    object: {
+      id: 'pi_test_123',
+      object: 'payment_intent',
+      metadata: { orderId },
+    },
+  },
+});
+
 describe('Payments', () => {
   let userToken: string;
   let categoryId: string;
@@ -93,6 +133,56 @@ describe('Payments', () => {
       expect(res.body.url).toBe('https://mock.checkout/session');
     });
 
+    it('should close the Stripe session when the reservation expires', async () => {
+      const res = await request(app)
+        .post('/api/v1/payments/checkout')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ orderId });
+
+      expect(res.status).toBe(200);
+      const order = await prisma.order.findUniqueOrThrow({ where: { id: orderId } });
+      expect(order.checkoutSessionId).toBe('cs_test_mock');
+      const params = vi.mocked(stripe!.checkout.sessions.create).mock
+        .lastCall![0] as Stripe.Checkout.SessionCreateParams;
+      expect(params.expires_at).toBe(Math.floor(order.reservationExpiresAt!.getTime() / 1000));
+    });
+
+    it('should extend a nearly expired reservation to the minimum session length', async () => {
+      const soon = new Date(Date.now() + 5 * 60 * 1000);
+      await prisma.order.update({ where: { id: orderId }, data: { reservationExpiresAt: soon } });
+
+      await request(app)
+        .post('/api/v1/payments/checkout')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ orderId });
+
+      const order = await prisma.order.findUniqueOrThrow({ where: { id: orderId } });
+      expect(order.reservationExpiresAt!.getTime()).toBeGreaterThan(Date.now() + 29 * 60 * 1000);
+    });
+
+    it('should include variant name in Stripe line items', async () => {
+      const variant = await prisma.productVariant.create({
+        data: { productId, name: 'Size: Large', priceCents: 1500, stock: 5 },
+      });
+      const variantOrder = await request(app)
+        .post('/api/v1/orders')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ items: [{ productId, variantId: variant.id, quantity: 1 }] });
+
+      const res = await request(app)
+        .post('/api/v1/payments/checkout')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ orderId: variantOrder.body.order.id });
+
+      expect(res.status).toBe(200);
+      const createMock = vi.mocked(stripe!.checkout.sessions.create);
+      const params = createMock.mock.lastCall![0] as Stripe.Checkout.SessionCreateParams;
+      expect(params.line_items![0].price_data!.product_data!.name).toBe(
+        'Test Product (Size: Large)',
+      );
+      expect(params.line_items![0].price_data!.unit_amount).toBe(1500);
+    });
+
     it('should reject checkout for non-existent order', async () => {
       const res = await request(app)
         .post('/api/v1/payments/checkout')
@@ -125,25 +215,227 @@ describe('Payments', () => {
   });
 
   describe('POST /api/v1/payments/stripe/webhook', () => {
-    it('should handle webhook requests (Stripe mocked)', async () => {
-      // Use the actual order ID from beforeEach
-      const mockEvent = {
+    it('should mark the order paid for a signed checkout.session.completed event', async () => {
+      const res = await sendSignedWebhook(checkoutCompletedFixture(orderId));
+
+      expect(res.status).toBe(200);
+      expect(res.body).toHaveProperty('received', true);
+
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      expect(order?.status).toBe('PAID');
+      expect(order?.paymentIntentId).toBe('pi_test_123');
+
+      const stored = await prisma.webhookEvent.findMany();
+      expect(stored).toHaveLength(1);
+      expect(stored[0]).toMatchObject({
+        eventId: 'evt_checkout_completed',
         type: 'checkout.session.completed',
+        status: 'PROCESSED',
+        attempts: 1,
+      });
+    });
+
+    it('should reject payloads with an invalid signature', async () => {
+      const res = await sendSignedWebhook(checkoutCompletedFixture(orderId), 'whsec_wrong');
+
+      expect(res.status).toBe(400);
+      expect(await prisma.webhookEvent.count()).toBe(0);
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      expect(order?.status).toBe('PENDING');
+    });
+
+    it('should ignore duplicate deliveries of the same event', async () => {
+      await sendSignedWebhook(checkoutCompletedFixture(orderId));
+      const res = await sendSignedWebhook(checkoutCompletedFixture(orderId));
+
+      expect(res.status).toBe(200);
+      expect(res.body).toHaveProperty('duplicate', true);
+
+      const history = await prisma.orderStatusHistory.findMany({
+        where: { orderId, status: 'PAID' },
+      });
+      expect(history).toHaveLength(1);
+      const stored = await prisma.webhookEvent.findFirst();
+      expect(stored?.attempts).toBe(1);
+    });
+
+    it('should not cancel a paid order when a failure event arrives late', async () => {
+      await sendSignedWebhook(checkoutCompletedFixture(orderId));
+      const res = await sendSignedWebhook(paymentFailedFixture(orderId));
+
+      expect(res.status).toBe(200);
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      expect(order?.status).toBe('PAID');
+    });
+
+    it('should cancel an unpaid order on payment failure', async () => {
+      const res = await sendSignedWebhook(paymentFailedFixture(orderId));
+
+      expect(res.status).toBe(200);
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      expect(order?.status).toBe('CANCELLED');
+      const product = await prisma.product.findUnique({ where: { id: productId } });
+      expect(product?.stock).toBe(10);
+    });
+
+    it('should record payment transitions in the tracking timeline', async () => {
+      await sendSignedWebhook(checkoutCompletedFixture(orderId));
+
+      const res = await request(app)
+        .get(`/api/v1/orders/${orderId}/tracking`)
+        .set('Authorization', `Bearer ${userToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.order.statusHistory[0]).toMatchObject({
+        status: 'PAID',
+        note: 'Payment received',
+      });
+    });
+
+    it('should release coupon usage and record history on payment failure', async () => {
+      const validUntil = new Date();
+      validUntil.setMonth(validUntil.getMonth() + 1);
+      await prisma.coupon.create({
         data: {
-          object: {
-            metadata: { orderId },
-            payment_intent: 'pi_test_123',
-          },
+          code: 'PAYFAIL10',
+          discountType: 'PERCENTAGE',
+          discountValue: 10,
+          usageLimit: 5,
+          validFrom: new Date(),
+          validUntil,
+          active: true,
         },
-      };
+      });
+      const couponOrder = await request(app)
+        .post('/api/v1/orders')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ items: [{ productId, quantity: 2 }], couponCode: 'PAYFAIL10' });
+      expect(couponOrder.status).toBe(201);
+      const couponOrderId = couponOrder.body.order.id;
+
+      const res = await sendSignedWebhook(
+        paymentFailedFixture(couponOrderId, 'evt_payment_failed_coupon'),
+      );
+
+      expect(res.status).toBe(200);
+      const coupon = await prisma.coupon.findUnique({ where: { code: 'PAYFAIL10' } });
+      expect(coupon?.usageCount).toBe(0);
+      const product = await prisma.product.findUnique({ where: { id: productId } });
+      expect(product?.stock).toBe(9); // Only the first order still holds stock
+      const history = await prisma.orderStatusHistory.findFirst({
+        where: { orderId: couponOrderId, status: 'CANCELLED' },
+      });
+      expect(history?.note).toBe('Payment failed');
+    });
+
+    it('should store failed events and retry them on redelivery', async () => {
+      vi.mocked(transitionOrder).mockRejectedValueOnce(new Error('Database unavailable'));
+
+      const failed = await sendSignedWebhook(checkoutCompletedFixture(orderId));
+
+      expect(failed.status).toBe(500);
+      const stored = await prisma.webhookEvent.findFirst();
+      expect(stored?.status).toBe('FAILED');
+      expect(stored?.lastError).toBe('Database unavailable');
+
+      const retried = await sendSignedWebhook(checkoutCompletedFixture(orderId));
+
+      expect(retried.status).toBe(200);
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      expect(order?.status).toBe('PAID');
+      const after = await prisma.webhookEvent.findFirst();
+      expect(after?.status).toBe('PROCESSED');
+      expect(after?.attempts).toBe(2);
+    });
+
+    it('should retry an event whose processing was abandoned on redelivery', async () => {
+      vi.mocked(transitionOrder).mockRejectedValueOnce(new Error('Database unavailable'));
+      await sendSignedWebhook(checkoutCompletedFixture(orderId));
+      // As if the process died after storing the event
+      await prisma.webhookEvent.updateMany({
+        data: { status: 'RECEIVED', claimedAt: new Date(Date.now() - 10 * 60 * 1000) },
+      });
+
+      const res = await sendSignedWebhook(checkoutCompletedFixture(orderId));
+
+      expect(res.status).toBe(200);
+      expect(res.body).not.toHaveProperty('duplicate');
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      expect(order?.status).toBe('PAID');
+    });
+
+    it('should not take over an event that is still being processed', async () => {
+      vi.mocked(transitionOrder).mockRejectedValueOnce(new Error('Database unavailable'));
+      await sendSignedWebhook(checkoutCompletedFixture(orderId));
+      await prisma.webhookEvent.updateMany({ data: { status: 'RECEIVED', claimedAt: new Date() } });
+
+      const res = await sendSignedWebhook(checkoutCompletedFixture(orderId));
+
+      expect(res.body).toHaveProperty('duplicate', true);
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      expect(order?.status).toBe('PENDING');
+    });
+  });
 
+  describe('Webhook event inbox (Admin)', () => {
+    let adminToken: string;
+
+    beforeEach(async () => {
+      await createTestUser('admin@example.com', 'ADMIN');
+      const adminLogin = await request(app).post('/api/v1/auth/login').send({
+        email: 'admin@example.com',
+        password: 'password123',
+      });
+      adminToken = adminLogin.body.accessToken;
+
+      vi.mocked(transitionOrder).mockRejectedValueOnce(new Error('Database unavailable'));
+      await sendSignedWebhook(checkoutCompletedFixture(orderId));
+    });
+
+    it('should list failed events', async () => {
       const res = await request(app)
-        .post('/api/v1/payments/stripe/webhook')
-        .set('stripe-signature', 'test-signature')
-        .send(mockEvent);
+        .get('/api/v1/payments/webhooks/events')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .query({ status: 'FAILED' });
 
       expect(res.status).toBe(200);
-      expect(res.body).toHaveProperty('received', true);
+      expect(res.body.events).toHaveLength(1);
+      expect(res.body.events[0].eventId).toBe('evt_checkout_completed');
+      expect(res.body.pagination.total).toBe(1);
+    });
+
+    it('should replay a failed event', async () => {
+      const stored = await prisma.webhookEvent.findFirst();
+
+      const res = await request(app)
+        .post(`/api/v1/payments/webhooks/events/${stored!.id}/replay`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.event.status).toBe('PROCESSED');
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      expect(order?.status).toBe('PAID');
+    });
+
+    it('should not replay an event that was already processed', async () => {
+      const stored = await prisma.webhookEvent.findFirst();
+      await request(app)
+        .post(`/api/v1/payments/webhooks/events/${stored!.id}/replay`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      const res = await request(app)
+        .post(`/api/v1/payments/webhooks/events/${stored!.id}/replay`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.status).toBe(409);
+    });
+
+    it('should return 403 for non-admin users', async () => {
+      const res = await request(app)
+        .get('/api/v1/payments/webhooks/events')
+        .set('Authorization', `Bearer ${userToken}`);
+
+      expect(res.status).toBe(403);
     });
   });
 });
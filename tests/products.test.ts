@@ -48,6 +48,22 @@ describe('Products', () => {
       expect(res.body.items.some((p: { title: string }) => p.title.includes('Laptop'))).toBe(true);
     });
 
+    it('should page, sort and filter search matches together', async () => {
+      await createTestProduct(categoryId, { title: 'Budget Laptop', priceCents: 50000 });
+      await createTestProduct(categoryId, { title: 'Gaming Laptop', priceCents: 150000 });
+      await createTestProduct(categoryId, { title: 'Laptop Stand', priceCents: 3000 });
+      await createTestProduct(categoryId, { title: 'Mouse', priceCents: 2000 });
+
+      const res = await request(app)
+        .get('/api/v1/products')
+        .query({ q: 'laptop', sort: 'price_desc', minPrice: 4000, limit: 1, page: 2 });
+
+      expect(res.status).toBe(200);
+      expect(res.body.total).toBe(2);
+      expect(res.body.items.map((p: { title: string }) => p.title)).toEqual(['Budget Laptop']);
+      expect(res.body.items[0].category.id).toBe(categoryId);
+    });
+
     it('should paginate products', async () => {
       await createTestProduct(categoryId, { title: 'Product 1' });
       await createTestProduct(categoryId, { title: 'Product 2' });
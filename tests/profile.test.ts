@@ -11,7 +11,7 @@ describe('Profile', () => {
 
   beforeEach(async () => {
     await cleanupDatabase();
-    const user = await createTestUser('user@example.com', 'USER');
+    const user = await createTestUser('user@example.com', 'USER', { emailVerified: false });
     userId = user.id;
 
     const loginRes = await request(app).post('/api/v1/auth/login').send({
@@ -132,6 +132,38 @@ describe('Profile', () => {
       expect(loginRes.status).toBe(200);
     });
 
+    it('should revoke existing tokens and issue fresh ones', async () => {
+      const otherLogin = await request(app).post('/api/v1/auth/login').send({
+        email: 'user@example.com',
+        password: 'password123',
+      });
+
+      const res = await request(app)
+        .patch('/api/v1/profile/password')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({
+          currentPassword: 'password123',
+          newPassword: 'newpassword123',
+          confirmPassword: 'newpassword123',
+        });
+      expect(res.status).toBe(200);
+
+      const oldAccess = await request(app)
+        .get('/api/v1/profile')
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(oldAccess.status).toBe(401);
+
+      const oldRefresh = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: otherLogin.body.refreshToken });
+      expect(oldRefresh.status).toBe(401);
+
+      const newAccess = await request(app)
+        .get('/api/v1/profile')
+        .set('Authorization', `Bearer ${res.body.accessToken}`);
+      expect(newAccess.status).toBe(200);
+    });
+
     it('should return 401 for incorrect current password', async () => {
       const res = await request(app)
         .patch('/api/v1/profile/password')
@@ -172,4 +204,59 @@ describe('Profile', () => {
       expect(res.status).toBe(400);
     });
   });
+
+  describe('Sessions', () => {
+    it('should list active sessions and flag the current one', async () => {
+      await request(app).post('/api/v1/auth/login').send({
+        email: 'user@example.com',
+        password: 'password123',
+      });
+
+      const res = await request(app)
+        .get('/api/v1/profile/sessions')
+        .set('Authorization', `Bearer ${userToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.sessions).toHaveLength(2);
+      expect(res.body.sessions.filter((s: { current: boolean }) => s.current)).toHaveLength(1);
+    });
+
+    it('should revoke a session', async () => {
+      const otherLogin = await request(app).post('/api/v1/auth/login').send({
+        email: 'user@example.com',
+        password: 'password123',
+      });
+      const list = await request(app)
+        .get('/api/v1/profile/sessions')
+        .set('Authorization', `Bearer ${userToken}`);
+      const other = list.body.sessions.find((s: { current: boolean }) => !s.current);
+
+      const res = await request(app)
+        .delete(`/api/v1/profile/sessions/${other.id}`)
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(res.status).toBe(200);
+
+      const refreshRes = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: otherLogin.body.refreshToken });
+      expect(refreshRes.status).toBe(401);
+    });
+
+    it("should not revoke another user's session", async () => {
+      await createTestUser('other@example.com', 'USER');
+      const otherLogin = await request(app).post('/api/v1/auth/login').send({
+        email: 'other@example.com',
+        password: 'password123',
+      });
+      const otherSessions = await request(app)
+        .get('/api/v1/profile/sessions')
+        .set('Authorization', `Bearer ${otherLogin.body.accessToken}`);
+
+      const res = await request(app)
+        .delete(`/api/v1/profile/sessions/${otherSessions.body.sessions[0].id}`)
+        .set('Authorization', `Bearer ${userToken}`);
+
+      expect(res.status).toBe(404);
+    });
+  });
 });
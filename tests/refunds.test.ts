@@ -0,0 +1,318 @@
+import request from 'supertest';
+import { vi } from 'vitest';
+
+import { createApp } from '../src/app';
+import { prisma } from '../src/config/prisma';
+import { stripe } from '../src/config/stripe';
+import { createTestUser, createTestCategory, createTestProduct, cleanupDatabase } from './helpers';
+
+vi.mock('../src/config/stripe', () => {
+  const mockRefundCreate = vi
+    .fn()
+    .mockImplementation(async () => ({ id: `re_test_${Math.random().toString(36).slice(2)}` }));
+  const mockConstructEvent = vi
+    .fn()
+    .mockImplementation((body: Buffer) => JSON.parse(body.toString()));
+  return {
+    stripe: {
+      refunds: { create: mockRefundCreate },
+      webhooks: { constructEvent: mockConstructEvent },
+    },
+  };
+});
+
+vi.mock('../src/config/env', async () => {
+  const actual = (await vi.importActual('../src/config/env')) as { env: Record<string, unknown> };
+  return {
+    ...actual,
+    env: {
+      ...actual.env,
+      STRIPE_SECRET_KEY: 'sk_test_mock',
+      STRIPE_WEBHOOK_SECRET: 'whsec_mock',
+    },
+  };
+});
+
+const app = createApp();
+
+describe('Order Refunds', () => {
+  let userToken: string;
+  let adminToken: string;
+  let productId: string;
+  let product2Id: string;
+  let orderId: string;
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    vi.mocked(stripe!.refunds.create).mockClear();
+    await createTestUser('user@example.com', 'USER');
+    await createTestUser('admin@example.com', 'ADMIN');
+
+    const userLogin = await request(app).post('/api/v1/auth/login').send({
+      email: 'user@example.com',
+      password: 'password123',
+    });
+    userToken = userLogin.body.accessToken;
+
+    const adminLogin = await request(app).post('/api/v1/auth/login').send({
+      email: 'admin@example.com',
+      password: 'password123',
+    });
+    adminToken = adminLogin.body.accessToken;
+
+    const category = await createTestCategory('Electronics');
+    const product = await createTestProduct(category.id, {
+      title: 'Test Product',
+      priceCents: 1000,
+      stock: 10,
+    });
+    productId = product.id;
+    const product2 = await createTestProduct(category.id, {
+      title: 'Test Product 2',
+      priceCents: 500,
+      stock: 10,
+    });
+    product2Id = product2.id;
+
+    const orderRes = await request(app)
+      .post('/api/v1/orders')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({
+        items: [
+          { productId, quantity: 2 },
+          { productId: product2Id, quantity: 1 },
+        ],
+      });
+    expect(orderRes.status).toBe(201);
+    orderId = orderRes.body.order.id;
+
+    await prisma.order.update({
+      where: { id: orderId },
+      data: { status: 'PAID', paymentIntentId: 'pi_refund_test' },
+    });
+  });
+
+  describe('POST /api/v1/orders/:id/refund', () => {
+    it('should fully refund an order', async () => {
+      const res = await request(app)
+        .post(`/api/v1/orders/${orderId}/refund`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ reason: 'Customer request' });
+
+      expect(res.status).toBe(201);
+      expect(res.body.refund.amountCents).toBe(2500);
+      expect(res.body.order.status).toBe('REFUNDED');
+      expect(res.body.order.refundedCents).toBe(2500);
+      expect(stripe!.refunds.create).toHaveBeenCalledWith(
+        expect.objectContaining({ payment_intent: 'pi_refund_test', amount: 2500 }),
+        expect.anything(),
+      );
+    });
+
+    it('should partially refund line items and restock them', async () => {
+      const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        include: { items: true },
+      });
+      const item = order!.items.find((it) => it.productId === productId)!;
+
+      const res = await request(app)
+        .post(`/api/v1/orders/${orderId}/refund`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ items: [{ orderItemId: item.id, quantity: 1 }], restock: true });
+
+      expect(res.status).toBe(201);
+      expect(res.body.refund.amountCents).toBe(1000);
+      expect(res.body.refund.restocked).toBe(true);
+      expect(res.body.order.status).toBe('PAID');
+      expect(res.body.order.refundedCents).toBe(1000);
+
+      const product = await prisma.product.findUnique({ where: { id: productId } });
+      expect(product?.stock).toBe(9);
+    });
+
+    it('should reject refunding more than was ordered', async () => {
+      const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        include: { items: true },
+      });
+      const item = order!.items.find((it) => it.productId === product2Id)!;
+
+      const res = await request(app)
+        .post(`/api/v1/orders/${orderId}/refund`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ items: [{ orderItemId: item.id, quantity: 2 }] });
+
+      expect(res.status).toBe(400);
+      expect(stripe!.refunds.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject the same order item listed twice', async () => {
+      const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        include: { items: true },
+      });
+      const item = order!.items.find((it) => it.productId === productId)!;
+
+      const res = await request(app)
+        .post(`/api/v1/orders/${orderId}/refund`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          items: [
+            { orderItemId: item.id, quantity: 2 },
+            { orderItemId: item.id, quantity: 2 },
+          ],
+          restock: true,
+        });
+
+      expect(res.status).toBe(400);
+      expect(stripe!.refunds.create).not.toHaveBeenCalled();
+      const product = await prisma.product.findUnique({ where: { id: productId } });
+      expect(product?.stock).toBe(8);
+    });
+
+    it('should reject refund of an unpaid order', async () => {
+      await prisma.order.update({ where: { id: orderId }, data: { status: 'PENDING' } });
+
+      const res = await request(app)
+        .post(`/api/v1/orders/${orderId}/refund`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({});
+
+      expect(res.status).toBe(409);
+      expect(res.body.allowedStatuses).toEqual(['PAID', 'CANCELLED']);
+    });
+
+    it('should not let the customer cancel a paid order instead of refunding it', async () => {
+      const cancelRes = await request(app)
+        .post(`/api/v1/orders/${orderId}/cancel`)
+        .set('Authorization', `Bearer ${userToken}`);
+
+      expect(cancelRes.status).toBe(409);
+      expect(cancelRes.body.allowedStatuses).not.toContain('CANCELLED');
+      const product = await prisma.product.findUnique({ where: { id: productId } });
+      expect(product?.stock).toBe(8);
+
+      const res = await request(app)
+        .post(`/api/v1/orders/${orderId}/refund`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({});
+
+      expect(res.status).toBe(201);
+      expect(res.body.order).toMatchObject({ status: 'REFUNDED', refundedCents: 2500 });
+    });
+
+    it('should reject a second full refund', async () => {
+      await request(app)
+        .post(`/api/v1/orders/${orderId}/refund`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({});
+
+      const res = await request(app)
+        .post(`/api/v1/orders/${orderId}/refund`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({});
+
+      expect(res.status).toBe(409);
+      expect(res.body.allowedStatuses).toEqual([]);
+    });
+
+    it('should refund only once when two refunds race', async () => {
+      const refund = () =>
+        request(app)
+          .post(`/api/v1/orders/${orderId}/refund`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({});
+
+      const responses = await Promise.all([refund(), refund()]);
+
+      const statuses = responses.map((r) => r.status).sort();
+      expect(statuses[0]).toBe(201);
+      expect([400, 409]).toContain(statuses[1]);
+      expect(stripe!.refunds.create).toHaveBeenCalledTimes(1);
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      expect(order?.refundedCents).toBe(2500);
+    });
+
+    it('should release the claimed amount when the provider refund fails', async () => {
+      vi.mocked(stripe!.refunds.create).mockRejectedValueOnce(new Error('card_declined'));
+
+      const res = await request(app)
+        .post(`/api/v1/orders/${orderId}/refund`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({});
+
+      expect(res.status).toBe(502);
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      expect(order?.refundedCents).toBe(0);
+      expect(order?.status).toBe('PAID');
+    });
+
+    it('should return 403 for non-admin users', async () => {
+      const res = await request(app)
+        .post(`/api/v1/orders/${orderId}/refund`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({});
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('charge.refunded webhook', () => {
+    const sendChargeRefunded = (eventId: string, amountRefunded: number) =>
+      request(app)
+        .post('/api/v1/payments/stripe/webhook')
+        .set('stripe-signature', 'test-signature')
+        .set('Content-Type', 'application/json')
+        .send(
+          JSON.stringify({
+            id: eventId,
+            type: 'charge.refunded',
+            data: {
+              object: { payment_intent: 'pi_refund_test', amount_refunded: amountRefunded },
+            },
+          }),
+        );
+
+    it('should record refunds issued from the Stripe dashboard', async () => {
+      const res = await sendChargeRefunded('evt_refund_full', 2500);
+
+      expect(res.status).toBe(200);
+      const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        include: { refunds: true },
+      });
+      expect(order?.status).toBe('REFUNDED');
+      expect(order?.refundedCents).toBe(2500);
+      expect(order?.refunds).toHaveLength(1);
+    });
+
+    it('should not double count the same cumulative refund amount', async () => {
+      await sendChargeRefunded('evt_refund_1', 1000);
+      await sendChargeRefunded('evt_refund_2', 1000);
+
+      const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        include: { refunds: true },
+      });
+      expect(order?.status).toBe('PAID');
+      expect(order?.refundedCents).toBe(1000);
+      expect(order?.refunds).toHaveLength(1);
+    });
+
+    it('should not record a refund issued through the API a second time', async () => {
+      await request(app)
+        .post(`/api/v1/orders/${orderId}/refund`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({});
+      await sendChargeRefunded('evt_refund_api', 2500);
+
+      const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        include: { refunds: true },
+      });
+      expect(order?.refundedCents).toBe(2500);
+      expect(order?.refunds).toHaveLength(1);
+    });
+  });
+});
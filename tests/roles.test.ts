@@ -0,0 +1,187 @@
+import request from 'supertest';
+
+import { createApp } from '../src/app';
+import { prisma } from '../src/config/prisma';
+import { createTestUser, createTestCategory, createTestProduct, cleanupDatabase } from './helpers';
+
+const app = createApp();
+
+describe('Staff Roles and Permissions', () => {
+  let adminToken: string;
+  let staffToken: string;
+  let staffId: string;
+  let orderId: string;
+  let categoryId: string;
+
+  const login = async (email: string) =>
+    (await request(app).post('/api/v1/auth/login').send({ email, password: 'password123' })).body
+      .accessToken as string;
+
+  const createRole = (name: string, permissions: string[]) =>
+    request(app)
+      .post('/api/v1/roles')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name, permissions });
+
+  const assignRole = (userId: string, staffRoleId: string | null) =>
+    request(app)
+      .patch(`/api/v1/users/${userId}/staff-role`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ staffRoleId });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    await createTestUser('admin@example.com', 'ADMIN');
+    await createTestUser('user@example.com', 'USER');
+    staffId = (await createTestUser('staff@example.com', 'USER')).id;
+    adminToken = await login('admin@example.com');
+    staffToken = await login('staff@example.com');
+
+    const category = await createTestCategory('Electronics');
+    categoryId = category.id;
+    const product = await createTestProduct(categoryId, { title: 'Test Product', stock: 10 });
+    const orderRes = await request(app)
+      .post('/api/v1/orders')
+      .set('Authorization', `Bearer ${await login('user@example.com')}`)
+      .send({ items: [{ productId: product.id, quantity: 1 }] });
+    orderId = orderRes.body.order.id;
+  });
+
+  describe('Role management', () => {
+    it('should let admins create roles from known permissions', async () => {
+      const res = await createRole('Warehouse', ['orders:fulfil']);
+
+      expect(res.status).toBe(201);
+      expect(res.body.role.permissions).toEqual(['orders:fulfil']);
+
+      const duplicate = await createRole('Warehouse', ['orders:fulfil']);
+      expect(duplicate.status).toBe(409);
+
+      const unknown = await createRole('Root', ['everything:all']);
+      expect(unknown.status).toBe(400);
+    });
+
+    it('should not let staff manage roles or assign them', async () => {
+      const role = await createRole('Support', ['users:manage']);
+      await assignRole(staffId, role.body.role.id);
+
+      const createRes = await request(app)
+        .post('/api/v1/roles')
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ name: 'Everything', permissions: ['coupons:manage'] });
+      expect(createRes.status).toBe(403);
+
+      const assignRes = await request(app)
+        .patch(`/api/v1/users/${staffId}/staff-role`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ staffRoleId: null });
+      expect(assignRes.status).toBe(403);
+
+      const listRes = await request(app)
+        .get('/api/v1/users')
+        .set('Authorization', `Bearer ${staffToken}`);
+      expect(listRes.status).toBe(200);
+    });
+  });
+
+  describe('Permission checks', () => {
+    it('should let warehouse staff fulfil orders but not create coupons', async () => {
+      const role = await createRole('Warehouse', ['orders:fulfil']);
+      expect((await assignRole(staffId, role.body.role.id)).status).toBe(200);
+
+      const statusRes = await request(app)
+        .patch(`/api/v1/orders/${orderId}/status`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ status: 'PAID' });
+      expect(statusRes.status).toBe(200);
+
+      const allOrders = await request(app)
+        .get('/api/v1/orders?all=true')
+        .set('Authorization', `Bearer ${staffToken}`);
+      expect(allOrders.body.orders).toHaveLength(1);
+
+      const couponRes = await request(app)
+        .post('/api/v1/coupons')
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({
+          code: 'STAFF10',
+          discountType: 'PERCENTAGE',
+          discountValue: 10,
+          validFrom: new Date().toISOString(),
+          validUntil: new Date(Date.now() + 86400000).toISOString(),
+        });
+      expect(couponRes.status).toBe(403);
+      expect(couponRes.body.message).toContain('coupons:manage');
+
+      const refundRes = await request(app)
+        .post(`/api/v1/orders/${orderId}/refund`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({});
+      expect(refundRes.status).toBe(403);
+    });
+
+    it('should apply role changes to existing tokens', async () => {
+      const role = await createRole('Catalog', ['orders:fulfil']);
+      await assignRole(staffId, role.body.role.id);
+
+      const createProduct = () =>
+        request(app).post('/api/v1/products').set('Authorization', `Bearer ${staffToken}`).send({
+          title: 'Staff Product',
+          description: 'Added by staff',
+          priceCents: 1000,
+          stock: 5,
+          categoryId,
+        });
+
+      expect((await createProduct()).status).toBe(403);
+
+      await request(app)
+        .patch(`/api/v1/roles/${role.body.role.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ permissions: ['catalog:write'] });
+      expect((await createProduct()).status).toBe(201);
+
+      await request(app)
+        .delete(`/api/v1/roles/${role.body.role.id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      const user = await prisma.user.findUnique({ where: { id: staffId } });
+      expect(user?.staffRoleId).toBeNull();
+
+      const categoryRes = await request(app)
+        .post('/api/v1/categories')
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({ name: 'Staff Category' });
+      expect(categoryRes.status).toBe(403);
+    });
+
+    it('should not let staff suspend admins', async () => {
+      const role = await createRole('Support', ['users:manage']);
+      await assignRole(staffId, role.body.role.id);
+      const admin = await prisma.user.findUniqueOrThrow({ where: { email: 'admin@example.com' } });
+
+      const res = await request(app)
+        .post(`/api/v1/users/${admin.id}/suspend`)
+        .set('Authorization', `Bearer ${staffToken}`)
+        .send({});
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should not let staff reactivate admins', async () => {
+      const role = await createRole('Support', ['users:manage']);
+      await assignRole(staffId, role.body.role.id);
+      const admin = await prisma.user.update({
+        where: { email: 'admin@example.com' },
+        data: { suspendedAt: new Date() },
+      });
+
+      const res = await request(app)
+        .post(`/api/v1/users/${admin.id}/reactivate`)
+        .set('Authorization', `Bearer ${staffToken}`);
+
+      expect(res.status).toBe(403);
+      const unchanged = await prisma.user.findUnique({ where: { id: admin.id } });
+      expect(unchanged?.suspendedAt).not.toBeNull();
+    });
+  });
+});
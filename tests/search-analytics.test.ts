@@ -0,0 +1,162 @@
+import request from 'supertest';
+import { Request } from 'express';
+
+import { createApp } from '../src/app';
+import { prisma } from '../src/config/prisma';
+import { visitorHash } from '../src/modules/search/search-analytics';
+import { createTestUser, createTestCategory, createTestProduct, cleanupDatabase } from './helpers';
+
+const app = createApp();
+
+describe('Search Analytics', () => {
+  let adminToken: string;
+  let userToken: string;
+  let productId: string;
+
+  const login = async (email: string) =>
+    (await request(app).post('/api/v1/auth/login').send({ email, password: 'password123' })).body
+      .accessToken as string;
+
+  const search = (q: string, sessionId = 'session-1') =>
+    request(app).get('/api/v1/products/search').set('X-Session-Id', sessionId).query({ q });
+
+  const click = (searchId: string) =>
+    request(app).post('/api/v1/search/clicks').send({ searchId, productId });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    await createTestUser('admin@example.com', 'ADMIN');
+    await createTestUser('user@example.com', 'USER');
+    adminToken = await login('admin@example.com');
+    userToken = await login('user@example.com');
+
+    const category = await createTestCategory('Clothing');
+    productId = (await createTestProduct(category.id, { title: 'Zip Hoodie' })).id;
+  });
+
+  describe('Logging', () => {
+    it('should log text searches with a normalised query and result count', async () => {
+      const res = await search('  Zip   HOODIE ');
+
+      expect(res.status).toBe(200);
+      const logged = await prisma.searchQuery.findUniqueOrThrow({
+        where: { id: res.body.searchId },
+      });
+      expect(logged).toMatchObject({ query: 'zip hoodie', source: 'SEARCH', resultCount: 1 });
+      expect(logged.visitorHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(logged.visitorHash).not.toContain('session-1');
+    });
+
+    it('should not log browsing without a query or later result pages', async () => {
+      await request(app).get('/api/v1/products/search');
+      await request(app).get('/api/v1/products/search').query({ q: 'hoodie', page: 2 });
+
+      expect(await prisma.searchQuery.count()).toBe(0);
+    });
+
+    it('should log suggestion lookups separately', async () => {
+      const res = await request(app).get('/api/v1/search/suggestions').query({ q: 'hoodei' });
+
+      expect(res.body.searchId).toBeDefined();
+      const logged = await prisma.searchQuery.findUniqueOrThrow({
+        where: { id: res.body.searchId },
+      });
+      expect(logged).toMatchObject({ query: 'hoodei', source: 'SUGGESTIONS', resultCount: 1 });
+    });
+
+    it('should hash the same visitor differently on different days', () => {
+      const req = { get: (name: string) => (name === 'x-session-id' ? 'abc' : undefined) };
+      const day1 = () => new Date('2025-01-01T10:00:00Z');
+      const day2 = () => new Date('2025-01-02T10:00:00Z');
+
+      expect(visitorHash(req as Request, day1)).toBe(visitorHash(req as Request, day1));
+      expect(visitorHash(req as Request, day1)).not.toBe(visitorHash(req as Request, day2));
+    });
+  });
+
+  describe('POST /api/v1/search/clicks', () => {
+    it('should record only the first click of a search', async () => {
+      const { searchId } = (await search('hoodie')).body;
+
+      expect((await click(searchId)).status).toBe(200);
+      const first = await prisma.searchQuery.findUniqueOrThrow({ where: { id: searchId } });
+      expect(first.clickedProductId).toBe(productId);
+
+      expect((await click(searchId)).status).toBe(200);
+      const second = await prisma.searchQuery.findUniqueOrThrow({ where: { id: searchId } });
+      expect(second.clickedAt).toEqual(first.clickedAt);
+    });
+
+    it('should return 404 for an unknown search', async () => {
+      const res = await click('00000000-0000-0000-0000-000000000000');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/v1/search/analytics', () => {
+    it('should require the analytics:read permission', async () => {
+      const res = await request(app)
+        .get('/api/v1/search/analytics')
+        .set('Authorization', `Bearer ${userToken}`);
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should report top, zero-result and low click-through queries', async () => {
+      for (let i = 0; i < 5; i++) {
+        const { searchId } = (await search('hoodie', `visitor-${i}`)).body;
+        if (i === 0) await click(searchId);
+      }
+      await search('sweater');
+      await search('sweater');
+
+      const res = await request(app)
+        .get('/api/v1/search/analytics')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.summary).toEqual({
+        searches: 7,
+        uniqueVisitors: 6,
+        zeroResultSearches: 2,
+        clickThroughRate: 0.1429,
+      });
+      expect(res.body.topQueries[0]).toEqual({
+        query: 'hoodie',
+        searches: 5,
+        averageResults: 1,
+        clicks: 1,
+        clickThroughRate: 0.2,
+      });
+      expect(res.body.zeroResultQueries).toEqual([
+        expect.objectContaining({ query: 'sweater', searches: 2 }),
+      ]);
+      expect(res.body.lowClickThroughQueries.map((q: { query: string }) => q.query)).toEqual([
+        'hoodie',
+      ]);
+    });
+
+    it('should only include searches in the date range', async () => {
+      await search('hoodie');
+
+      const res = await request(app)
+        .get('/api/v1/search/analytics')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .query({ to: new Date(Date.now() - 60 * 60 * 1000).toISOString() });
+
+      expect(res.status).toBe(200);
+      expect(res.body.summary.searches).toBe(0);
+      expect(res.body.topQueries).toEqual([]);
+    });
+
+    it('should reject a range that ends before it starts', async () => {
+      const res = await request(app)
+        .get('/api/v1/search/analytics')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .query({ from: '2025-02-01T00:00:00Z', to: '2025-01-01T00:00:00Z' });
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
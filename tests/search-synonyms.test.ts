@@ -0,0 +1,136 @@
+import request from 'supertest';
+
+import { createApp } from '../src/app';
+import { createTestUser, createTestCategory, createTestProduct, cleanupDatabase } from './helpers';
+
+const app = createApp();
+
+describe('Search Synonyms', () => {
+  let adminToken: string;
+  let userToken: string;
+  let clothingId: string;
+  let saleId: string;
+
+  const login = async (email: string) =>
+    (await request(app).post('/api/v1/auth/login').send({ email, password: 'password123' })).body
+      .accessToken as string;
+
+  const createRule = (body: Record<string, unknown>) =>
+    request(app)
+      .post('/api/v1/search/synonyms')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send(body);
+
+  const titles = (products: { title: string }[]) => products.map((p) => p.title).sort();
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    await createTestUser('admin@example.com', 'ADMIN');
+    await createTestUser('user@example.com', 'USER');
+    adminToken = await login('admin@example.com');
+    userToken = await login('user@example.com');
+
+    clothingId = (await createTestCategory('Clothing')).id;
+    saleId = (await createTestCategory('Sale')).id;
+    await createTestProduct(clothingId, { title: 'White T-Shirt' });
+    await createTestProduct(clothingId, { title: 'Running Trainers' });
+  });
+
+  describe('Rule management', () => {
+    it('should normalise and store rules', async () => {
+      const res = await createRule({ term: '  Tee ', synonyms: ['T-Shirt', 'tee', 't-shirt'] });
+
+      expect(res.status).toBe(201);
+      expect(res.body.synonym).toMatchObject({ term: 'tee', synonyms: ['t-shirt'] });
+
+      const list = await request(app)
+        .get('/api/v1/search/synonyms')
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(list.body.synonyms).toHaveLength(1);
+    });
+
+    it('should reject duplicate terms and empty rules', async () => {
+      await createRule({ term: 'tee', synonyms: ['t-shirt'] });
+
+      expect((await createRule({ term: 'TEE', synonyms: ['top'] })).status).toBe(409);
+      expect((await createRule({ term: 'shirt' })).status).toBe(400);
+    });
+
+    it('should require the catalog:write permission', async () => {
+      const res = await request(app)
+        .post('/api/v1/search/synonyms')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ term: 'tee', synonyms: ['t-shirt'] });
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should update and delete rules', async () => {
+      const { id } = (await createRule({ term: 'tee', synonyms: ['t-shirt'] })).body.synonym;
+
+      const updated = await request(app)
+        .patch(`/api/v1/search/synonyms/${id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ synonyms: ['t-shirt', 'top'], redirectCategoryId: clothingId });
+      expect(updated.status).toBe(200);
+      expect(updated.body.synonym.redirectCategory.slug).toBe('clothing');
+
+      const deleted = await request(app)
+        .delete(`/api/v1/search/synonyms/${id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(deleted.status).toBe(200);
+    });
+  });
+
+  describe('Query rewriting', () => {
+    it('should expand product searches with synonyms', async () => {
+      await createRule({ term: 'sneakers', synonyms: ['trainers'] });
+
+      const res = await request(app)
+        .get('/api/v1/products/search')
+        .query({ q: 'running sneakers' });
+
+      expect(res.status).toBe(200);
+      expect(titles(res.body.products)).toEqual(['Running Trainers']);
+      expect(res.body.redirect).toBeNull();
+    });
+
+    it('should not expand terms that only appear inside other words', async () => {
+      await createRule({ term: 'tee', synonyms: ['t-shirt'] });
+
+      const res = await request(app).get('/api/v1/products/search').query({ q: 'teeth' });
+
+      expect(res.body.products).toEqual([]);
+    });
+
+    it('should expand suggestions with synonyms', async () => {
+      await createRule({ term: 'tee', synonyms: ['t-shirt'] });
+
+      const res = await request(app).get('/api/v1/search/suggestions').query({ q: 'tee' });
+
+      expect(res.status).toBe(200);
+      expect(titles(res.body.suggestions.products)).toEqual(['White T-Shirt']);
+    });
+
+    it('should return a category redirect for an exact term', async () => {
+      await createRule({ term: 'sale', redirectCategoryId: saleId });
+
+      const res = await request(app).get('/api/v1/products/search').query({ q: 'Sale' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.redirect).toEqual({
+        type: 'category',
+        categoryId: saleId,
+        slug: 'sale',
+        name: 'Sale',
+        url: '/categories/sale',
+      });
+
+      const partial = await request(app).get('/api/v1/products/search').query({ q: 'sale shirts' });
+      expect(partial.body.redirect).toBeNull();
+
+      const suggestions = await request(app).get('/api/v1/search/suggestions').query({ q: 'sale' });
+      expect(suggestions.body.redirect.url).toBe('/categories/sale');
+    });
+  });
+});
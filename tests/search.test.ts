@@ -1,6 +1,7 @@
 import request from 'supertest';
 
 import { createApp } from '../src/app';
+import { prisma } from '../src/config/prisma';
 import { createTestUser, createTestCategory, createTestProduct, cleanupDatabase } from './helpers';
 
 const app = createApp();
@@ -90,6 +91,105 @@ describe('Search', () => {
       expect(res.body.pagination).toHaveProperty('totalPages');
       expect(res.body.pagination).toHaveProperty('hasMore');
     });
+
+    it('should reject invalid paging and sorting', async () => {
+      for (const query of [{ limit: -1 }, { page: 'abc' }, { sortBy: 'password' }]) {
+        const res = await request(app).get('/api/v1/products/search').query(query);
+        expect(res.status).toBe(400);
+      }
+
+      const res = await request(app).get('/api/v1/products/search').query({ page: 0, limit: 0 });
+      expect(res.status).toBe(200);
+      expect(res.body.pagination).toMatchObject({ page: 1, limit: 20 });
+    });
+
+    it('should match different word forms', async () => {
+      await createTestProduct(categoryId, { title: 'Running Shoe' });
+
+      const res = await request(app).get('/api/v1/products/search').query({ q: 'shoes' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.products.map((p: { title: string }) => p.title)).toEqual(['Running Shoe']);
+    });
+
+    it('should rank title matches above description matches and highlight them', async () => {
+      await prisma.product.create({
+        data: {
+          title: 'Laptop Sleeve',
+          slug: 'laptop-sleeve',
+          description: 'Padded sleeve that fits most tablets',
+          priceCents: 2000,
+          stock: 5,
+          categoryId,
+        },
+      });
+      await prisma.product.create({
+        data: {
+          title: 'Desk Organiser',
+          slug: 'desk-organiser',
+          description: 'Keeps a spare sleeve and cables tidy',
+          priceCents: 1500,
+          stock: 5,
+          categoryId,
+        },
+      });
+
+      const res = await request(app).get('/api/v1/products/search').query({ q: 'sleeve' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.products.map((p: { title: string }) => p.title)).toEqual([
+        'Laptop Sleeve',
+        'Desk Organiser',
+      ]);
+      expect(res.body.products[0].relevance).toBeGreaterThan(res.body.products[1].relevance);
+      expect(res.body.products[0].highlight.title).toBe('Laptop <mark>Sleeve</mark>');
+      expect(res.body.products[1].highlight.description).toContain('<mark>sleeve</mark>');
+    });
+
+    it('should not return relevance or highlights without a query', async () => {
+      const res = await request(app).get('/api/v1/products/search');
+
+      expect(res.status).toBe(200);
+      expect(res.body.products[0].relevance).toBeNull();
+      expect(res.body.products[0].highlight).toBeNull();
+    });
+
+    it('should only include facets when asked for', async () => {
+      const res = await request(app).get('/api/v1/products/search');
+
+      expect(res.status).toBe(200);
+      expect(res.body).not.toHaveProperty('facets');
+    });
+
+    it('should return facet counts for the current filters', async () => {
+      const accessories = await createTestCategory('Accessories');
+      await createTestProduct(accessories.id, { title: 'Laptop Stand', priceCents: 3000 });
+      const soldOut = await createTestProduct(categoryId, {
+        title: 'Laptop Charger',
+        priceCents: 4000,
+      });
+      await prisma.product.update({ where: { id: soldOut.id }, data: { stock: 0 } });
+      const user = await prisma.user.findUniqueOrThrow({ where: { email: 'user@example.com' } });
+      await prisma.review.create({ data: { userId: user.id, productId: soldOut.id, rating: 4 } });
+
+      const res = await request(app)
+        .get('/api/v1/products/search')
+        .query({ q: 'laptop', categoryId, facets: 'true' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.pagination.total).toBe(2);
+      // Categories ignore the category filter so the other options stay visible
+      expect(res.body.facets.categories).toEqual([
+        expect.objectContaining({ name: 'Electronics', count: 2 }),
+        expect.objectContaining({ name: 'Accessories', count: 1 }),
+      ]);
+      expect(res.body.facets.price).toContainEqual({ minCents: 2500, maxCents: 5000, count: 1 });
+      expect(res.body.facets.price).toContainEqual({ minCents: 50000, maxCents: null, count: 1 });
+      expect(res.body.facets.rating).toContainEqual({ minRating: 4, count: 1 });
+      expect(res.body.facets.rating).toContainEqual({ minRating: 1, count: 1 });
+      expect(res.body.facets.rating).toContainEqual({ minRating: null, count: 1 });
+      expect(res.body.facets.stock).toEqual({ inStock: 1, outOfStock: 1 });
+    });
   });
 
   describe('GET /api/v1/search/suggestions', () => {
@@ -98,28 +198,83 @@ describe('Search', () => {
 
       expect(res.status).toBe(200);
       expect(res.body).toHaveProperty('suggestions');
-      expect(res.body.suggestions).toBeInstanceOf(Array);
-      expect(res.body.suggestions.length).toBeGreaterThan(0);
-      expect(res.body.suggestions[0]).toHaveProperty('id');
-      expect(res.body.suggestions[0]).toHaveProperty('title');
-      expect(res.body.suggestions[0]).toHaveProperty('slug');
+      expect(res.body.suggestions.products).toBeInstanceOf(Array);
+      expect(res.body.suggestions.products.length).toBeGreaterThan(0);
+      expect(res.body.suggestions.products[0]).toHaveProperty('id');
+      expect(res.body.suggestions.products[0]).toHaveProperty('title', 'Laptop Computer');
+      expect(res.body.suggestions.products[0]).toHaveProperty('slug');
+    });
+
+    it('should tolerate typos', async () => {
+      await createTestProduct(categoryId, { title: 'Zip Hoodie' });
+
+      const res = await request(app).get('/api/v1/search/suggestions').query({ q: 'hoodei' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.suggestions.products.map((p: { title: string }) => p.title)).toEqual([
+        'Zip Hoodie',
+      ]);
+    });
+
+    it('should suggest categories and SKUs in separate groups', async () => {
+      const product = await createTestProduct(categoryId, { title: 'Wireless Mouse' });
+      await prisma.productVariant.create({
+        data: { productId: product.id, name: 'Color: Black', sku: 'MOUSE-BLK-01' },
+      });
+
+      const categoryRes = await request(app)
+        .get('/api/v1/search/suggestions')
+        .query({ q: 'electronic' });
+      expect(categoryRes.body.suggestions.categories).toEqual([
+        expect.objectContaining({ id: categoryId, name: 'Electronics', productCount: 3 }),
+      ]);
+
+      const skuRes = await request(app).get('/api/v1/search/suggestions').query({ q: 'MOUSE-BLK' });
+      expect(skuRes.body.suggestions.products[0]).toMatchObject({
+        id: product.id,
+        matchedSku: 'MOUSE-BLK-01',
+      });
+    });
+
+    it('should rank popular products above equally similar ones', async () => {
+      const user = await prisma.user.findUniqueOrThrow({ where: { email: 'user@example.com' } });
+      await createTestProduct(categoryId, { title: 'Canvas Bag Blue' });
+      const popular = await createTestProduct(categoryId, { title: 'Canvas Bag Green' });
+      await prisma.order.create({
+        data: {
+          userId: user.id,
+          status: 'PAID',
+          totalCents: 5000,
+          itemsCount: 5,
+          items: {
+            create: [
+              { productId: popular.id, quantity: 5, unitPriceCents: 1000, subtotalCents: 5000 },
+            ],
+          },
+        },
+      });
+
+      const res = await request(app).get('/api/v1/search/suggestions').query({ q: 'canvas bag' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.suggestions.products[0].title).toBe('Canvas Bag Green');
     });
 
-    it('should return empty array for query less than 2 characters', async () => {
+    it('should return no suggestions for query less than 2 characters', async () => {
       const res = await request(app).get('/api/v1/search/suggestions').query({ q: 'L' });
 
       expect(res.status).toBe(200);
-      expect(res.body.suggestions).toEqual([]);
+      expect(res.body.suggestions).toEqual({ products: [], categories: [] });
     });
 
-    it('should return empty array for no query', async () => {
+    it('should return no suggestions for no query', async () => {
       const res = await request(app).get('/api/v1/search/suggestions');
 
       expect(res.status).toBe(200);
-      expect(res.body.suggestions).toEqual([]);
+      expect(res.body.suggestions).toEqual({ products: [], categories: [] });
     });
 
-    it('should limit suggestions to 10', async () => {
+    it('should limit product suggestions to 10', async () => {
       // Create more products
       for (let i = 0; i < 15; i++) {
         await createTestProduct(categoryId, {
@@ -131,7 +286,7 @@ describe('Search', () => {
       const res = await request(app).get('/api/v1/search/suggestions').query({ q: 'Product' });
 
       expect(res.status).toBe(200);
-      expect(res.body.suggestions.length).toBeLessThanOrEqual(10);
+      expect(res.body.suggestions.products.length).toBeLessThanOrEqual(10);
     });
   });
 });
@@ -0,0 +1,307 @@
+import request from 'supertest';
+import { vi } from 'vitest';
+
+import { createApp } from '../src/app';
+import { env } from '../src/config/env';
+import { prisma } from '../src/config/prisma';
+import { generateTotp } from '../src/utils/totp';
+import { createTestUser, cleanupDatabase } from './helpers';
+
+const clock = vi.hoisted(() => ({ now: new Date('2025-11-17T12:00:00Z') }));
+
+vi.mock('../src/utils/clock', () => ({
+  systemClock: () => clock.now,
+}));
+
+const app = createApp();
+
+const advance = (seconds: number) => {
+  clock.now = new Date(clock.now.getTime() + seconds * 1000);
+};
+
+describe('Two-Factor Authentication', () => {
+  let userToken: string;
+
+  const login = (email = 'user@example.com') =>
+    request(app).post('/api/v1/auth/login').send({ email, password: 'password123' });
+
+  // Enrol the logged in user and return the secret, recovery codes and the fresh access token
+  const enrol = async (token: string) => {
+    const enrollRes = await request(app)
+      .post('/api/v1/auth/2fa/enroll')
+      .set('Authorization', `Bearer ${token}`);
+    const secret: string = enrollRes.body.secret;
+
+    const confirmRes = await request(app)
+      .post('/api/v1/auth/2fa/confirm')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ code: generateTotp(secret, clock.now) });
+    expect(confirmRes.status).toBe(200);
+
+    return {
+      secret,
+      recoveryCodes: confirmRes.body.recoveryCodes as string[],
+      accessToken: confirmRes.body.accessToken as string,
+    };
+  };
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    clock.now = new Date('2025-11-17T12:00:00Z');
+    await createTestUser('user@example.com', 'USER');
+
+    const userLogin = await login();
+    userToken = userLogin.body.accessToken;
+  });
+
+  afterEach(() => {
+    env.ADMIN_2FA_REQUIRED = false;
+  });
+
+  describe('Enrollment', () => {
+    it('should return a secret and an otpauth URI', async () => {
+      const res = await request(app)
+        .post('/api/v1/auth/2fa/enroll')
+        .set('Authorization', `Bearer ${userToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(res.body.otpauthUrl).toContain('otpauth://totp/');
+      expect(res.body.otpauthUrl).toContain(`secret=${res.body.secret}`);
+      expect(res.body.otpauthUrl).toContain(`issuer=${env.TWO_FACTOR_ISSUER}`);
+
+      const user = await prisma.user.findUnique({ where: { email: 'user@example.com' } });
+      expect(user?.twoFactorEnabledAt).toBeNull();
+    });
+
+    it('should reject a wrong confirmation code', async () => {
+      const enrollRes = await request(app)
+        .post('/api/v1/auth/2fa/enroll')
+        .set('Authorization', `Bearer ${userToken}`);
+      const wrongCode = generateTotp(enrollRes.body.secret, new Date(clock.now.getTime() + 120000));
+
+      const res = await request(app)
+        .post('/api/v1/auth/2fa/confirm')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ code: wrongCode });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should enable 2FA, return recovery codes and sign out other sessions', async () => {
+      const { recoveryCodes, accessToken } = await enrol(userToken);
+
+      expect(recoveryCodes).toHaveLength(10);
+      const user = await prisma.user.findUnique({ where: { email: 'user@example.com' } });
+      expect(user?.twoFactorEnabledAt).not.toBeNull();
+
+      const oldToken = await request(app)
+        .get('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(oldToken.status).toBe(401);
+
+      const newToken = await request(app)
+        .get('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${accessToken}`);
+      expect(newToken.status).toBe(200);
+    });
+  });
+
+  describe('Login', () => {
+    let secret: string;
+    let recoveryCodes: string[];
+
+    beforeEach(async () => {
+      ({ secret, recoveryCodes } = await enrol(userToken));
+      advance(30);
+    });
+
+    it('should return a challenge instead of tokens', async () => {
+      const res = await login();
+
+      expect(res.status).toBe(200);
+      expect(res.body.twoFactorRequired).toBe(true);
+      expect(res.body.challengeToken).toBeDefined();
+      expect(res.body.accessToken).toBeUndefined();
+    });
+
+    it('should not accept the challenge token as an access token', async () => {
+      const loginRes = await login();
+
+      const res = await request(app)
+        .get('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${loginRes.body.challengeToken}`);
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should issue tokens for a valid code', async () => {
+      const loginRes = await login();
+
+      const res = await request(app)
+        .post('/api/v1/auth/login/2fa')
+        .send({
+          challengeToken: loginRes.body.challengeToken,
+          code: generateTotp(secret, clock.now),
+        });
+
+      expect(res.status).toBe(200);
+      expect(res.body).toHaveProperty('accessToken');
+      expect(res.body).toHaveProperty('refreshToken');
+    });
+
+    it('should allow one step of clock drift but not more', async () => {
+      advance(60);
+      const stale = generateTotp(secret, new Date(clock.now.getTime() - 60000));
+      const previous = generateTotp(secret, new Date(clock.now.getTime() - 30000));
+
+      const first = await login();
+      const staleRes = await request(app)
+        .post('/api/v1/auth/login/2fa')
+        .send({ challengeToken: first.body.challengeToken, code: stale });
+      expect(staleRes.status).toBe(401);
+
+      const previousRes = await request(app)
+        .post('/api/v1/auth/login/2fa')
+        .send({ challengeToken: first.body.challengeToken, code: previous });
+      expect(previousRes.status).toBe(200);
+    });
+
+    it('should not accept the same code twice', async () => {
+      const code = generateTotp(secret, clock.now);
+      const first = await login();
+      await request(app)
+        .post('/api/v1/auth/login/2fa')
+        .send({ challengeToken: first.body.challengeToken, code });
+
+      const second = await login();
+      const res = await request(app)
+        .post('/api/v1/auth/login/2fa')
+        .send({ challengeToken: second.body.challengeToken, code });
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should accept each recovery code once', async () => {
+      const first = await login();
+      const firstRes = await request(app)
+        .post('/api/v1/auth/login/2fa')
+        .send({ challengeToken: first.body.challengeToken, recoveryCode: recoveryCodes[0] });
+      expect(firstRes.status).toBe(200);
+
+      const second = await login();
+      const secondRes = await request(app)
+        .post('/api/v1/auth/login/2fa')
+        .send({ challengeToken: second.body.challengeToken, recoveryCode: recoveryCodes[0] });
+      expect(secondRes.status).toBe(401);
+    });
+
+    it('should reject an expired challenge token', async () => {
+      const loginRes = await login();
+
+      // Challenge tokens are checked against real time by jsonwebtoken
+      vi.useFakeTimers({ toFake: ['Date'], now: Date.now() + 6 * 60 * 1000 });
+      try {
+        const res = await request(app)
+          .post('/api/v1/auth/login/2fa')
+          .send({
+            challengeToken: loginRes.body.challengeToken,
+            code: generateTotp(secret, clock.now),
+          });
+        expect(res.status).toBe(401);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should disable 2FA with password and code', async () => {
+      const loginRes = await login();
+      const tokens = await request(app)
+        .post('/api/v1/auth/login/2fa')
+        .send({
+          challengeToken: loginRes.body.challengeToken,
+          code: generateTotp(secret, clock.now),
+        });
+      advance(30);
+
+      const res = await request(app)
+        .post('/api/v1/auth/2fa/disable')
+        .set('Authorization', `Bearer ${tokens.body.accessToken}`)
+        .send({ password: 'password123', code: generateTotp(secret, clock.now) });
+
+      expect(res.status).toBe(200);
+      const plainLogin = await login();
+      expect(plainLogin.body).toHaveProperty('accessToken');
+      expect(await prisma.recoveryCode.count()).toBe(0);
+    });
+
+    it('should sign out other sessions when 2FA is disabled', async () => {
+      const signIn = async () => {
+        const loginRes = await login();
+        const res = await request(app)
+          .post('/api/v1/auth/login/2fa')
+          .send({
+            challengeToken: loginRes.body.challengeToken,
+            code: generateTotp(secret, clock.now),
+          });
+        advance(30);
+        return res.body as { accessToken: string; refreshToken: string };
+      };
+      const current = await signIn();
+      const other = await signIn();
+
+      const res = await request(app)
+        .post('/api/v1/auth/2fa/disable')
+        .set('Authorization', `Bearer ${current.accessToken}`)
+        .send({ password: 'password123', code: generateTotp(secret, clock.now) });
+      expect(res.status).toBe(200);
+
+      const otherRes = await request(app)
+        .get('/api/v1/profile')
+        .set('Authorization', `Bearer ${other.accessToken}`);
+      expect(otherRes.status).toBe(401);
+      const refreshRes = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: other.refreshToken });
+      expect(refreshRes.status).toBe(401);
+
+      const currentRes = await request(app)
+        .get('/api/v1/profile')
+        .set('Authorization', `Bearer ${res.body.accessToken}`);
+      expect(currentRes.status).toBe(200);
+    });
+  });
+
+  describe('Admin policy', () => {
+    let adminToken: string;
+
+    beforeEach(async () => {
+      await createTestUser('admin@example.com', 'ADMIN');
+      adminToken = (await login('admin@example.com')).body.accessToken;
+    });
+
+    it('should allow admins without 2FA when the policy is off', async () => {
+      const res = await request(app)
+        .get('/api/v1/users')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.status).toBe(200);
+    });
+
+    it('should require admins to enrol when the policy is on', async () => {
+      env.ADMIN_2FA_REQUIRED = true;
+
+      const blocked = await request(app)
+        .get('/api/v1/users')
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(blocked.status).toBe(403);
+      expect(blocked.body.message).toContain('Two-factor');
+
+      const { accessToken } = await enrol(adminToken);
+      const allowed = await request(app)
+        .get('/api/v1/users')
+        .set('Authorization', `Bearer ${accessToken}`);
+      expect(allowed.status).toBe(200);
+    });
+  });
+});
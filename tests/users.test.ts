@@ -1,7 +1,8 @@
 import request from 'supertest';
 
 import { createApp } from '../src/app';
-import { createTestUser, cleanupDatabase } from './helpers';
+import { prisma } from '../src/config/prisma';
+import { createTestUser, createTestCategory, createTestProduct, cleanupDatabase } from './helpers';
 
 const app = createApp();
 
@@ -42,6 +43,31 @@ describe('Users', () => {
       expect(Array.isArray(res.body.users)).toBe(true);
     });
 
+    it('should paginate and search users', async () => {
+      await createTestUser('alice@example.com');
+      await createTestUser('bob@example.com');
+
+      const page = await request(app)
+        .get('/api/v1/users?limit=2&page=2')
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(page.status).toBe(200);
+      expect(page.body.total).toBe(4);
+      expect(page.body.users).toHaveLength(2);
+
+      const search = await request(app)
+        .get('/api/v1/users?q=ALICE')
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(search.body.total).toBe(1);
+      expect(search.body.users[0].email).toBe('alice@example.com');
+
+      const admins = await request(app)
+        .get('/api/v1/users?role=ADMIN')
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(admins.body.users.map((u: { email: string }) => u.email)).toEqual([
+        'admin@example.com',
+      ]);
+    });
+
     it('should reject non-admin user', async () => {
       const res = await request(app)
         .get('/api/v1/users')
@@ -68,6 +94,40 @@ describe('Users', () => {
       expect(res.body.user.id).toBe(user.id);
     });
 
+    it('should include order, spend and review totals and addresses', async () => {
+      const user = await prisma.user.findUniqueOrThrow({ where: { email: 'user@example.com' } });
+      const category = await createTestCategory('Electronics');
+      const product = await createTestProduct(category.id, { priceCents: 1000, stock: 10 });
+      await prisma.address.create({
+        data: {
+          userId: user.id,
+          label: 'Home',
+          firstName: 'Test',
+          lastName: 'User',
+          street: '1 Main St',
+          city: 'Springfield',
+          zipCode: '12345',
+        },
+      });
+
+      for (const status of ['PAID', 'PENDING', 'DELIVERED'] as const) {
+        const orderRes = await request(app)
+          .post('/api/v1/orders')
+          .set('Authorization', `Bearer ${userToken}`)
+          .send({ items: [{ productId: product.id, quantity: 2 }] });
+        await prisma.order.update({ where: { id: orderRes.body.order.id }, data: { status } });
+      }
+      await prisma.review.create({ data: { userId: user.id, productId: product.id, rating: 5 } });
+
+      const res = await request(app)
+        .get(`/api/v1/users/${user.id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.user.addresses).toHaveLength(1);
+      expect(res.body.stats).toEqual({ orderCount: 3, lifetimeSpendCents: 4000, reviewCount: 1 });
+    });
+
     it('should return 404 for non-existent user', async () => {
       const res = await request(app)
         .get('/api/v1/users/non-existent-id')
@@ -76,4 +136,153 @@ describe('Users', () => {
       expect(res.status).toBe(404);
     });
   });
+
+  describe('PATCH /api/v1/users/:id/role', () => {
+    it('should promote a user and revoke their existing tokens', async () => {
+      const user = await prisma.user.findUniqueOrThrow({ where: { email: 'user@example.com' } });
+
+      const res = await request(app)
+        .patch(`/api/v1/users/${user.id}/role`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ role: 'ADMIN' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.user.role).toBe('ADMIN');
+
+      const oldToken = await request(app)
+        .get('/api/v1/profile')
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(oldToken.status).toBe(401);
+    });
+
+    it('should not let an admin change their own role', async () => {
+      const admin = await prisma.user.findUniqueOrThrow({ where: { email: 'admin@example.com' } });
+
+      const res = await request(app)
+        .patch(`/api/v1/users/${admin.id}/role`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ role: 'USER' });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should reject non-admin user', async () => {
+      const admin = await prisma.user.findUniqueOrThrow({ where: { email: 'admin@example.com' } });
+
+      const res = await request(app)
+        .patch(`/api/v1/users/${admin.id}/role`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ role: 'USER' });
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('Suspension', () => {
+    let userId: string;
+
+    beforeEach(async () => {
+      userId = (await prisma.user.findUniqueOrThrow({ where: { email: 'user@example.com' } })).id;
+    });
+
+    it('should block API access and login for a suspended user', async () => {
+      const res = await request(app)
+        .post(`/api/v1/users/${userId}/suspend`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ reason: 'Chargeback fraud' });
+      expect(res.status).toBe(200);
+      expect(res.body.user.suspendedReason).toBe('Chargeback fraud');
+
+      const apiRes = await request(app)
+        .get('/api/v1/profile')
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(apiRes.status).toBe(403);
+      expect(apiRes.body.code).toBe('ACCOUNT_SUSPENDED');
+
+      const loginRes = await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: 'user@example.com', password: 'password123' });
+      expect(loginRes.status).toBe(403);
+      expect(loginRes.body.code).toBe('ACCOUNT_SUSPENDED');
+    });
+
+    it('should let a reactivated user log in again', async () => {
+      await request(app)
+        .post(`/api/v1/users/${userId}/suspend`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({});
+
+      const res = await request(app)
+        .post(`/api/v1/users/${userId}/reactivate`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(res.status).toBe(200);
+      expect(res.body.user.suspendedAt).toBeNull();
+
+      const loginRes = await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: 'user@example.com', password: 'password123' });
+      expect(loginRes.status).toBe(200);
+    });
+
+    it('should not let an admin suspend themselves', async () => {
+      const admin = await prisma.user.findUniqueOrThrow({ where: { email: 'admin@example.com' } });
+
+      const res = await request(app)
+        .post(`/api/v1/users/${admin.id}/suspend`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({});
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should not let an admin reactivate themselves', async () => {
+      const admin = await prisma.user.findUniqueOrThrow({ where: { email: 'admin@example.com' } });
+
+      const res = await request(app)
+        .post(`/api/v1/users/${admin.id}/reactivate`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/v1/users/:id/password-reset', () => {
+    it('should issue a reset token for the user', async () => {
+      const user = await prisma.user.findUniqueOrThrow({ where: { email: 'user@example.com' } });
+
+      const res = await request(app)
+        .post(`/api/v1/users/${user.id}/password-reset`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.status).toBe(200);
+      const updated = await prisma.user.findUnique({ where: { id: user.id } });
+      expect(updated?.resetPasswordToken).toBeTruthy();
+      expect(updated?.resetPasswordExpires!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should share the hourly reset email limit with forgot-password', async () => {
+      const user = await prisma.user.update({
+        where: { email: 'user@example.com' },
+        data: { passwordResetRequests: 5, passwordResetWindowStart: new Date() },
+      });
+
+      const res = await request(app)
+        .post(`/api/v1/users/${user.id}/password-reset`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.status).toBe(429);
+      const updated = await prisma.user.findUnique({ where: { id: user.id } });
+      expect(updated?.resetPasswordToken).toBeNull();
+    });
+  });
+
+  it('should use the role stored in the database rather than the token', async () => {
+    await prisma.user.update({ where: { email: 'admin@example.com' }, data: { role: 'USER' } });
+
+    const res = await request(app)
+      .get('/api/v1/users')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(res.status).toBe(403);
+  });
 });
@@ -236,6 +236,28 @@ describe('Product Variants', () => {
       expect(getRes.body.variants).toHaveLength(0);
     });
 
+    it('should return 409 for a variant that has been ordered', async () => {
+      await request(app)
+        .patch(`/api/v1/variants/${variantId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ stock: 5 });
+      const orderRes = await request(app)
+        .post('/api/v1/orders')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ items: [{ productId, variantId, quantity: 1 }] });
+      expect(orderRes.status).toBe(201);
+
+      const res = await request(app)
+        .delete(`/api/v1/variants/${variantId}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.status).toBe(409);
+      const order = await request(app)
+        .get(`/api/v1/orders/${orderRes.body.order.id}`)
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(order.body.order.items[0].variantId).toBe(variantId);
+    });
+
     it('should return 403 for non-admin users', async () => {
       const res = await request(app)
         .delete(`/api/v1/variants/${variantId}`)
@@ -1,8 +1,9 @@
 import request from 'supertest';
 
 import { createApp } from '../src/app';
+import { env } from '../src/config/env';
 import { prisma } from '../src/config/prisma';
-import { createTestUser, cleanupDatabase } from './helpers';
+import { createTestUser, createTestCategory, createTestProduct, cleanupDatabase } from './helpers';
 
 const app = createApp();
 
@@ -12,7 +13,7 @@ describe('Email Verification', () => {
 
   beforeEach(async () => {
     await cleanupDatabase();
-    const user = await createTestUser('user@example.com', 'USER');
+    const user = await createTestUser('user@example.com', 'USER', { emailVerified: false });
     userId = user.id;
 
     const loginRes = await request(app).post('/api/v1/auth/login').send({
@@ -182,4 +183,62 @@ describe('Email Verification', () => {
       expect(res.status).toBe(401);
     });
   });
+
+  describe('Verified email policy', () => {
+    const address = {
+      label: 'Home',
+      firstName: 'Test',
+      lastName: 'User',
+      street: '1 Main St',
+      city: 'Springfield',
+      zipCode: '12345',
+      country: 'US',
+    };
+    const requiredFor = env.VERIFIED_EMAIL_REQUIRED_FOR;
+
+    afterEach(() => {
+      env.VERIFIED_EMAIL_REQUIRED_FOR = requiredFor;
+    });
+
+    it('should block order creation for unverified accounts', async () => {
+      const category = await createTestCategory('Electronics');
+      const product = await createTestProduct(category.id, { title: 'Test Product', stock: 5 });
+
+      const res = await request(app)
+        .post('/api/v1/orders')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ items: [{ productId: product.id, quantity: 1 }] });
+
+      expect(res.status).toBe(403);
+      expect(res.body.code).toBe('EMAIL_NOT_VERIFIED');
+    });
+
+    it('should block address changes until the email is verified', async () => {
+      const blocked = await request(app)
+        .post('/api/v1/profile/addresses')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send(address);
+      expect(blocked.status).toBe(403);
+      expect(blocked.body.code).toBe('EMAIL_NOT_VERIFIED');
+
+      await prisma.user.update({ where: { id: userId }, data: { emailVerified: true } });
+
+      const allowed = await request(app)
+        .post('/api/v1/profile/addresses')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send(address);
+      expect(allowed.status).toBe(201);
+    });
+
+    it('should allow actions left out of the policy', async () => {
+      env.VERIFIED_EMAIL_REQUIRED_FOR = ['orders', 'checkout', 'reviews'];
+
+      const res = await request(app)
+        .post('/api/v1/profile/addresses')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send(address);
+
+      expect(res.status).toBe(201);
+    });
+  });
 });